@@ -0,0 +1,50 @@
+import { AUDITED_ITEM_FIELDS, auditItemSnapshot, canModifyBill, canModifyItem, diffFields } from '../../services/bill-audit.js';
+
+const bill = { id: 'b1', createdBy: 'ana' };
+const item = {
+  id: 'i1', billId: 'b1', description: 'Pizza', amount: 30, payerId: 'ben', createdBy: 'cy',
+  splitMethod: 'shares', splitDefinition: [{ userId: 'ana', value: 1 }, { userId: 'ben', value: 2 }],
+  splits: [{ userId: 'ana', amount: 10 }, { userId: 'ben', amount: 20 }]
+};
+
+describe('Bill audit', () => {
+  it('should let the bill creator or a payer change a bill', () => {
+    expect(canModifyBill(bill, [item], 'ana')).toBe(true);
+    expect(canModifyBill(bill, [item], 'ben')).toBe(true);
+    expect(canModifyBill(bill, [item], 'cy')).toBe(false);
+    expect(canModifyBill(bill, [], 'ben')).toBe(false);
+  });
+
+  it('should let the item creator or payer change an item', () => {
+    expect(canModifyItem(bill, item, 'cy')).toBe(true);
+    expect(canModifyItem(bill, item, 'ben')).toBe(true);
+    expect(canModifyItem(bill, item, 'ana')).toBe(false);
+    // Items from before creators were tracked belong to the bill creator
+    expect(canModifyItem(bill, { ...item, createdBy: null }, 'ana')).toBe(true);
+  });
+
+  it('should snapshot only the audited item fields and splits', () => {
+    expect(auditItemSnapshot(item)).toEqual({
+      description: 'Pizza', amount: 30, payerId: 'ben', splitMethod: 'shares',
+      splitDefinition: item.splitDefinition, splits: item.splits
+    });
+  });
+
+  it('should record before and after values of changed fields only', () => {
+    const before = auditItemSnapshot(item);
+    const after = auditItemSnapshot({ ...item, amount: 36, splitDefinition: [{ userId: 'ana', value: 1 }, { userId: 'ben', value: 3 }] });
+
+    expect(diffFields(before, after, AUDITED_ITEM_FIELDS)).toEqual([
+      { field: 'amount', before: 30, after: 36 },
+      { field: 'splitDefinition', before: item.splitDefinition, after: [{ userId: 'ana', value: 1 }, { userId: 'ben', value: 3 }] }
+    ]);
+  });
+
+  it('should treat equal nested values as unchanged and missing values as null', () => {
+    const before = auditItemSnapshot(item);
+    expect(diffFields(before, auditItemSnapshot(JSON.parse(JSON.stringify(item))), AUDITED_ITEM_FIELDS)).toEqual([]);
+    expect(diffFields({ title: 'Old' }, {}, ['title'])).toEqual([{ field: 'title', before: 'Old', after: null }]);
+    expect(diffFields({ charges: [] }, { charges: [{ type: 'tip', mode: 'percent', value: 15 }] }, ['charges']))
+      .toEqual([{ field: 'charges', before: [], after: [{ type: 'tip', mode: 'percent', value: 15 }] }]);
+  });
+});
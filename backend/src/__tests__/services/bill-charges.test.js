@@ -0,0 +1,78 @@
+import { buildChargeBreakdown, computeChargeItems, summarizeBillTotals } from '../../services/bill-charges.js';
+import { computeSplits } from '../../services/bill-splits.js';
+
+const cents = (n) => Math.round(n * 100);
+const item = (id, amount, payerId, userIds) => ({
+  id, billId: 'b1', description: id, amount, payerId,
+  splits: computeSplits(amount, { method: 'equal', participants: userIds.map(userId => ({ userId })) })
+});
+
+// Items plus charge items must add up to the bill total, and every charge to its own splits
+function expectReconciles(items, charges) {
+  const chargeItems = computeChargeItems(items, charges);
+  const { total, chargesTotal } = summarizeBillTotals(items, charges);
+  const sum = [...items, ...chargeItems].reduce((acc, i) => acc + cents(i.amount), 0);
+  expect(sum).toBe(cents(total));
+  expect(chargeItems.reduce((acc, i) => acc + cents(i.amount), 0)).toBe(cents(chargesTotal));
+  for (const charge of chargeItems) {
+    expect(charge.splits.reduce((acc, s) => acc + cents(s.amount), 0)).toBe(cents(charge.amount));
+  }
+  return chargeItems;
+}
+
+describe('Bill charges', () => {
+  it('should round a percentage charge once on the subtotal', () => {
+    const items = [item('pasta', 18.99, 'u1', ['u1']), item('salad', 12.49, 'u2', ['u2']), item('wine', 31, 'u1', ['u1', 'u2', 'u3'])];
+    expect(summarizeBillTotals(items, [{ type: 'tax', mode: 'percent', value: 8.875 }])).toEqual({ subtotal: 62.48, chargesTotal: 5.55, total: 68.03 });
+
+    const [tax] = expectReconciles(items, [{ type: 'tax', mode: 'percent', value: 8.875 }]);
+    expect(tax).toMatchObject({ id: 'charge-0', description: 'Tax', chargeType: 'tax', amount: 5.55, payerId: 'u1' });
+  });
+
+  it('should spread charges in proportion to what each person had', () => {
+    const items = [item('steak', 30, 'u1', ['u1']), item('soup', 10, 'u1', ['u2'])];
+    const [tip] = expectReconciles(items, [{ type: 'tip', mode: 'percent', value: 20 }]);
+    expect(tip.splits).toEqual([{ userId: 'u1', amount: 6 }, { userId: 'u2', amount: 2 }]);
+  });
+
+  it('should reconcile fixed charges that do not divide evenly', () => {
+    const items = [item('a', 10, 'u1', ['u1']), item('b', 10, 'u2', ['u2']), item('c', 10, 'u3', ['u3'])];
+    const [service, tip] = expectReconciles(items, [
+      { type: 'service', mode: 'fixed', value: 10, label: 'Cover', payerId: 'u3' },
+      { type: 'tip', mode: 'fixed', value: 0.05 }
+    ]);
+    expect(service).toMatchObject({ description: 'Cover', amount: 10, payerId: 'u3' });
+    expect(service.splits.map(s => s.amount)).toEqual([3.34, 3.33, 3.33]);
+    expect(tip.splits.map(s => s.amount)).toEqual([0.02, 0.02, 0.01]);
+  });
+
+  it('should reconcile a single item bill and a bill with many items', () => {
+    expectReconciles([item('pizza', 23.99, 'u1', ['u1', 'u2', 'u3'])], [
+      { type: 'tax', mode: 'percent', value: 7.25 },
+      { type: 'tip', mode: 'percent', value: 18 }
+    ]);
+
+    const many = Array.from({ length: 17 }, (_, i) => item(`i${i}`, 1.37 + i * 0.91, `u${(i % 4) + 1}`, [`u${(i % 4) + 1}`, `u${((i + 1) % 4) + 1}`]));
+    expectReconciles(many, [
+      { type: 'tax', mode: 'percent', value: 9.5 },
+      { type: 'service', mode: 'percent', value: 12.5 },
+      { type: 'tip', mode: 'fixed', value: 20.01 }
+    ]);
+  });
+
+  it('should skip zero charges and bills without items', () => {
+    const items = [item('a', 10, 'u1', ['u1'])];
+    expect(computeChargeItems(items, [{ type: 'tip', mode: 'percent', value: 0 }])).toEqual([]);
+    expect(computeChargeItems([], [{ type: 'tip', mode: 'fixed', value: 5 }])).toEqual([]);
+    expect(computeChargeItems(items, [])).toEqual([]);
+  });
+
+  it('should break charges down per person', () => {
+    const items = [item('steak', 30, 'u1', ['u1']), item('soup', 10, 'u1', ['u2'])];
+    const chargeItems = computeChargeItems(items, [{ type: 'tax', mode: 'percent', value: 10 }, { type: 'tip', mode: 'fixed', value: 4 }]);
+    expect(buildChargeBreakdown(items, chargeItems)).toEqual([
+      { userId: 'u1', subtotal: 30, tax: 3, tip: 3, service: 0, total: 36 },
+      { userId: 'u2', subtotal: 10, tax: 1, tip: 1, service: 0, total: 12 }
+    ]);
+  });
+});
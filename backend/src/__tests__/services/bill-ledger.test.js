@@ -0,0 +1,130 @@
+import { billExchangeRate, buildGroupLedger, calculateOptimalTransactions, computeBillSettlements, convertItemsToBase, snapshotExchangeRate } from '../../services/bill-ledger.js';
+import { computeSplits } from '../../services/bill-splits.js';
+
+const group = { id: 'g1', baseCurrency: 'USD', memberIds: ['ana', 'ben', 'cy'] };
+const bill = (id, createdAt, extra = {}) => ({ id, title: id, currency: 'USD', exchangeRate: 1, charges: [], createdAt, ...extra });
+const item = (billId, amount, payerId, userIds) => ({
+  id: `${billId}-${payerId}-${amount}`, billId, description: 'item', amount, payerId,
+  splits: computeSplits(amount, { method: 'equal', participants: userIds.map(userId => ({ userId })) })
+});
+const balancesOf = (list) => Object.fromEntries(list.map(b => [b.userId, b.balance]));
+
+describe('Bill ledger', () => {
+  it('should replay bills oldest first with running balances', () => {
+    const bills = [bill('dinner', '2026-03-02T19:00:00Z'), bill('groceries', '2026-03-01T10:00:00Z')];
+    const items = [item('dinner', 90, 'ana', ['ana', 'ben', 'cy']), item('groceries', 40, 'ben', ['ben', 'cy'])];
+
+    const ledger = buildGroupLedger(group, bills, items);
+
+    expect(ledger).toMatchObject({ groupId: 'g1', currency: 'USD', billCount: 2, paymentCount: 0 });
+    expect(ledger.entries.map(e => e.billId)).toEqual(['groceries', 'dinner']);
+    expect(ledger.entries[0]).toMatchObject({ type: 'bill', total: 40, original: { currency: 'USD', exchangeRate: 1, total: 40 } });
+    expect(balancesOf(ledger.entries[0].changes)).toEqual({ ben: 20, cy: -20 });
+    expect(balancesOf(ledger.entries[0].runningBalances)).toEqual({ ana: 0, ben: 20, cy: -20 });
+    expect(balancesOf(ledger.entries[1].runningBalances)).toEqual({ ana: 60, ben: -10, cy: -50 });
+    expect(ledger.balances.find(b => b.userId === 'ana')).toEqual({ userId: 'ana', paid: 90, owed: 30, sent: 0, received: 0, balance: 60 });
+  });
+
+  it('should include bill charges and settle the final balances', () => {
+    const bills = [bill('pizza', '2026-03-01T20:00:00Z', { charges: [{ type: 'tip', mode: 'percent', value: 20 }] })];
+    const items = [item('pizza', 30, 'cy', ['ana', 'ben', 'cy'])];
+
+    const ledger = buildGroupLedger(group, bills, items);
+
+    expect(ledger.entries[0].total).toBe(36);
+    expect(balancesOf(ledger.balances)).toEqual({ ana: -12, ben: -12, cy: 24 });
+    expect(ledger.transactions).toEqual([{ from: 'ana', to: 'cy', amount: 12 }, { from: 'ben', to: 'cy', amount: 12 }]);
+  });
+
+  it('should list every member even without activity', () => {
+    const ledger = buildGroupLedger(group, [], []);
+    expect(ledger.entries).toEqual([]);
+    expect(balancesOf(ledger.balances)).toEqual({ ana: 0, ben: 0, cy: 0 });
+    expect(ledger.transactions).toEqual([]);
+  });
+
+  it('should ignore sub-cent balances when settling up', () => {
+    expect(calculateOptimalTransactions([
+      { userId: 'ana', balance: 50 },
+      { userId: 'ben', balance: -30 },
+      { userId: 'cy', balance: -20.004 },
+      { userId: 'dee', balance: 0.004 }
+    ])).toEqual([{ from: 'ben', to: 'ana', amount: 30 }, { from: 'cy', to: 'ana', amount: 20 }]);
+  });
+});
+
+describe('Recorded payments', () => {
+  const dinner = bill('dinner', '2026-03-01T19:00:00Z');
+  const items = [item('dinner', 90, 'ana', ['ana', 'ben', 'cy'])];
+  const payment = (id, fromUserId, toUserId, amount, createdAt) => ({ id, billId: 'dinner', fromUserId, toUserId, amount, createdAt });
+
+  it('should reduce what is left to settle on a bill', () => {
+    const { settlements, transactions } = computeBillSettlements(dinner, items, [payment('p1', 'ben', 'ana', 30, '2026-03-02T09:00:00Z')]);
+    expect(settlements).toEqual([{ userId: 'ana', balance: 30 }, { userId: 'ben', balance: 0 }, { userId: 'cy', balance: -30 }]);
+    expect(transactions).toEqual([{ from: 'cy', to: 'ana', amount: 30 }]);
+  });
+
+  it('should handle partial and over-payments', () => {
+    const { settlements, transactions } = computeBillSettlements(dinner, items, [
+      payment('p1', 'ben', 'ana', 12.5, '2026-03-02T09:00:00Z'),
+      payment('p2', 'cy', 'ana', 40, '2026-03-02T10:00:00Z')
+    ]);
+    expect(settlements).toEqual([{ userId: 'ana', balance: 7.5 }, { userId: 'ben', balance: -17.5 }, { userId: 'cy', balance: 10 }]);
+    expect(transactions).toEqual([{ from: 'ben', to: 'cy', amount: 10 }, { from: 'ben', to: 'ana', amount: 7.5 }]);
+  });
+
+  it('should show payments on the ledger between the bills they settle', () => {
+    const lunch = bill('lunch', '2026-03-05T12:00:00Z');
+    const ledger = buildGroupLedger(group, [lunch, dinner], [...items, item('lunch', 20, 'ben', ['ana', 'ben'])], [
+      payment('p1', 'cy', 'ana', 30, '2026-03-03T09:00:00Z')
+    ]);
+
+    expect(ledger.paymentCount).toBe(1);
+    expect(ledger.entries.map(e => e.type)).toEqual(['bill', 'payment', 'bill']);
+    expect(ledger.entries[1]).toMatchObject({ paymentId: 'p1', title: 'Payment', total: 30, fromUserId: 'cy', toUserId: 'ana' });
+    expect(ledger.entries[1].changes).toEqual([
+      { userId: 'cy', paid: 0, owed: 0, sent: 30, received: 0, balance: 30 },
+      { userId: 'ana', paid: 0, owed: 0, sent: 0, received: 30, balance: -30 }
+    ]);
+    expect(balancesOf(ledger.entries[1].runningBalances)).toEqual({ ana: 30, ben: -30, cy: 0 });
+    expect(balancesOf(ledger.balances)).toEqual({ ana: 20, ben: -20, cy: 0 });
+    expect(ledger.transactions).toEqual([{ from: 'ben', to: 'ana', amount: 20 }]);
+  });
+});
+
+describe('Bill currencies', () => {
+  const groupCurrency = { baseCurrency: 'USD', rateMap: new Map([['EUR', 1.1], ['JPY', 0.0067]]) };
+
+  it('should snapshot the group rate when a bill is created', () => {
+    expect(snapshotExchangeRate(groupCurrency, 'EUR')).toEqual({ currency: 'EUR', baseCurrency: 'USD', exchangeRate: 1.1 });
+    expect(snapshotExchangeRate(groupCurrency, undefined)).toEqual({ currency: 'USD', baseCurrency: 'USD', exchangeRate: 1 });
+    expect(() => snapshotExchangeRate(groupCurrency, 'GBP')).toThrow('No exchange rate from GBP to USD is set for this group');
+  });
+
+  it('should keep the stored snapshot when the rate table changes', () => {
+    const changed = { baseCurrency: 'USD', rateMap: new Map([['EUR', 1.3]]) };
+    expect(billExchangeRate({ currency: 'EUR', exchange_rate: '1.1' }, changed)).toBe(1.1);
+    expect(billExchangeRate({ currency: 'EUR', exchange_rate: null }, changed)).toBe(1.3);
+    expect(billExchangeRate({ currency: 'USD', exchange_rate: null }, changed)).toBe(1);
+    expect(billExchangeRate({ currency: 'CHF', exchange_rate: null }, changed)).toBe(1);
+  });
+
+  it('should convert items and their splits to the base currency', () => {
+    const [converted] = convertItemsToBase([item('tapas', 30, 'ana', ['ana', 'ben'])], 1.1);
+    expect(converted.amount).toBeCloseTo(33);
+    expect(converted.splits.map(s => s.amount)).toEqual([15 * 1.1, 15 * 1.1]);
+    const same = [item('tapas', 30, 'ana', ['ana'])];
+    expect(convertItemsToBase(same, 1)).toBe(same);
+  });
+
+  it('should settle foreign bills in the base currency and keep the original total', () => {
+    const bills = [bill('hotel', '2026-03-01T10:00:00Z', { currency: 'EUR', exchangeRate: 1.1 }), bill('taxi', '2026-03-02T10:00:00Z')];
+    const items = [item('hotel', 200, 'ana', ['ana', 'ben']), item('taxi', 30, 'ben', ['ana', 'ben', 'cy'])];
+
+    const ledger = buildGroupLedger(group, bills, items);
+
+    expect(ledger.entries[0]).toMatchObject({ total: 220, original: { currency: 'EUR', exchangeRate: 1.1, total: 200 } });
+    expect(balancesOf(ledger.balances)).toEqual({ ana: 100, ben: -90, cy: -10 });
+    expect(computeBillSettlements(bills[0], items.slice(0, 1)).settlements).toEqual([{ userId: 'ana', balance: 110 }, { userId: 'ben', balance: -110 }]);
+  });
+});
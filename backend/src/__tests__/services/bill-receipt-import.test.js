@@ -0,0 +1,117 @@
+import { matchReceiptAssignees, parseReceiptAmount, parseReceiptCsv, parseReceiptText } from '../../services/bill-receipt-import.js';
+
+describe('Receipt import', () => {
+  it('should read dot-decimal, comma-decimal and thousands-separated amounts', () => {
+    expect(parseReceiptAmount('12.50')).toBe(12.5);
+    expect(parseReceiptAmount('12,50')).toBe(12.5);
+    expect(parseReceiptAmount('1,234.50')).toBe(1234.5);
+    expect(parseReceiptAmount('1.234,50')).toBe(1234.5);
+    expect(parseReceiptAmount('1.234.567,89')).toBe(1234567.89);
+    expect(parseReceiptAmount('1,234')).toBe(1234);
+    expect(parseReceiptAmount('€ 4,20')).toBe(4.2);
+    expect(parseReceiptAmount('$12')).toBe(12);
+    expect(parseReceiptAmount('-3.00')).toBe(-3);
+    expect(parseReceiptAmount('abc')).toBeNaN();
+    expect(parseReceiptAmount('')).toBeNaN();
+  });
+
+  it('should turn priced receipt lines into items and keep the receipt total', () => {
+    const { lines, skipped, receiptTotal } = parseReceiptText([
+      'CAFE LUNA',
+      'Margherita pizza   12,50',
+      '2 x Cola  $3.00',
+      '',
+      'Steak 1.234,50',
+      'Espresso 2.50 A',
+      'Subtotal 1252.50',
+      'TAX 100.20',
+      'TOTAL 1352.70'
+    ].join('\r\n'));
+
+    expect(lines).toEqual([
+      { lineNumber: 2, description: 'Margherita pizza', amount: 12.5, assignees: [] },
+      { lineNumber: 3, description: '2 x Cola', amount: 3, assignees: [] },
+      { lineNumber: 5, description: 'Steak', amount: 1234.5, assignees: [] },
+      { lineNumber: 6, description: 'Espresso', amount: 2.5, assignees: [] }
+    ]);
+    expect(skipped.map(s => [s.lineNumber, s.reason])).toEqual([
+      [1, 'No price found'],
+      [7, 'Subtotal, tax, tip or payment line'],
+      [8, 'Subtotal, tax, tip or payment line'],
+      [9, 'Subtotal, tax, tip or payment line']
+    ]);
+    expect(receiptTotal).toBe(1352.7);
+  });
+
+  it('should skip malformed, discount and payment lines with a reason', () => {
+    const { lines, skipped, receiptTotal } = parseReceiptText('just some words\n12.50\nDiscount -2.00\nRefund 4.00-\nFree water 0.00\nVisa ****1234 18.90');
+    expect(lines).toEqual([]);
+    expect(skipped).toEqual([
+      { lineNumber: 1, text: 'just some words', reason: 'No price found' },
+      { lineNumber: 2, text: '12.50', reason: 'No price found' },
+      { lineNumber: 3, text: 'Discount -2.00', reason: 'Discounts and zero amounts are not imported' },
+      { lineNumber: 4, text: 'Refund 4.00-', reason: 'Discounts and zero amounts are not imported' },
+      { lineNumber: 5, text: 'Free water 0.00', reason: 'Discounts and zero amounts are not imported' },
+      { lineNumber: 6, text: 'Visa ****1234 18.90', reason: 'Subtotal, tax, tip or payment line' }
+    ]);
+    expect(receiptTotal).toBeNull();
+  });
+
+  it('should read quoted CSV fields with commas, quotes and line breaks', () => {
+    const { lines, skipped } = parseReceiptCsv('Pasta,12.50,ana\n"Soup, tomato",4.25\n"Wine ""house""","1,234.00",ben\n"Two\nlines",3.00');
+    expect(lines).toEqual([
+      { lineNumber: 1, description: 'Pasta', amount: 12.5, assignees: ['ana'] },
+      { lineNumber: 2, description: 'Soup, tomato', amount: 4.25, assignees: [] },
+      { lineNumber: 3, description: 'Wine "house"', amount: 1234, assignees: ['ben'] },
+      { lineNumber: 4, description: 'Two\nlines', amount: 3, assignees: [] }
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('should pick columns from a header row and detect semicolon-separated files', () => {
+    const { lines, skipped, receiptTotal } = parseReceiptCsv([
+      'Who;Price;Item',
+      'Ana;12,50;Pasta',
+      'Ana & Ben | Cy;20,00;Wine',
+      'Cy;abc;Bread',
+      ';3,00;',
+      ';32,50;Total'
+    ].join('\n'));
+
+    expect(lines).toEqual([
+      { lineNumber: 2, description: 'Pasta', amount: 12.5, assignees: ['Ana'] },
+      { lineNumber: 3, description: 'Wine', amount: 20, assignees: ['Ana', 'Ben', 'Cy'] }
+    ]);
+    expect(skipped.map(s => [s.lineNumber, s.reason])).toEqual([
+      [4, 'Amount is not a number'],
+      [5, 'Missing description'],
+      [6, 'Subtotal, tax, tip or payment line']
+    ]);
+    expect(receiptTotal).toBe(32.5);
+  });
+
+  it('should keep the first row when it is not a header', () => {
+    expect(parseReceiptCsv('Nachos,8.00\nTacos,9.50').lines.map(l => l.description)).toEqual(['Nachos', 'Tacos']);
+  });
+
+  it('should match assignees by id, email, full name and unique first name', () => {
+    const members = [
+      { id: 'u1', name: 'Ana Diaz', email: 'ana.d@example.com' },
+      { id: 'u2', name: 'Ben Ito', email: 'ben@example.com' },
+      { id: 'u3', name: 'Cy Moss', email: null }
+    ];
+    expect(matchReceiptAssignees(['u1', 'BEN', 'cy moss', 'ana.d@example.com', 'Ana'], members))
+      .toEqual({ assigneeIds: ['u1', 'u2', 'u3'], unmatchedAssignees: [], ambiguousAssignees: [] });
+  });
+
+  it('should report ambiguous and unknown assignees instead of guessing', () => {
+    const members = [
+      { id: 'u1', name: 'Sam Lee', email: 'slee@example.com' },
+      { id: 'u2', name: 'Sam Park', email: 'spark@example.com' },
+      { id: 'u3', name: 'Ana Diaz', email: 'ana@example.com' }
+    ];
+    expect(matchReceiptAssignees(['Sam', 'sam park', 'Zed', 'ana'], members))
+      .toEqual({ assigneeIds: ['u2', 'u3'], unmatchedAssignees: ['Zed'], ambiguousAssignees: ['Sam'] });
+    expect(matchReceiptAssignees([], members)).toEqual({ assigneeIds: [], unmatchedAssignees: [], ambiguousAssignees: [] });
+  });
+});
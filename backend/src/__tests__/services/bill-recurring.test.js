@@ -0,0 +1,48 @@
+import { addFrequency, advanceSchedule, dueRunDates, MAX_CATCH_UP_RUNS, missedOccurrences } from '../../services/bill-recurring.js';
+
+const template = (overrides = {}) => ({ startOn: '2026-01-31', frequency: 'monthly', occurrence: 0, endOn: null, status: 'active', ...overrides });
+
+describe('Recurring bill schedule', () => {
+  it('should clamp monthly dates to the end of shorter months', () => {
+    expect(addFrequency('2026-01-31', 'monthly', 1)).toBe('2026-02-28');
+    expect(addFrequency('2028-01-31', 'monthly', 1)).toBe('2028-02-29');
+    expect(addFrequency('2026-01-31', 'monthly', 2)).toBe('2026-03-31');
+    expect(addFrequency('2026-01-31', 'monthly', 3)).toBe('2026-04-30');
+    expect(addFrequency('2026-11-30', 'quarterly', 1)).toBe('2027-02-28');
+    expect(addFrequency('2028-02-29', 'yearly', 1)).toBe('2029-02-28');
+    expect(addFrequency('2028-02-29', 'yearly', 4)).toBe('2032-02-29');
+  });
+
+  it('should add whole weeks across month and year ends', () => {
+    expect(addFrequency('2026-12-28', 'weekly', 1)).toBe('2027-01-04');
+    expect(addFrequency('2026-02-20', 'biweekly', 1)).toBe('2026-03-06');
+    expect(addFrequency('2026-02-20', 'weekly', 0)).toBe('2026-02-20');
+  });
+
+  it('should advance and end after the end date', () => {
+    expect(advanceSchedule(template())).toEqual({ occurrence: 1, nextRunOn: '2026-02-28', ended: false });
+    expect(advanceSchedule(template({ endOn: '2026-03-15' }), 2)).toEqual({ occurrence: 2, nextRunOn: '2026-03-31', ended: true });
+  });
+
+  it('should list due occurrences up to today', () => {
+    expect(dueRunDates(template({ occurrence: 1 }), '2026-04-30')).toEqual(['2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(dueRunDates(template(), '2026-01-30')).toEqual([]);
+    expect(dueRunDates(template({ endOn: '2026-03-01' }), '2026-06-01')).toEqual(['2026-01-31', '2026-02-28']);
+    expect(dueRunDates(template({ status: 'paused' }), '2026-06-01')).toEqual([]);
+  });
+
+  it('should cap a catch-up run at MAX_CATCH_UP_RUNS', () => {
+    const dates = dueRunDates(template({ startOn: '2024-01-15' }), '2026-06-01');
+    expect(MAX_CATCH_UP_RUNS).toBe(12);
+    expect(dates).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(dates[0]).toBe('2024-01-15');
+    expect(dates[MAX_CATCH_UP_RUNS - 1]).toBe('2024-12-15');
+    // The next run carries on from where the previous one stopped
+    expect(dueRunDates(template({ startOn: '2024-01-15', occurrence: 12 }), '2026-06-01', 2)).toEqual(['2025-01-15', '2025-02-15']);
+  });
+
+  it('should count the occurrences skipped when resuming', () => {
+    expect(missedOccurrences(template({ startOn: '2026-01-05', frequency: 'weekly' }), '2026-02-02')).toBe(4);
+    expect(missedOccurrences(template({ startOn: '2026-01-05', frequency: 'weekly' }), '2026-01-05')).toBe(0);
+  });
+});
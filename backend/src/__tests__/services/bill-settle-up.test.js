@@ -0,0 +1,72 @@
+import { buildSettleUpStatement, settleUpFilename, settleUpStatementToCsv, settleUpStatementToHtml } from '../../services/bill-settle-up.js';
+import { computeSplits } from '../../services/bill-splits.js';
+
+const everyone = [{ userId: 'ana' }, { userId: 'ben' }, { userId: 'cy' }];
+const buildStatement = (overrides = {}) => buildSettleUpStatement({
+  title: 'Friday pizza',
+  currency: 'USD',
+  bills: [{ id: 'b1', title: 'Friday <pizza>', createdAt: '2026-03-01T20:00:00Z', exchangeRate: 1, charges: [{ type: 'tip', mode: 'percent', value: 10 }] }],
+  items: [{ id: 'i1', billId: 'b1', description: 'Pizza, large', amount: 30, payerId: 'ana', splitMethod: 'equal', splits: computeSplits(30, { method: 'equal', participants: everyone }) }],
+  payments: [{ id: 'p1', billId: 'b1', fromUserId: 'ben', toUserId: 'ana', amount: 11, note: '=HYPERLINK("x")', createdAt: '2026-03-02T10:00:00Z' }],
+  members: [{ id: 'ana', name: 'Ana' }, { id: 'ben', name: 'Ben', email: 'ben@example.com' }, { id: 'cy', email: 'cy@example.com' }],
+  generatedAt: new Date('2026-03-03T08:00:00Z'),
+  ...overrides
+});
+
+describe('Settle-up statement', () => {
+  it('should list what each person paid, owes and sent with matching totals', () => {
+    const statement = buildStatement();
+    const [ana, ben, cy] = statement.people;
+
+    expect(statement).toMatchObject({ title: 'Friday pizza', currency: 'USD', generatedAt: '2026-03-03T08:00:00.000Z' });
+    expect(statement.people.map(p => p.name)).toEqual(['Ana', 'Ben', 'cy@example.com']);
+    expect(ana.lines.map(l => [l.kind, l.description, l.amount])).toEqual([
+      ['paid', 'Pizza, large', 30],
+      ['share', 'Pizza, large', 10],
+      ['paid', 'Tip', 3],
+      ['share', 'Tip', 1],
+      ['received', '=HYPERLINK("x")', 11]
+    ]);
+    expect(ana.lines[4]).toMatchObject({ counterpartyId: 'ben', counterpartyName: 'Ben' });
+    expect(ana.totals).toEqual({ paid: 33, owed: 11, sent: 0, received: 11, balance: 11 });
+    expect(ben.totals.balance).toBe(0);
+    expect(ben.settleUp).toEqual([]);
+    expect(cy.settleUp).toEqual([{ direction: 'pay', counterpartyId: 'ana', counterpartyName: 'Ana', amount: 11 }]);
+    expect(ana.settleUp).toEqual([{ direction: 'receive', counterpartyId: 'cy', counterpartyName: 'cy@example.com', amount: 11 }]);
+    expect(statement.transactions).toEqual([{ from: 'cy', to: 'ana', amount: 11 }]);
+  });
+
+  it('should include members without activity as settled', () => {
+    const statement = buildStatement({ bills: [], items: [], payments: [] });
+    expect(statement.people.every(p => p.lines.length === 0 && p.totals.balance === 0 && p.settleUp.length === 0)).toBe(true);
+  });
+
+  it('should export CSV with quoted fields and neutralised formulas', () => {
+    const csv = settleUpStatementToCsv(buildStatement());
+    const rows = csv.split('\n');
+
+    expect(rows[0]).toBe('Person,Type,Date,Bill,Description,Counterparty,Amount (USD)');
+    expect(rows[1]).toBe('Ana,Paid,2026-03-01,Friday <pizza>,"Pizza, large",,30.00');
+    expect(rows).toContain('Ana,Payment received,2026-03-02,Friday <pizza>,"\'=HYPERLINK(""x"")",Ben,11.00');
+    expect(rows).toContain('Ana,Net,,,Is owed,,11.00');
+    expect(rows).toContain('Ben,Net,,,Settled,,0.00');
+    expect(rows).toContain('cy@example.com,Net,,,Owes,,-11.00');
+    expect(rows[rows.length - 1]).toBe('cy@example.com,Pays,,,,Ana,11.00');
+  });
+
+  it('should export printable HTML with user text escaped', () => {
+    const html = settleUpStatementToHtml(buildStatement({ title: 'Pizza & <friends>' }));
+
+    expect(html).toContain('<title>Settle-up statement - Pizza &amp; &lt;friends&gt;</title>');
+    expect(html).toContain('<td>Friday &lt;pizza&gt;</td>');
+    expect(html).toContain('=HYPERLINK(&quot;x&quot;) (from Ben)');
+    expect(html).toContain('<li>Pay Ana: <strong>USD 11.00</strong></li>');
+    expect(html).toContain('<td>Net (owes)</td><td class="num">USD 11.00</td>');
+    expect(html).not.toContain('<pizza>');
+  });
+
+  it('should name the file after the title', () => {
+    expect(settleUpFilename({ title: 'Ski trip: Feb 2026!' }, 'csv')).toBe('ski-trip-feb-2026-settle-up.csv');
+    expect(settleUpFilename({ title: '***' }, 'html')).toBe('bill-settle-up.html');
+  });
+});
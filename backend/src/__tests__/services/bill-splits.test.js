@@ -0,0 +1,54 @@
+import { allocateCents, computeSplits, validateSplitDefinition } from '../../services/bill-splits.js';
+
+const participants = (...values) => values.map((value, i) => ({ userId: `u${i + 1}`, value }));
+const total = (splits) => splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+
+describe('Bill splits', () => {
+  it('should reject percentages that do not add up to 100', () => {
+    expect(validateSplitDefinition(50, { method: 'percentage', participants: participants(50, 40) })).toBe('Percentages add up to 90% instead of 100%');
+    expect(validateSplitDefinition(50, { method: 'percentage', participants: participants(60, 50) })).toBe('Percentages add up to 110% instead of 100%');
+    expect(validateSplitDefinition(50, { method: 'percentage', participants: participants(33.33, 33.33, 33.34) })).toBeNull();
+  });
+
+  it('should reject exact splits that do not match the item amount', () => {
+    expect(validateSplitDefinition(30, { method: 'exact', participants: participants(10, 19.99) }))
+      .toBe('Exact splits add up to 29.99 but the item amount is 30.00');
+    expect(validateSplitDefinition(30, { method: 'exact', participants: participants(10.1, 19.9) })).toBeNull();
+  });
+
+  it('should reject missing, negative and all-zero weights', () => {
+    expect(validateSplitDefinition(10, { method: 'shares', participants: [{ userId: 'u1', value: 1 }, { userId: 'u2' }] }))
+      .toBe('Every participant needs a value for a shares split');
+    expect(validateSplitDefinition(10, { method: 'shares', participants: participants(3, -1) })).toBe('Split values cannot be negative');
+    expect(validateSplitDefinition(10, { method: 'shares', participants: participants(0, 0) })).toBe('At least one participant needs a share greater than zero');
+    expect(validateSplitDefinition(10, { method: 'shares', participants: participants(0, 2) })).toBeNull();
+  });
+
+  it('should reject a participant listed twice', () => {
+    expect(validateSplitDefinition(10, { method: 'equal', participants: [{ userId: 'u1' }, { userId: 'u1' }] }))
+      .toBe('Each participant can only appear once in a split');
+  });
+
+  it('should give leftover cents to the same participants every time', () => {
+    const first = computeSplits(100, { method: 'equal', participants: participants(null, null, null) });
+    expect(first).toEqual([{ userId: 'u1', amount: 33.34 }, { userId: 'u2', amount: 33.33 }, { userId: 'u3', amount: 33.33 }]);
+    expect(computeSplits(100, { method: 'equal', participants: participants(null, null, null) })).toEqual(first);
+
+    // Largest remainder first: 1/6 of 0.05 leaves .83 of a cent, 5/6 leaves .17
+    expect(allocateCents(5, [1, 5])).toEqual([1, 4]);
+    expect(allocateCents(2, [1, 1, 1])).toEqual([1, 1, 0]);
+  });
+
+  it('should add up to the item amount for every split method', () => {
+    expect(total(computeSplits(10, { method: 'percentage', participants: participants(33.33, 33.33, 33.34) }))).toBe(1000);
+    expect(total(computeSplits(99.99, { method: 'shares', participants: participants(1, 2, 4) }))).toBe(9999);
+    expect(computeSplits(12.5, { method: 'exact', participants: participants(10, 2.5) })).toEqual([{ userId: 'u1', amount: 10 }, { userId: 'u2', amount: 2.5 }]);
+  });
+
+  it('should leave zero and negative weights out of the allocation', () => {
+    expect(computeSplits(10, { method: 'shares', participants: participants(0, 1, 1) }).map(s => s.amount)).toEqual([0, 5, 5]);
+    expect(allocateCents(101, [-2, 1, 1])).toEqual([0, 51, 50]);
+    expect(allocateCents(100, [0, 0])).toEqual([0, 0]);
+    expect(allocateCents(100, [-1, -1])).toEqual([0, 0]);
+  });
+});
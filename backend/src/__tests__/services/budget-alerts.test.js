@@ -0,0 +1,63 @@
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  alertLevel,
+  crossedThresholds,
+  isCountedExpense,
+  needsApproval,
+  normalizeThresholds,
+  thresholdNotifications,
+  thresholdsOf
+} from '../../services/budget-alerts.js';
+
+describe('Budget alerts', () => {
+  it('should normalize thresholds and fall back to the defaults', () => {
+    expect(normalizeThresholds([100, '75', 90, 75])).toEqual([75, 90, 100]);
+    expect(normalizeThresholds([50.5])).toBeNull();
+    expect(normalizeThresholds([0])).toBeNull();
+    expect(normalizeThresholds('75,90')).toBeNull();
+    expect(thresholdsOf({ alert_thresholds: [50] })).toEqual([50]);
+    expect(thresholdsOf({ alert_thresholds: null })).toEqual(DEFAULT_ALERT_THRESHOLDS);
+  });
+
+  it('should report each threshold only when spend crosses it', () => {
+    expect(crossedThresholds({ limit: 1000, before: 700, after: 950 })).toEqual([75, 90]);
+    expect(crossedThresholds({ limit: 1000, before: 750, after: 800 })).toEqual([]);
+    expect(crossedThresholds({ limit: 1000, before: 950, after: 1000 })).toEqual([100]);
+    expect(crossedThresholds({ limit: 0, before: 0, after: 100 })).toEqual([]);
+    expect(crossedThresholds({ limit: 100, before: 0, after: 60, thresholds: [50] })).toEqual([50]);
+  });
+
+  it('should give the highest threshold reached', () => {
+    expect(alertLevel({ limit: 1000, spent: 500 })).toBeNull();
+    expect(alertLevel({ limit: 1000, spent: 920 })).toBe(90);
+    expect(alertLevel({ limit: 1000, spent: 1500 })).toBe(100);
+  });
+
+  it('should hold only expenses that take a category over its limit when approval is on', () => {
+    expect(needsApproval({ approvalRequired: true, limit: 500, spent: 450, amount: 60 })).toBe(true);
+    expect(needsApproval({ approvalRequired: true, limit: 500, spent: 450, amount: 50 })).toBe(false);
+    expect(needsApproval({ approvalRequired: false, limit: 500, spent: 450, amount: 60 })).toBe(false);
+    expect(needsApproval({ approvalRequired: true, limit: 0, spent: 0, amount: 60 })).toBe(false);
+  });
+
+  it('should count approved and legacy expenses only', () => {
+    const expenses = [{ status: 'approved' }, { status: null }, {}, { status: 'pending' }, { status: 'rejected' }];
+
+    expect(expenses.filter(isCountedExpense)).toHaveLength(3);
+  });
+
+  it('should build one notification per owner and threshold', () => {
+    const rows = thresholdNotifications({
+      budget: { id: 'b1', name: 'Team Budget' },
+      category: { id: 'c1', name: 'Travel', limit: 800 },
+      crossed: [90, 100],
+      spent: 840,
+      recipients: ['owner', 'lead'],
+      expenseId: 'e1'
+    });
+
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual({ budget_id: 'b1', user_id: 'owner', category_id: 'c1', expense_id: 'e1', type: 'threshold', threshold: 90, message: 'Travel in Team Budget reached 90% of its limit' });
+    expect(rows[3].message).toBe('Travel in Team Budget is over its limit (105% used)');
+  });
+});
@@ -0,0 +1,69 @@
+import { csvField } from '../../lib/csv.js';
+import { budgetExportToCsv, buildBudgetExport } from '../../services/budget-export.js';
+
+describe('Budget export', () => {
+  const budget = { id: 'b1', name: 'Team Budget', period: 'month', year: 2026, month: 4, currency: 'EUR' };
+  const categories = [
+    { id: 'food', name: 'Food & Drinks', limit: 500 },
+    { id: 'travel', name: 'Travel', limit: 800 }
+  ];
+  const users = new Map([['u1', { id: 'u1', name: 'Alice', email: 'alice@example.com' }], ['u2', { id: 'u2', name: null, email: 'bob@example.com' }]]);
+  const expenses = [
+    { id: 'e1', category_id: 'food', amount: 120.5, description: 'Team lunch, "Friday"', date: '2026-04-03', created_by: 'u1', receipts: [{ id: 'r1', name: 'lunch.jpg' }] },
+    { id: 'e2', category_id: 'travel', amount: 900, description: 'Flights', date: '2026-04-10', created_by: 'u2', status: 'approved' },
+    { id: 'e3', category_id: 'travel', amount: 60, description: 'Taxi', date: '2026-04-12', created_by: 'u1', status: 'pending' },
+    { id: 'e4', category_id: 'food', amount: 40, description: 'Snacks', date: '2026-04-20', created_by: 'u3', status: 'rejected' },
+    { id: 'e5', category_id: null, amount: 15, description: '=HYPERLINK("http://evil")', date: '2026-04-21', created_by: 'u1' }
+  ];
+  const generatedAt = new Date('2026-05-01T09:00:00Z');
+
+  it('should resolve names and summarize each category', () => {
+    const data = buildBudgetExport({ budget, categories, expenses, users, generatedAt, receiptPath: (e, r) => `/receipts/${e.id}/${r.id}` });
+
+    expect(data.budget).toEqual({ id: 'b1', name: 'Team Budget', period: '2026-04', currency: 'EUR' });
+    expect(data.expenses.map(e => [e.category, e.createdBy])).toEqual([
+      ['Food & Drinks', 'Alice'], ['Travel', 'bob@example.com'], ['Travel', 'Alice'], ['Food & Drinks', 'u3'], ['Uncategorized', 'Alice']
+    ]);
+    expect(data.expenses[0].receipts).toEqual([{ name: 'lunch.jpg', url: '/receipts/e1/r1' }]);
+    expect(data.summary.categories).toEqual([
+      { name: 'Food & Drinks', limit: 500, spent: 120.5, remaining: 379.5, utilization: 24.1, pending: 0, expenses: 1 },
+      { name: 'Travel', limit: 800, spent: 900, remaining: -100, utilization: 112.5, pending: 60, expenses: 1 },
+      { name: 'Uncategorized', limit: 0, spent: 15, remaining: -15, utilization: null, pending: 0, expenses: 1 }
+    ]);
+    expect(data.summary.total).toMatchObject({ limit: 1300, spent: 1035.5, pending: 60, expenses: 3 });
+  });
+
+  it('should limit lines and the summary to the date range', () => {
+    const data = buildBudgetExport({ budget, categories, expenses, users, from: '2026-04-05', to: '2026-04-12', generatedAt });
+
+    expect(data.range).toEqual({ from: '2026-04-05', to: '2026-04-12' });
+    expect(data.expenses.map(e => e.id)).toEqual(['e2', 'e3']);
+    expect(data.summary.categories.map(c => c.name)).toEqual(['Food & Drinks', 'Travel']);
+    expect(data.summary.total.spent).toBe(900);
+  });
+
+  it('should escape CSV fields and neutralise formulas', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+    expect(csvField(' padded')).toBe('" padded"');
+    expect(csvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(csvField('@cmd')).toBe("'@cmd");
+    expect(csvField('-100.00')).toBe('-100.00');
+    expect(csvField(null)).toBe('');
+  });
+
+  it('should write summary and expense blocks as CRLF CSV with a byte order mark', () => {
+    const csv = budgetExportToCsv(buildBudgetExport({ budget, categories, expenses, users, generatedAt }));
+    const lines = csv.slice(1).split('\r\n');
+
+    expect(csv.startsWith('\uFEFFBudget,Team Budget\r\n')).toBe(true);
+    expect(lines).toContain('Category,Limit,Spent,Remaining,Utilization %,Pending approval,Expenses');
+    expect(lines).toContain('Travel,800.00,900.00,-100.00,112.5,60.00,1');
+    expect(lines).toContain('Total,1300.00,1035.50,264.50,79.7,60.00,3');
+    expect(lines).toContain('2026-04-03,Food & Drinks,"Team lunch, ""Friday""",120.50,approved,Alice,lunch.jpg');
+    expect(lines).toContain(`2026-04-21,Uncategorized,"'=HYPERLINK(""http://evil"")",15.00,approved,Alice,`);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { budgetPeriodRange, forecastBudget } from '../../services/budget-forecast.js';
+
+describe('Budget forecast', () => {
+  const budget = { period: 'month', year: 2026, month: 4 };
+  const categories = [
+    { id: 'food', name: 'Food', limit: 300 },
+    { id: 'travel', name: 'Travel', limit: 1000 }
+  ];
+
+  it('should compute period ranges', () => {
+    expect(budgetPeriodRange(budget)).toEqual({ start: '2026-04-01', end: '2026-05-01', totalDays: 30 });
+    expect(budgetPeriodRange({ period: 'quarter', year: 2026, quarter: 4 })).toEqual({ start: '2026-10-01', end: '2027-01-01', totalDays: 92 });
+    expect(budgetPeriodRange({ period: 'year', year: 2028 }).totalDays).toBe(366);
+  });
+
+  it('should project steady spending linearly and flag categories heading over their limit', () => {
+    // 15 a day in food for the first 10 days: 450 by the end of the month against a 300 limit
+    const expenses = Array.from({ length: 10 }, (_, i) => ({ category_id: 'food', amount: 15, date: `2026-04-${String(i + 1).padStart(2, '0')}` }));
+
+    const forecast = forecastBudget({ budget, categories, expenses, asOf: '2026-04-10' });
+
+    const food = forecast.categories.find(c => c.id === 'food');
+    expect(food).toMatchObject({ spent: 150, dailyRate: 15, projected: 450, projectedOverBy: 150, status: 'at_risk', exceedsOn: '2026-04-21' });
+    expect(forecast.categories.find(c => c.id === 'travel')).toMatchObject({ spent: 0, projected: 0, status: 'on_track', exceedsOn: null });
+    expect(forecast.atRiskCount).toBe(1);
+    expect(forecast.period).toMatchObject({ asOf: '2026-04-10', elapsedDays: 10, totalDays: 30 });
+  });
+
+  it('should weight recent spending more than early spending', () => {
+    const early = forecastBudget({ budget, categories, expenses: [{ category_id: 'food', amount: 100, date: '2026-04-01' }], asOf: '2026-04-10' });
+    const late = forecastBudget({ budget, categories, expenses: [{ category_id: 'food', amount: 100, date: '2026-04-10' }], asOf: '2026-04-10' });
+
+    expect(late.categories[0].projected).toBeGreaterThan(early.categories[0].projected);
+    // Linear rate 10/day; weighted 100*1/55 vs 100*10/55
+    expect(early.categories[0].dailyRate).toBeCloseTo((10 + 100 / 55) / 2, 2);
+    expect(late.categories[0].dailyRate).toBeCloseTo((10 + 1000 / 55) / 2, 2);
+  });
+
+  it('should report when a category already went over', () => {
+    const expenses = [
+      { category_id: 'food', amount: 200, date: '2026-04-02' },
+      { category_id: 'food', amount: 150, date: '2026-04-05' }
+    ];
+
+    const food = forecastBudget({ budget, categories, expenses, asOf: '2026-04-06' }).categories[0];
+
+    expect(food).toMatchObject({ status: 'over', exceedsOn: '2026-04-05' });
+  });
+
+  it('should ignore expenses outside the period and build a daily series', () => {
+    const expenses = [
+      { category_id: 'travel', amount: 500, date: '2026-03-31' },
+      { category_id: 'travel', amount: 100, date: '2026-04-02' },
+      { category_id: null, amount: 50, date: '2026-04-03' }
+    ];
+
+    const forecast = forecastBudget({ budget, categories, expenses, asOf: '2026-04-03' });
+
+    expect(forecast.categories.find(c => c.id === 'travel').spent).toBe(100);
+    expect(forecast.total.spent).toBe(150);
+    expect(forecast.total.limit).toBe(1300);
+    expect(forecast.series).toHaveLength(30);
+    expect(forecast.series[2]).toEqual({ date: '2026-04-03', actual: 150, projected: 150 });
+    expect(forecast.series[3].actual).toBeNull();
+    expect(forecast.series[29].projected).toBe(forecast.total.projected);
+  });
+
+  it('should not project before the period starts', () => {
+    const forecast = forecastBudget({ budget, categories, expenses: [], asOf: '2026-03-15' });
+
+    expect(forecast.period.elapsedDays).toBe(0);
+    expect(forecast.total).toMatchObject({ spent: 0, projected: 0, status: 'on_track' });
+  });
+});
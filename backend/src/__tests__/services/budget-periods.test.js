@@ -0,0 +1,54 @@
+import { cloneCategories, compareBudgets, nextPeriod, periodLabel, samePeriod, shiftPeriod } from '../../services/budget-periods.js';
+
+describe('Budget periods', () => {
+  it('should step to the next period across year boundaries', () => {
+    expect(nextPeriod({ period: 'month', year: 2026, month: 12 })).toEqual({ period: 'month', year: 2027, month: 1, quarter: 1 });
+    expect(nextPeriod({ period: 'quarter', year: 2026, quarter: 4 })).toEqual({ period: 'quarter', year: 2027, month: null, quarter: 1 });
+    expect(nextPeriod({ period: 'year', year: 2026 })).toEqual({ period: 'year', year: 2027, month: null, quarter: null });
+    expect(shiftPeriod({ period: 'month', year: 2026, month: 2 }, -12)).toMatchObject({ year: 2025, month: 2 });
+  });
+
+  it('should label and match periods', () => {
+    expect(periodLabel({ period: 'month', year: 2026, month: 4 })).toBe('2026-04');
+    expect(periodLabel({ period: 'quarter', year: 2026, quarter: 2 })).toBe('2026 Q2');
+    expect(samePeriod({ period: 'quarter', year: 2026, quarter: 2, month: 5 }, { period: 'quarter', year: 2026, quarter: 2 })).toBe(true);
+    expect(samePeriod({ period: 'month', year: 2026, month: 4 }, { period: 'quarter', year: 2026, quarter: 2 })).toBe(false);
+  });
+
+  it('should roll unspent amounts forward only for the chosen categories', () => {
+    const categories = [
+      { id: 'food', name: 'Food', limit: 500, alert_thresholds: [80] },
+      { id: 'travel', name: 'Travel', limit: 800 },
+      { id: 'gifts', name: 'Gifts', limit: 300 }
+    ];
+    const spent = new Map([['food', 320.5], ['travel', 100], ['gifts', 450]]);
+
+    expect(cloneCategories({ categories, spentByCategory: spent, rolloverIds: ['food', 'gifts'] })).toEqual([
+      { name: 'Food', limit: 679.5, rolledOver: 179.5, alertThresholds: [80] },
+      { name: 'Travel', limit: 800, rolledOver: 0, alertThresholds: null },
+      { name: 'Gifts', limit: 300, rolledOver: 0, alertThresholds: null }
+    ]);
+  });
+
+  it('should line up categories by name across periods with deltas', () => {
+    const march = { id: 'b3', name: 'March', period: 'month', year: 2026, month: 3 };
+    const april = { id: 'b4', name: 'April', period: 'month', year: 2026, month: 4 };
+    const spent = new Map([['m-food', 200], ['a-food', 250], ['a-gifts', 40], ['m-travel', 0]]);
+
+    const { periods, rows, totals } = compareBudgets([
+      { budget: april, categories: [{ id: 'a-food', name: 'food ', limit: 300 }, { id: 'a-gifts', name: 'Gifts', limit: 100 }], spentByCategory: spent },
+      { budget: march, categories: [{ id: 'm-food', name: 'Food', limit: 300 }, { id: 'm-travel', name: 'Travel', limit: 500 }], spentByCategory: spent }
+    ]);
+
+    expect(periods.map(p => p.label)).toEqual(['2026-03', '2026-04']);
+    expect(rows.map(r => r.name)).toEqual(['Food', 'Gifts', 'Travel']);
+    expect(rows[0].cells).toEqual([
+      { limit: 300, spent: 200, delta: null },
+      { limit: 300, spent: 250, delta: { spent: 50, spentPct: 25, limit: 0 } }
+    ]);
+    expect(rows[1].cells[0]).toBeNull();
+    expect(rows[1].cells[1].delta).toBeNull();
+    expect(rows[2].cells[1]).toBeNull();
+    expect(totals[1]).toEqual({ limit: 400, spent: 290, delta: { spent: 90, spentPct: 45, limit: -400 } });
+  });
+});
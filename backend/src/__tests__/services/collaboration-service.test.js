@@ -1,4 +1,7 @@
 import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock Socket.IO
 const mockSocket = {
@@ -7,6 +10,9 @@ const mockSocket = {
   join: jest.fn(),
   leave: jest.fn(),
   to: jest.fn(() => mockSocket),
+  // Set by the handshake auth middleware
+  data: { user: { id: 'user-456', name: 'Test User' } },
+  rooms: new Set(),
   broadcast: {
     to: jest.fn(() => mockSocket),
     emit: jest.fn()
@@ -14,9 +20,11 @@ const mockSocket = {
 };
 
 const mockIo = {
+  use: jest.fn(),
   on: jest.fn(),
   emit: jest.fn(),
   to: jest.fn(() => mockSocket),
+  in: jest.fn(() => ({ fetchSockets: jest.fn(async () => []) })),
   sockets: {
     sockets: new Map()
   }
@@ -45,6 +53,37 @@ jest.mock('../../services/supabase-client.js', () => ({
   }))
 }));
 
+// Blocks that need a real service get their own sessions file in a temp directory. Services made
+// with create() are flushed before the directory is removed so no debounced write outlives a test.
+const useTempSessions = (prefix) => {
+  const temp = { services: [] };
+
+  beforeEach(async () => {
+    const { CollaborationService } = await import('../../services/collaboration-service.js');
+    temp.dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    temp.sessionsFile = path.join(temp.dir, 'sessions.json');
+    temp.services = [];
+    temp.create = () => {
+      const service = new CollaborationService({ sessionsFile: temp.sessionsFile });
+      temp.services.push(service);
+      return service;
+    };
+  });
+
+  afterEach(async () => {
+    await Promise.all(temp.services.map(service => service.flush()));
+    fs.rmSync(temp.dir, { recursive: true, force: true });
+  });
+
+  return temp;
+};
+
+// Votes are only accepted for items on the itinerary
+const addItems = (service, sessionId, ids) => ids.forEach(id => {
+  const { version } = service.sessions.get(sessionId).itinerary;
+  service.applyItineraryOperation(sessionId, 'user-1', { baseVersion: version, op: { type: 'add', item: { id, title: id } } });
+});
+
 describe('Collaboration Service', () => {
   let collaborationService;
 
@@ -193,6 +232,213 @@ describe('Collaboration Service', () => {
     });
   });
 
+  describe('socket authentication', () => {
+    const temp = useTempSessions('collab-auth-');
+    let service;
+
+    beforeEach(async () => {
+      service = temp.create();
+      service.initialize({});
+    });
+
+    const runMiddleware = (handshake) => {
+      const authMiddleware = mockIo.use.mock.calls[0][0];
+      const socket = { handshake: { headers: {}, ...handshake }, data: {} };
+      const next = jest.fn();
+      authMiddleware(socket, next);
+      return { socket, next };
+    };
+
+    it('should reject a handshake without a token', () => {
+      const { next } = runMiddleware({ auth: {} });
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Unauthorized', data: { code: 'unauthorized' } }));
+    });
+
+    it('should reject an invalid token', () => {
+      const { next } = runMiddleware({ auth: { token: 'not-a-jwt' } });
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ data: { code: 'unauthorized' } }));
+    });
+
+    it('should bind the token identity to the socket', async () => {
+      const { signAccessToken } = await import('../../lib/tokens.js');
+      const token = signAccessToken({ sub: 'user-42', name: 'Zoe', email: 'zoe@example.com', role: 'user' });
+
+      const { socket, next } = runMiddleware({ auth: { token } });
+
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data.user).toMatchObject({ id: 'user-42', name: 'Zoe' });
+    });
+
+    it('should record votes for the authenticated user, not the client-supplied userId', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      service.setRole(session.id, 'user-456', 'voter');
+      addItems(service, session.id, ['act-1']);
+      const socket = {
+        ...mockSocket,
+        id: 'socket-1',
+        on: jest.fn(),
+        data: { user: { id: 'user-456', name: 'Test User' } },
+        rooms: new Set(),
+        join: jest.fn(room => socket.rooms.add(room))
+      };
+      const connectionHandler = mockIo.on.mock.calls.find(call => call[0] === 'connection')[1];
+      connectionHandler(socket);
+      const handler = (event) => socket.on.mock.calls.find(call => call[0] === event)[1];
+
+      handler('join-session')({ sessionId: session.id, userId: 'someone-else' });
+      handler('vote')({ sessionId: session.id, itemId: 'act-1', userId: 'someone-else', vote: 'up' });
+
+      expect(service.getVotes(session.id, 'act-1').voters).toEqual(['user-456']);
+    });
+
+    it('should reject events for sessions the socket has not joined', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      const socket = { ...mockSocket, on: jest.fn(), emit: jest.fn(), rooms: new Set() };
+      const connectionHandler = mockIo.on.mock.calls.find(call => call[0] === 'connection')[1];
+      connectionHandler(socket);
+
+      const voteHandler = socket.on.mock.calls.find(call => call[0] === 'vote')[1];
+      voteHandler({ sessionId: session.id, itemId: 'act-1', vote: 'up' });
+
+      expect(socket.emit).toHaveBeenCalledWith('session-error', { sessionId: session.id, error: 'Join the session first' });
+      expect(service.getVotes(session.id, 'act-1').voterCount).toBe(0);
+    });
+  });
+
+  describe('vote persistence', () => {
+    const temp = useTempSessions('collab-votes-');
+
+    it('should restore votes with their timestamps after a restart', async () => {
+      const before = temp.create();
+      const session = before.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      before.addUserToSession(session.id, 'user-2', 'Bob', null);
+      addItems(before, session.id, ['act-1', 'act-2']);
+      before.handleVote(session.id, 'act-1', 'user-1', 'up');
+      before.handleVote(session.id, 'act-1', 'user-2', 'down');
+      before.handleVote(session.id, 'act-2', 'user-2', 'up');
+      const castAt = before.votes.get(session.id).get('act-1').get('user-1').timestamp;
+      await before.flush();
+
+      const after = temp.create();
+
+      expect(after.getVotes(session.id, 'act-1')).toEqual(before.getVotes(session.id, 'act-1'));
+      expect(after.getVotes(session.id, 'act-2')).toEqual(before.getVotes(session.id, 'act-2'));
+      expect(after.votes.get(session.id).get('act-1').get('user-1')).toEqual({ value: 'up', timestamp: castAt });
+      expect(after.getVoteResults(session.id)).toEqual(before.getVoteResults(session.id));
+    });
+
+    it('should persist withdrawn votes', async () => {
+      const before = temp.create();
+      const session = before.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      addItems(before, session.id, ['act-1']);
+      before.handleVote(session.id, 'act-1', 'user-1', 'up');
+      before.handleVote(session.id, 'act-1', 'user-1', null);
+      await before.flush();
+
+      const after = temp.create();
+
+      expect(after.getVotes(session.id, 'act-1')).toMatchObject({ upvotes: 0, downvotes: 0, total: 0 });
+    });
+
+    it('should restore ranked ballots and the voting mode', async () => {
+      const before = temp.create();
+      const session = before.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      before.updateSettings(session.id, { votingMode: 'ranked' });
+      addItems(before, session.id, ['act-1', 'act-2']);
+      before.handleVote(session.id, null, 'user-1', ['act-2', 'act-1']);
+      await before.flush();
+
+      const after = temp.create();
+
+      expect(after.getSettings(session.id).votingMode).toBe('ranked');
+      expect(after.getUserVotes(session.id, 'user-1').ranking).toEqual(['act-2', 'act-1']);
+      expect(after.getVoteResults(session.id).winner).toBe('act-2');
+    });
+
+    it('should migrate version 1 session files that have no votes', async () => {
+      fs.writeFileSync(temp.sessionsFile, JSON.stringify([
+        {
+          id: 'legacy-session',
+          name: 'Legacy',
+          creatorId: 'user-1',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          status: 'active',
+          itinerary: { items: [{ id: 'act-1', title: 'Hike' }], startDate: null, endDate: null },
+          comments: {},
+          settings: { votingEnabled: true, anonymousVoting: false, requireConsensus: false, autoSchedule: true },
+          participants: [{ id: 'user-1', name: 'Alice' }]
+        }
+      ]));
+
+      const service = temp.create();
+      expect(service.getSessionVotes('legacy-session')).toEqual({});
+      expect(service.getSettings('legacy-session').votingMode).toBe('updown');
+
+      service.handleVote('legacy-session', 'act-1', 'user-1', 'up');
+      await service.flush();
+      const saved = JSON.parse(fs.readFileSync(temp.sessionsFile, 'utf-8'));
+      expect(saved.version).toBe(2);
+      expect(saved.sessions[0].votes['act-1']['user-1']).toMatchObject({ value: 'up' });
+    });
+
+    it('should accept votes stored without timestamps', async () => {
+      fs.writeFileSync(temp.sessionsFile, JSON.stringify({
+        version: 2,
+        sessions: [{ id: 'session-1', name: 'Offsite', participants: [], votes: { 'act-1': { 'user-1': 'up', 'user-2': 'down' } } }]
+      }));
+
+      const service = temp.create();
+
+      expect(service.getVotes('session-1', 'act-1')).toMatchObject({ upvotes: 1, downvotes: 1, total: 0 });
+      expect(service.votes.get('session-1').get('act-1').get('user-1')).toEqual({ value: 'up', timestamp: null });
+    });
+
+    it('should not expose stored voter ids in session listings', () => {
+      const service = temp.create();
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      addItems(service, session.id, ['act-1']);
+      service.handleVote(session.id, 'act-1', 'user-1', 'up');
+
+      const [listed] = service.listAllSessions();
+      expect(listed.id).toBe(session.id);
+      expect(listed.votes).toBeUndefined();
+    });
+  });
+
+  describe('vote validation', () => {
+    const temp = useTempSessions('collab-validation-');
+    let service;
+    let session;
+
+    beforeEach(() => {
+      service = temp.create();
+      session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      addItems(service, session.id, ['a', 'b']);
+    });
+
+    it('should reject votes for items that are not on the itinerary', () => {
+      expect(service.handleVote(session.id, 'ghost', 'user-1', 'up')).toEqual({ error: 'Item is not on the itinerary' });
+      expect(service.getSessionVotes(session.id)).toEqual({});
+    });
+
+    it('should reject rankings that list items not on the itinerary', () => {
+      service.updateSettings(session.id, { votingMode: 'ranked' });
+
+      expect(service.handleVote(session.id, null, 'user-1', ['a', 'ghost'])).toEqual({ error: 'Only items on the itinerary can be ranked' });
+      expect(service.getUserVotes(session.id, 'user-1').ranking).toEqual([]);
+    });
+
+    it('should still let a vote on a removed item be withdrawn', () => {
+      service.handleVote(session.id, 'b', 'user-1', 'up');
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 2, op: { type: 'remove', itemId: 'b' } });
+
+      expect(service.handleVote(session.id, 'b', 'user-1', null)).toEqual({ ok: true });
+      expect(service.getVotes(session.id, 'b').voterCount).toBe(0);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle database errors gracefully', async () => {
       const { getSupabase } = await import('../../services/supabase-client.js');
@@ -223,4 +469,501 @@ describe('Collaboration Service', () => {
       expect(mockSocket.join).not.toHaveBeenCalled();
     });
   });
+
+  describe('presence', () => {
+    const temp = useTempSessions('collab-presence-');
+    let service;
+
+    beforeEach(async () => {
+      service = temp.create();
+    });
+
+    it('should keep a disconnected participant as away during the grace window', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      service.addUserToSession(session.id, 'user-2', 'Bob', 'socket-2');
+
+      service.cleanupDisconnectedUser('socket-2');
+
+      const bob = service.getSession(session.id).participants.find(p => p.id === 'user-2');
+      expect(bob).toMatchObject({ presence: 'away', socketId: null });
+      expect(bob.disconnectedAt).toBeTruthy();
+    });
+
+    it('should mark a participant offline once the grace window passes', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      service.addUserToSession(session.id, 'user-2', 'Bob', 'socket-2');
+      service.cleanupDisconnectedUser('socket-2');
+      const bob = service.sessions.get(session.id).participants.get('user-2');
+
+      service.refreshPresence(session.id, bob, Date.now() + 10 * 60 * 1000);
+
+      expect(bob.presence).toBe('offline');
+    });
+
+    it('should treat a reconnect within the grace window as the same participant', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      expect(service.addUserToSession(session.id, 'user-2', 'Bob', 'socket-2')).toBe(true);
+      const { joinedAt } = service.sessions.get(session.id).participants.get('user-2');
+      service.cleanupDisconnectedUser('socket-2');
+
+      expect(service.addUserToSession(session.id, 'user-2', 'Bob', 'socket-3')).toBe(false);
+      expect(service.sessions.get(session.id).participants.get('user-2')).toMatchObject({ presence: 'active', socketId: 'socket-3', joinedAt });
+    });
+
+    it('should go idle when heartbeats report no recent input', () => {
+      const session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      service.addUserToSession(session.id, 'user-2', 'Bob', 'socket-2');
+
+      service.recordHeartbeat(session.id, 'user-2', new Date(Date.now() - 10 * 60 * 1000).toISOString());
+      expect(service.sessions.get(session.id).participants.get('user-2').presence).toBe('idle');
+
+      service.recordHeartbeat(session.id, 'user-2', new Date().toISOString());
+      expect(service.sessions.get(session.id).participants.get('user-2').presence).toBe('active');
+    });
+  });
+
+  describe('itinerary operations', () => {
+    const temp = useTempSessions('collab-itinerary-');
+    let service;
+    let session;
+
+    const item = (id) => ({ id, title: `Activity ${id}` });
+    const ids = () => service.sessions.get(session.id).itinerary.items.map(i => i.id);
+
+    beforeEach(async () => {
+      service = temp.create();
+      session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      ['a', 'b', 'c'].forEach((id, i) => service.applyItineraryOperation(session.id, 'user-1', { baseVersion: i, op: { type: 'add', item: item(id) } }));
+    });
+
+    it('should apply operations and bump the version', () => {
+      const result = service.applyItineraryOperation(session.id, 'user-1', { opId: 'op-1', baseVersion: 3, op: { type: 'move', itemId: 'c', toIndex: 0 } });
+
+      expect(result.entry).toMatchObject({ version: 4, opId: 'op-1', op: { type: 'move', from: 2, to: 0 } });
+      expect(ids()).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should keep concurrent edits to different items', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'update', itemId: 'a', field: 'title', value: 'Lunch' } }, 'client-1');
+      const result = service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 3, op: { type: 'update', itemId: 'b', field: 'title', value: 'Bowling' } }, 'client-2');
+
+      expect(result.entry.version).toBe(5);
+      expect(service.sessions.get(session.id).itinerary.items.map(i => i.title)).toEqual(['Lunch', 'Bowling', 'Activity c']);
+    });
+
+    it('should reject a stale edit of the same field', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'update', itemId: 'a', field: 'title', value: 'Lunch' } }, 'client-1');
+      const result = service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 3, op: { type: 'update', itemId: 'a', field: 'title', value: 'Brunch' } }, 'client-2');
+
+      expect(result.error).toMatch(/title/);
+      expect(service.sessions.get(session.id).itinerary.items[0].title).toBe('Lunch');
+    });
+
+    it('should transform a stale insert position over concurrent changes', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'remove', itemId: 'a' } }, 'client-1');
+      // Meant "between b and c" when a was still first
+      service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 3, op: { type: 'add', item: item('d'), index: 2 } }, 'client-2');
+
+      expect(ids()).toEqual(['b', 'd', 'c']);
+    });
+
+    it('should not transform over the same client\'s earlier operations', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'remove', itemId: 'a' } }, 'client-1');
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'add', item: item('d'), index: 1 } }, 'client-1');
+
+      expect(ids()).toEqual(['b', 'd', 'c']);
+    });
+
+    it('should treat removing an already removed item as a no-op', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'remove', itemId: 'b' } }, 'client-1');
+      const result = service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 3, op: { type: 'remove', itemId: 'b' } }, 'client-2');
+
+      expect(result).toEqual({ noop: true, version: 4 });
+    });
+
+    it('should reject edits to an item someone removed', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: { type: 'remove', itemId: 'b' } }, 'client-1');
+      const result = service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 3, op: { type: 'move', itemId: 'b', toIndex: 0 } }, 'client-2');
+
+      expect(result.error).toBe('Item was removed');
+    });
+  });
+
+  describe('itinerary history', () => {
+    const temp = useTempSessions('collab-history-');
+    let service;
+    let session;
+
+    const ids = (svc = service) => svc.sessions.get(session.id).itinerary.items.map(i => i.id);
+
+    beforeEach(async () => {
+      service = temp.create();
+      session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      ['a', 'b'].forEach((id, i) => service.applyItineraryOperation(session.id, 'user-1', { baseVersion: i, op: { type: 'add', item: { id, title: id } } }));
+    });
+
+    it('should list revisions newest first with their authors', () => {
+      const history = service.getItineraryHistory(session.id);
+
+      expect(history.version).toBe(2);
+      expect(history.revisions.map(r => r.version)).toEqual([2, 1]);
+      expect(history.revisions[0]).toMatchObject({ userId: 'user-1', userName: 'Alice', op: { type: 'add' } });
+      expect(history.revisions[1].items.map(i => i.id)).toEqual(['a']);
+    });
+
+    it('should restore an earlier revision as a new version', () => {
+      const result = service.restoreItineraryVersion(session.id, 'user-1', 1);
+
+      expect(result.itinerary.version).toBe(3);
+      expect(ids()).toEqual(['a']);
+      expect(service.getItineraryHistory(session.id).revisions[0].op).toEqual({ type: 'restore', toVersion: 1 });
+    });
+
+    it('should reject in-flight operations made before a restore', () => {
+      service.restoreItineraryVersion(session.id, 'user-1', 1);
+      const result = service.applyItineraryOperation(session.id, 'user-2', { baseVersion: 2, op: { type: 'add', item: { id: 'c' } } }, 'client-2');
+
+      expect(result.error).toMatch(/restored/);
+    });
+
+    it('should return an inverse operation that undoes the change', () => {
+      const { entry } = service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 2, op: { type: 'remove', itemId: 'a' } }, 'client-1');
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 3, op: entry.inverse }, 'client-1');
+
+      expect(ids()).toEqual(['a', 'b']);
+    });
+
+    it('should apply a schedule as a single revision in start order', () => {
+      const result = service.applyItinerarySchedule(session.id, 'user-1', {
+        slots: [
+          { itemId: 'b', start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:30:00.000Z' },
+          { itemId: 'a', start: '2026-03-02T11:00:00.000Z', end: '2026-03-02T12:00:00.000Z' }
+        ]
+      });
+
+      expect(result.itinerary.items.map(i => [i.id, i.scheduledTime, i.duration])).toEqual([
+        ['b', '2026-03-02T09:00:00.000Z', 90],
+        ['a', '2026-03-02T11:00:00.000Z', 60]
+      ]);
+      expect(result.itinerary).toMatchObject({ version: 3, startDate: '2026-03-02T09:00:00.000Z', endDate: '2026-03-02T12:00:00.000Z' });
+      expect(service.getItineraryHistory(session.id).revisions[0].op).toEqual({ type: 'schedule', scheduledCount: 2 });
+    });
+
+    it('should keep history across restarts', async () => {
+      await service.flush();
+      const restarted = temp.create();
+
+      expect(restarted.getItineraryHistory(session.id).revisions).toHaveLength(2);
+      expect(restarted.restoreItineraryVersion(session.id, 'user-1', 1).itinerary.items.map(i => i.id)).toEqual(['a']);
+    });
+  });
+
+  describe('roles and invites', () => {
+    const temp = useTempSessions('collab-roles-');
+    let service;
+    let session;
+
+    const connect = (userId) => {
+      const socket = {
+        ...mockSocket,
+        id: `socket-${userId}`,
+        on: jest.fn(),
+        emit: jest.fn(),
+        data: { user: { id: userId, name: userId } },
+        rooms: new Set(),
+        join: jest.fn(room => socket.rooms.add(room)),
+        leave: jest.fn(room => socket.rooms.delete(room))
+      };
+      const connectionHandler = mockIo.on.mock.calls[mockIo.on.mock.calls.length - 1][1];
+      connectionHandler(socket);
+      const handler = (event) => socket.on.mock.calls.find(call => call[0] === event)[1];
+      return { socket, handler };
+    };
+
+    beforeEach(async () => {
+      service = temp.create();
+      service.initialize({});
+      session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+    });
+
+    it('should make the creator the owner', () => {
+      expect(service.getRole(session.id, 'user-1')).toBe('owner');
+      expect(service.hasPermission(session.id, 'user-1', 'manage')).toBe(true);
+    });
+
+    it('should not let uninvited users join', () => {
+      const { socket, handler } = connect('stranger');
+
+      handler('join-session')({ sessionId: session.id });
+
+      expect(socket.join).not.toHaveBeenCalled();
+      expect(socket.emit).toHaveBeenCalledWith('session-error', { sessionId: session.id, error: 'You need an invite to join this session' });
+    });
+
+    it('should keep viewers from voting or editing', () => {
+      service.setRole(session.id, 'viewer-1', 'viewer');
+      const { socket, handler } = connect('viewer-1');
+      handler('join-session')({ sessionId: session.id });
+
+      handler('vote')({ sessionId: session.id, itemId: 'act-1', vote: 'up' });
+      handler('itinerary-op')({ sessionId: session.id, baseVersion: 0, op: { type: 'add', item: { id: 'a' } } });
+
+      expect(socket.emit).toHaveBeenCalledWith('session-error', { sessionId: session.id, error: 'Your role in this session does not allow this' });
+      expect(service.getVotes(session.id, 'act-1').voterCount).toBe(0);
+      expect(service.sessions.get(session.id).itinerary.items).toHaveLength(0);
+    });
+
+    it('should take a removed member out of the session room', async () => {
+      service.setRole(session.id, 'editor-1', 'editor');
+      const owner = connect('user-1');
+      const editor = connect('editor-1');
+      owner.handler('join-session')({ sessionId: session.id });
+      editor.handler('join-session')({ sessionId: session.id });
+      mockIo.in.mockReturnValueOnce({ fetchSockets: async () => [owner.socket, editor.socket] });
+
+      service.setRole(session.id, 'editor-1', null);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockIo.in).toHaveBeenCalledWith(session.id);
+      expect(editor.socket.rooms.has(session.id)).toBe(false);
+      expect(editor.socket.emit).toHaveBeenCalledWith('session-access-changed', { sessionId: session.id, role: null });
+      expect(owner.socket.rooms.has(session.id)).toBe(true);
+      expect(service.sessions.get(session.id).participants.has('editor-1')).toBe(false);
+
+      editor.handler('vote')({ sessionId: session.id, itemId: 'act-1', vote: 'up' });
+      expect(editor.socket.emit).toHaveBeenCalledWith('session-error', { sessionId: session.id, error: 'Join the session first' });
+    });
+
+    it('should make a downgraded member join again, but leave promoted members alone', async () => {
+      service.setRole(session.id, 'editor-1', 'editor');
+      const { socket, handler } = connect('editor-1');
+      handler('join-session')({ sessionId: session.id });
+      mockIo.in.mockReturnValueOnce({ fetchSockets: async () => [socket] });
+
+      service.setRole(session.id, 'editor-1', 'viewer');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(socket.rooms.has(session.id)).toBe(false);
+      expect(socket.emit).toHaveBeenCalledWith('session-access-changed', { sessionId: session.id, role: 'viewer' });
+
+      mockIo.in.mockClear();
+      service.setRole(session.id, 'editor-1', 'owner');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockIo.in).not.toHaveBeenCalled();
+    });
+
+    it('should reach consensus without waiting for viewers', () => {
+      service.setRole(session.id, 'editor-1', 'editor');
+      service.setRole(session.id, 'viewer-1', 'viewer');
+      ['editor-1', 'viewer-1'].forEach(id => service.addUserToSession(session.id, id, id, null));
+      service.updateSettings(session.id, { requireConsensus: true });
+      addItems(service, session.id, ['a']);
+
+      service.handleVote(session.id, 'a', 'user-1', 'up');
+      service.handleVote(session.id, 'a', 'editor-1', 'up');
+
+      expect(service.getVoteResults(session.id)).toMatchObject({
+        winner: 'a',
+        consensus: { required: true, reached: true },
+        participantCount: 2
+      });
+    });
+
+    it('should grant the invite role until the invite is used up', () => {
+      const { invite } = service.createInvite(session.id, 'user-1', { role: 'voter', maxUses: 1 });
+
+      expect(service.acceptInvite(invite.token, 'user-2')).toEqual({ sessionId: session.id, role: 'voter' });
+      expect(service.acceptInvite(invite.token, 'user-3').error).toBe('This invite link has been used up');
+      expect(service.getRole(session.id, 'user-3')).toBeNull();
+    });
+
+    it('should reject expired invites', () => {
+      const { invite } = service.createInvite(session.id, 'user-1', { role: 'viewer', expiresInHours: 1 });
+      service.invites.get(invite.token).expiresAt = new Date(Date.now() - 1000).toISOString();
+
+      expect(service.acceptInvite(invite.token, 'user-2').error).toBe('This invite link has expired');
+    });
+
+    it('should not downgrade members who accept a weaker invite', () => {
+      const { invite } = service.createInvite(session.id, 'user-1', { role: 'viewer' });
+
+      expect(service.acceptInvite(invite.token, 'user-1').role).toBe('owner');
+      expect(service.invites.get(invite.token).uses).toBe(0);
+    });
+
+    it('should refuse to leave a session without an owner', () => {
+      expect(service.setRole(session.id, 'user-1', 'editor').error).toBe('A session needs at least one owner');
+    });
+
+    it('should give participants of older sessions editor access', async () => {
+      fs.writeFileSync(temp.sessionsFile, JSON.stringify([{
+        id: 'legacy', name: 'Old', creatorId: 'user-1', createdAt: new Date().toISOString(),
+        participants: [{ id: 'user-1', name: 'Alice' }, { id: 'user-2', name: 'Bob' }]
+      }]));
+
+      const restarted = temp.create();
+
+      expect(restarted.getRole('legacy', 'user-1')).toBe('owner');
+      expect(restarted.getRole('legacy', 'user-2')).toBe('editor');
+    });
+  });
+
+  describe('itinerary ICS export', () => {
+    const temp = useTempSessions('collab-ics-');
+    let service;
+    let session;
+
+    beforeEach(async () => {
+      service = temp.create();
+      session = service.createSession('user-1', 'Offsite, Spring', 'team-1', 'Alice');
+      const items = [
+        {
+          id: 'a',
+          title: 'Lunch; then coffee',
+          description: 'Bring a jacket,\nit gets windy',
+          location: '123 Downtown St',
+          type: 'restaurant',
+          duration: 90,
+          scheduledTime: '2026-03-02T12:00:00.000Z'
+        },
+        { id: 'b', title: 'Unscheduled idea' }
+      ];
+      items.forEach((item, i) => service.applyItineraryOperation(session.id, 'user-1', { baseVersion: i, op: { type: 'add', item } }));
+    });
+
+    it('should export only scheduled items with escaped text and UTC times', () => {
+      const { count, ics } = service.exportItineraryICS(session.id);
+
+      expect(count).toBe(1);
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+      expect(ics).toContain(`UID:${session.id}-a@vibecorner`);
+      expect(ics).toContain('DTSTART:20260302T120000Z');
+      expect(ics).toContain('DTEND:20260302T133000Z');
+      expect(ics).toContain('SUMMARY:Lunch\\; then coffee');
+      expect(ics).toContain('X-WR-CALNAME:Offsite\\, Spring');
+      expect(ics.replace(/\r\n /g, '')).toContain('DESCRIPTION:Bring a jacket\\,\\nit gets windy\\n\\nParticipants: Alice');
+      expect(ics).toContain('SEQUENCE:2');
+    });
+
+    it('should fold long lines and list attendees with an email', () => {
+      service.addUserToSession(session.id, 'user-2', 'Bob "The Builder"', null, 'bob@example.com');
+
+      const { ics } = service.exportItineraryICS(session.id);
+
+      expect(ics).toContain('ATTENDEE;CN="Bob \'The Builder\'";ROLE=REQ-PARTICIPANT:mailto:bob@example.com');
+      expect(ics).not.toContain('CN="Alice"');
+      ics.split('\r\n').forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    });
+
+    it('should return an empty calendar when nothing is scheduled', () => {
+      service.applyItineraryOperation(session.id, 'user-1', { baseVersion: 2, op: { type: 'remove', itemId: 'a' } });
+
+      const { count, ics } = service.exportItineraryICS(session.id);
+
+      expect(count).toBe(0);
+      expect(ics).not.toContain('BEGIN:VEVENT');
+      expect(service.exportItineraryICS('missing')).toBeNull();
+    });
+  });
+
+  describe('voting deadline', () => {
+    const temp = useTempSessions('collab-deadline-');
+    let service;
+    let session;
+
+    const inFuture = (ms) => new Date(Date.now() + ms).toISOString();
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      service = temp.create();
+      session = service.createSession('user-1', 'Offsite', 'team-1', 'Alice');
+      service.setRole(session.id, 'user-2', 'voter');
+      service.addUserToSession(session.id, 'user-2', 'Bob', null);
+      ['a', 'b'].forEach((id, i) => service.applyItineraryOperation(session.id, 'user-1', { baseVersion: i, op: { type: 'add', item: { id, title: id } } }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should lock voting and write the winner into the itinerary when the deadline passes', () => {
+      service.updateSettings(session.id, { votingDeadline: inFuture(60 * 1000) });
+      service.handleVote(session.id, 'b', 'user-1', 'up');
+      service.handleVote(session.id, 'b', 'user-2', 'up');
+
+      jest.advanceTimersByTime(60 * 1000);
+
+      const stored = service.sessions.get(session.id);
+      expect(stored.decision).toMatchObject({ winners: ['b'], closedBy: null, voterCount: 2 });
+      expect(stored.settings.votingEnabled).toBe(false);
+      expect(stored.itinerary.items.map(i => [i.id, i.decided])).toEqual([['b', true], ['a', undefined]]);
+      expect(stored.itinerary.decision.winners).toEqual(['b']);
+      expect(service.getItineraryHistory(session.id).revisions[0].op).toEqual({ type: 'decision', winners: ['b'] });
+      expect(service.handleVote(session.id, 'a', 'user-1', 'up').error).toBe('Voting has closed for this session');
+    });
+
+    it('should decide nothing without consensus when consensus is required', () => {
+      service.updateSettings(session.id, { requireConsensus: true, votingDeadline: inFuture(1000) });
+      service.handleVote(session.id, 'a', 'user-1', 'up');
+      service.handleVote(session.id, 'a', 'user-2', 'down');
+
+      jest.advanceTimersByTime(1000);
+
+      const { decision, itinerary } = service.sessions.get(session.id);
+      expect(decision.winners).toEqual([]);
+      expect(decision.consensus).toEqual({ required: true, reached: false });
+      expect(itinerary.items.map(i => i.id)).toEqual(['a', 'b']);
+    });
+
+    it('should decide by consensus when a viewer is watching the session', () => {
+      service.setRole(session.id, 'viewer-1', 'viewer');
+      service.addUserToSession(session.id, 'viewer-1', 'Val', null);
+      service.updateSettings(session.id, { requireConsensus: true, votingDeadline: inFuture(1000) });
+      service.handleVote(session.id, 'b', 'user-1', 'up');
+      service.handleVote(session.id, 'b', 'user-2', 'up');
+
+      jest.advanceTimersByTime(1000);
+
+      const { decision, itinerary } = service.sessions.get(session.id);
+      expect(decision.winners).toEqual(['b']);
+      expect(decision.consensus).toEqual({ required: true, reached: true });
+      expect(itinerary.items.map(i => [i.id, i.decided])).toEqual([['b', true], ['a', undefined]]);
+    });
+
+    it('should keep every item tied for first place', () => {
+      service.updateSettings(session.id, { votingDeadline: inFuture(1000) });
+      service.handleVote(session.id, 'a', 'user-1', 'up');
+      service.handleVote(session.id, 'b', 'user-2', 'up');
+
+      jest.advanceTimersByTime(1000);
+
+      expect(service.sessions.get(session.id).decision.winners).toEqual(['a', 'b']);
+    });
+
+    it('should decide deadlines that passed while the server was down on load', async () => {
+      service.updateSettings(session.id, { votingDeadline: inFuture(1000) });
+      service.handleVote(session.id, 'a', 'user-1', 'up');
+      service.clearVotingDeadline(session.id);
+      await service.flush();
+      jest.setSystemTime(Date.now() + 5000);
+
+      const reloaded = temp.create();
+
+      expect(reloaded.sessions.get(session.id).decision.winners).toEqual(['a']);
+    });
+
+    it('should reopen voting when a new deadline is set', () => {
+      service.updateSettings(session.id, { votingDeadline: inFuture(1000) });
+      jest.advanceTimersByTime(1000);
+
+      service.updateSettings(session.id, { votingDeadline: inFuture(60 * 1000) });
+
+      const stored = service.sessions.get(session.id);
+      expect(stored.decision).toBeNull();
+      expect(stored.settings.votingEnabled).toBe(true);
+      expect(service.handleVote(session.id, 'a', 'user-1', 'up')).toEqual({ ok: true });
+    });
+  });
 }); 
\ No newline at end of file
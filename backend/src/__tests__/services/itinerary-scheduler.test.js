@@ -0,0 +1,94 @@
+import { proposeSchedule, validateSchedule } from '../../services/itinerary-scheduler.js';
+
+describe('Itinerary scheduler', () => {
+  // A Monday, in UTC so the expectations do not depend on the machine's timezone
+  const startDate = '2026-03-02T00:00:00.000Z';
+  const endDate = '2026-03-03T00:00:00.000Z';
+
+  const downtown = { lat: 40.7128, lon: -74.006 };
+  const midtown = { lat: 40.7549, lon: -73.984 };
+
+  it('should order the day by votes without overlaps', () => {
+    const items = [
+      { id: 'a', title: 'Museum', duration: 120 },
+      { id: 'b', title: 'Lunch', duration: 60 }
+    ];
+
+    const { days, unscheduled } = proposeSchedule(items, { startDate, endDate, scores: { b: 5, a: 1 } });
+
+    expect(unscheduled).toEqual([]);
+    expect(days).toHaveLength(1);
+    expect(days[0].slots.map(s => s.itemId)).toEqual(['b', 'a']);
+    expect(days[0].slots[0]).toMatchObject({ start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:00:00.000Z' });
+    // Default travel time between stops without coordinates
+    expect(days[0].slots[1]).toMatchObject({ start: '2026-03-02T10:15:00.000Z', travelMinutes: 15 });
+  });
+
+  it('should add travel time from the distance between stops', () => {
+    const items = [
+      { id: 'a', title: 'Downtown', duration: 60, coordinates: downtown },
+      { id: 'b', title: 'Midtown', duration: 60, coordinates: midtown }
+    ];
+
+    const { days } = proposeSchedule(items, { startDate, endDate });
+
+    const [, second] = days[0].slots;
+    expect(second.distanceKm).toBeGreaterThan(4);
+    expect(second.travelMinutes).toBe(15);
+    expect(second.start).toBe('2026-03-02T10:15:00.000Z');
+  });
+
+  it('should respect opening hours', () => {
+    const items = [
+      { id: 'bar', title: 'Rooftop Bar', duration: 90, openingHours: { open: '17:00', close: '23:00' } },
+      { id: 'spa', title: 'Spa', duration: 60, openingHours: { mon: null, tue: { open: '10:00', close: '18:00' } } }
+    ];
+
+    const { days, unscheduled } = proposeSchedule(items, { startDate, endDate, scores: { bar: 3, spa: 2 } });
+
+    expect(days[0].slots).toEqual([expect.objectContaining({ itemId: 'bar', start: '2026-03-02T17:00:00.000Z' })]);
+    expect(unscheduled).toEqual([{ itemId: 'spa', title: 'Spa', reason: 'No free time within its opening hours' }]);
+  });
+
+  it('should spill over to the next day and use the planners\' timezone', () => {
+    const items = [
+      { id: 'a', title: 'Workshop', duration: 480 },
+      { id: 'b', title: 'Hike', duration: 480 }
+    ];
+
+    // UTC-5: local 09:00 is 14:00 UTC
+    const { days } = proposeSchedule(items, {
+      startDate: '2026-03-02T05:00:00.000Z',
+      endDate: '2026-03-04T05:00:00.000Z',
+      timezoneOffset: 300
+    });
+
+    expect(days.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(days[1].slots[0].start).toBe('2026-03-03T14:00:00.000Z');
+  });
+
+  it('should reject an invalid planning window', () => {
+    expect(proposeSchedule([], { startDate: endDate, endDate: startDate }).error).toBeDefined();
+    expect(proposeSchedule([], { startDate, endDate, dayStart: '20:00', dayEnd: '08:00' }).error).toBeDefined();
+  });
+
+  it('should reject clock times outside a 24-hour day', () => {
+    expect(proposeSchedule([], { startDate, endDate, dayStart: '09:00', dayEnd: '24:00' }).error).toBe('Day start must be before day end (HH:MM)');
+    expect(proposeSchedule([], { startDate, endDate, dayStart: '09:75', dayEnd: '21:00' }).error).toBe('Day start must be before day end (HH:MM)');
+
+    const items = [{ id: 'club', title: 'Club', duration: 60, openingHours: { open: '10:00', close: '22:75' } }];
+    const { unscheduled } = proposeSchedule(items, { startDate, endDate });
+    expect(unscheduled).toEqual([{ itemId: 'club', title: 'Club', reason: 'No free time within its opening hours' }]);
+  });
+
+  it('should catch overlapping tweaks', () => {
+    const items = [{ id: 'a', title: 'Museum' }, { id: 'b', title: 'Lunch' }];
+
+    const result = validateSchedule(items, [
+      { itemId: 'a', start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T11:00:00.000Z' },
+      { itemId: 'b', start: '2026-03-02T10:30:00.000Z', end: '2026-03-02T11:30:00.000Z' }
+    ]);
+
+    expect(result.error).toBe('Lunch overlaps Museum');
+  });
+});
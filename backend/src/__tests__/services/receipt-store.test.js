@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  LocalReceiptStore,
+  RECEIPT_MAX_BYTES,
+  SupabaseReceiptStore,
+  THUMBNAIL_SIZE,
+  createReceiptStore,
+  createThumbnail,
+  detectReceiptType,
+  validateReceipt
+} from '../../services/receipt-store.js';
+
+const image = (width, height, format = 'png') => sharp({ create: { width, height, channels: 3, background: '#3366ff' } })[format]().toBuffer();
+const pdf = Buffer.from('%PDF-1.4\n1 0 obj\n<<>>\nendobj\ntrailer\n<<>>\n%%EOF\n');
+
+describe('Receipt store', () => {
+  let tmpDir;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'receipts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should recognise receipts by content rather than name', async () => {
+    expect(detectReceiptType(await image(4, 4, 'png'))).toEqual({ contentType: 'image/png', ext: 'png' });
+    expect(detectReceiptType(await image(4, 4, 'jpeg'))).toEqual({ contentType: 'image/jpeg', ext: 'jpg' });
+    expect(detectReceiptType(await image(4, 4, 'webp'))).toEqual({ contentType: 'image/webp', ext: 'webp' });
+    expect(detectReceiptType(pdf)).toEqual({ contentType: 'application/pdf', ext: 'pdf' });
+    expect(detectReceiptType(Buffer.from('<html><script>alert(1)</script></html>'))).toBeNull();
+  });
+
+  it('should refuse empty, oversized and unsupported files', () => {
+    expect(validateReceipt({ buffer: Buffer.alloc(0), originalName: 'empty.png' }).error).toBe('empty.png is empty');
+    expect(validateReceipt({ buffer: Buffer.alloc(RECEIPT_MAX_BYTES + 1), originalName: 'huge.pdf' }).error).toMatch('larger than');
+    expect(validateReceipt({ buffer: Buffer.from('just some text here'), originalName: 'notes.pdf' }).error).toMatch('is not a JPEG, PNG, GIF, WebP or PDF');
+    expect(validateReceipt({ buffer: pdf, originalName: 'invoice.pdf' })).toEqual({ contentType: 'application/pdf', ext: 'pdf' });
+  });
+
+  it('should shrink images into a JPEG thumbnail and skip PDFs', async () => {
+    const thumbnail = await createThumbnail(await image(1200, 600), 'image/png');
+    const meta = await sharp(thumbnail).metadata();
+
+    expect(meta).toMatchObject({ format: 'jpeg', width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE / 2 });
+    expect((await sharp(await createThumbnail(await image(100, 50), 'image/png')).metadata()).width).toBe(100);
+    expect(await createThumbnail(pdf, 'application/pdf')).toBeNull();
+    await expect(createThumbnail(Buffer.from('GIF89a not really a gif'), 'image/gif')).rejects.toThrow();
+  });
+
+  it('should store, read and remove files on local disk', async () => {
+    const store = new LocalReceiptStore({ dir: tmpDir });
+
+    await store.put('b1/e1/r1.pdf', pdf, 'application/pdf');
+    expect(await store.get('b1/e1/r1.pdf')).toEqual(pdf);
+    await store.remove(['b1/e1/r1.pdf', 'b1/e1/missing.jpg']);
+    expect(await store.get('b1/e1/r1.pdf')).toBeNull();
+    await expect(store.put('../escape.pdf', pdf)).rejects.toThrow('Invalid receipt key');
+  });
+
+  it('should pick the store from configuration', () => {
+    expect(createReceiptStore({ kind: 'local', dir: tmpDir })).toBeInstanceOf(LocalReceiptStore);
+    expect(createReceiptStore({ kind: 'supabase', getClient: () => ({}) })).toBeInstanceOf(SupabaseReceiptStore);
+    expect(() => createReceiptStore({ kind: 's3' })).toThrow('Unknown RECEIPT_STORAGE');
+  });
+});
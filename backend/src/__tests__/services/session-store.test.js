@@ -0,0 +1,176 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSessionStore, SupabaseSessionStore, createSessionStore } from '../../services/session-store.js';
+import { CollaborationService } from '../../services/collaboration-service.js';
+
+// Minimal stand-in for the Supabase query builder: select and upsert on one table
+const fakeSupabase = (rows = []) => {
+  const table = new Map(rows.map(row => [row.session_id, row]));
+  const upserts = [];
+  const client = {
+    table,
+    upserts,
+    from: () => ({
+      select: async () => ({ data: Array.from(table.values()), error: null }),
+      upsert: async (batch) => {
+        upserts.push(batch);
+        batch.forEach(row => table.set(row.session_id, row));
+        return { error: null };
+      }
+    })
+  };
+  return client;
+};
+
+describe('Session stores', () => {
+  let tmpDir;
+  let file;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collab-store-'));
+    file = path.join(tmpDir, 'sessions.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('file store', () => {
+    it('should batch a burst of saves into one write of the latest state', async () => {
+      const store = new FileSessionStore({ file, debounceMs: 20 });
+      const write = jest.spyOn(store, 'write');
+      for (let i = 1; i <= 50; i++) store.save(() => [{ id: 's1', name: `Version ${i}` }]);
+
+      expect(fs.existsSync(file)).toBe(false);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await store.flush();
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(store.loadSync()).toEqual([{ id: 's1', name: 'Version 50' }]);
+      expect(fs.readdirSync(tmpDir)).toEqual(['sessions.json']);
+    });
+
+    it('should never run two writes at once', async () => {
+      const store = new FileSessionStore({ file, debounceMs: 1000 });
+      const realWrite = store.write.bind(store);
+      let running = 0;
+      let maxRunning = 0;
+      store.write = async (records) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await realWrite(records);
+        running--;
+      };
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) => {
+        store.save(() => [{ id: 's1', name: `Version ${i}` }]);
+        return store.flush();
+      }));
+
+      expect(maxRunning).toBe(1);
+      expect(store.loadSync()[0].name).toBe('Version 9');
+    });
+
+    it('should keep the previous file when a write fails and retry later', async () => {
+      const store = new FileSessionStore({ file, debounceMs: 10 });
+      store.save(() => [{ id: 's1', name: 'Saved' }]);
+      await store.flush();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(fs.promises, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+      store.save(() => [{ id: 's1', name: 'Renamed' }]);
+      await store.flush();
+
+      expect(store.loadSync()[0].name).toBe('Saved');
+      await store.flush();
+      expect(store.loadSync()[0].name).toBe('Renamed');
+    });
+
+    it('should read version 1 files', async () => {
+      fs.writeFileSync(file, JSON.stringify([{ id: 'legacy' }]));
+
+      expect(await new FileSessionStore({ file }).load()).toEqual([{ id: 'legacy' }]);
+    });
+  });
+
+  describe('collaboration service', () => {
+    it('should not lose concurrent updates across a restart', async () => {
+      const service = new CollaborationService({ store: new FileSessionStore({ file, debounceMs: 5 }) });
+      const session = service.createSession('owner', 'Offsite', 'team-1', 'Owner');
+      const activities = ['act-0', 'act-1', 'act-2'];
+      activities.forEach((id, i) => service.applyItineraryOperation(session.id, 'owner', { baseVersion: i, op: { type: 'add', item: { id, title: id } } }));
+      const users = Array.from({ length: 30 }, (_, i) => `user-${i}`);
+
+      // Joins, votes and itinerary edits interleaved across ticks while debounced writes are in flight
+      await Promise.all(users.map(async (userId, i) => {
+        await new Promise(resolve => setTimeout(resolve, i % 7));
+        service.addUserToSession(session.id, userId, userId, null);
+        service.handleVote(session.id, `act-${i % 3}`, userId, 'up');
+        await new Promise(resolve => setImmediate(resolve));
+        const { version } = service.sessions.get(session.id).itinerary;
+        service.applyItineraryOperation(session.id, userId, { baseVersion: version, op: { type: 'add', item: { id: `item-${i}`, title: userId } } });
+      }));
+      await service.flush();
+
+      const restarted = new CollaborationService({ store: new FileSessionStore({ file }) });
+      const stored = restarted.sessions.get(session.id);
+      expect(stored.participants.size).toBe(users.length + 1);
+      expect(stored.itinerary.items).toHaveLength(activities.length + users.length);
+      expect(stored.itinerary.version).toBe(activities.length + users.length);
+      expect(restarted.getSessionVotes(session.id)).toEqual(service.getSessionVotes(session.id));
+    });
+
+    it('should load sessions from a database store after construction', async () => {
+      const client = fakeSupabase([{ session_id: 's1', payload: { id: 's1', name: 'Stored', participants: [{ id: 'user-1', name: 'Alice' }] } }]);
+      const service = new CollaborationService({ store: new SupabaseSessionStore({ getClient: () => client, debounceMs: 5 }) });
+
+      await service.ready;
+
+      expect(service.getSession('s1').name).toBe('Stored');
+      expect(service.getRole('s1', 'user-1')).toBe('editor');
+    });
+  });
+
+  describe('supabase store', () => {
+    it('should upsert only sessions that changed since the last write', async () => {
+      const client = fakeSupabase([{ session_id: 's1', payload: { id: 's1', name: 'One' } }]);
+      const store = new SupabaseSessionStore({ getClient: () => client, batchSize: 2 });
+      await store.load();
+
+      store.save(() => [{ id: 's1', name: 'One' }, { id: 's2', name: 'Two' }, { id: 's3', name: 'Three' }, { id: 's4', name: 'Four' }]);
+      await store.flush();
+      store.save(() => [{ id: 's1', name: 'One' }, { id: 's2', name: 'Two, renamed' }, { id: 's3', name: 'Three' }, { id: 's4', name: 'Four' }]);
+      await store.flush();
+
+      expect(client.upserts.map(batch => batch.map(row => row.session_id))).toEqual([['s2', 's3'], ['s4'], ['s2']]);
+      expect(client.table.get('s2').payload.name).toBe('Two, renamed');
+    });
+
+    it('should retry rows that failed to save', async () => {
+      const client = fakeSupabase();
+      const upsert = client.from().upsert;
+      let failures = 1;
+      client.from = () => ({
+        upsert: async (rows) => (failures-- > 0 ? { error: new Error('timeout') } : upsert(rows))
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const store = new SupabaseSessionStore({ getClient: () => client, debounceMs: 5 });
+
+      store.save(() => [{ id: 's1', name: 'One' }]);
+      await store.flush();
+      await store.flush();
+
+      expect(client.table.get('s1').payload).toEqual({ id: 's1', name: 'One' });
+    });
+  });
+
+  it('should pick the store from configuration', () => {
+    expect(createSessionStore({ sessionsFile: file, kind: 'file' })).toBeInstanceOf(FileSessionStore);
+    expect(createSessionStore({ kind: 'supabase', getClient: () => fakeSupabase() })).toBeInstanceOf(SupabaseSessionStore);
+    expect(() => createSessionStore({ kind: 'redis' })).toThrow('Unknown COLLAB_STORAGE');
+  });
+});
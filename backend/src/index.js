@@ -18,7 +18,7 @@ import { usersRouter } from './routes/users.js';
 import { teamsRouter } from './routes/teams.js';
 import activityPlannerRouter from './routes/activityPlanner.js';
 import { collaborationRouter } from './routes/collaboration.js';
-import { billSplitterRouter } from './routes/billsplitter.js';
+import { billSplitterRouter, startRecurringBillScheduler } from './routes/billsplitter.js';
 import { birthdayRouter } from './routes/birthday.js';
 import { budgetRouter } from './routes/budget.js';
 import { codeMoodRouter, codeMoodApi } from './routes/codemood.js';
@@ -48,6 +48,12 @@ setImmediate(() => {
   } catch (error) {
     console.error('❌ Failed to initialize collaboration service:', error);
   }
+  try {
+    startRecurringBillScheduler();
+    console.log('✅ Recurring bill scheduler started');
+  } catch (error) {
+    console.error('❌ Failed to start recurring bill scheduler:', error);
+  }
 });
 
 // Middleware
@@ -174,4 +180,11 @@ process.on('unhandledRejection', (reason, promise) => {
 
 process.on('uncaughtException', (err) => {
   console.error('Uncaught Exception:', err);
-}); 
\ No newline at end of file
+});
+
+// Collaboration changes are written in batches; finish the pending write before exiting
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+  process.once(signal, () => {
+    collaborationService.flush().finally(() => process.exit(0));
+  });
+});
@@ -0,0 +1,11 @@
+// CSV field escaping shared by the Budget Manager and Bill Splitter exports.
+
+// Quotes fields with separators, quotes, line breaks or edge whitespace, and prefixes text that a
+// spreadsheet would otherwise evaluate as a formula (leading =, +, -, @, tab or CR) with a quote mark.
+// Plain numbers such as "-12.50" are left alone.
+export function csvField(value) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (!/^-?\d+(\.\d+)?$/.test(text) && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
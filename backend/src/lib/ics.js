@@ -0,0 +1,79 @@
+// Minimal RFC 5545 calendar writer shared by the event grid and collaboration exports.
+// All times are written in UTC ("Z" suffix) so every calendar client converts them to the
+// reader's own timezone without needing VTIMEZONE definitions.
+
+const CRLF = '\r\n';
+
+export const formatICSDate = (value) => new Date(value).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+// TEXT values: backslash, semicolon and comma are escaped, line breaks become \n
+export const escapeICSText = (value) => String(value ?? '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Parameter values (e.g. CN) cannot be escaped, only quoted; quotes are not allowed inside
+const quoteParam = (value) => `"${String(value ?? '').replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+export function foldICSLine(line) {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const length = Buffer.byteLength(char, 'utf8');
+    // The first line holds 75 octets, continuation lines 74 plus the leading space
+    if (size + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function eventLines(event, stamp) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatICSDate(event.start)}`,
+    `DTEND:${formatICSDate(event.end)}`,
+    `SUMMARY:${escapeICSText(event.summary)}`
+  ];
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeICSText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICSText(event.location)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeICSText).join(',')}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  for (const attendee of event.attendees || []) {
+    // ATTENDEE needs a calendar address; people without an email are only listed in the description
+    if (!attendee.email) continue;
+    const name = attendee.name ? `;CN=${quoteParam(attendee.name)}` : '';
+    lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// events: [{ uid, start, end, summary, description?, location?, categories?, url?, sequence?, attendees? }]
+export function buildCalendar({ prodId, name, events }) {
+  const stamp = formatICSDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${prodId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+  if (name) lines.push(`X-WR-CALNAME:${escapeICSText(name)}`);
+  for (const event of events) lines.push(...eventLines(event, stamp));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join(CRLF) + CRLF;
+}
@@ -3,13 +3,87 @@ import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { requireAuth } from '../middleware/auth.js';
 import { getSupabase } from '../services/supabase-client.js';
+import { computeSplits, roundCents, validateSplitDefinition } from '../services/bill-splits.js';
+import { buildChargeBreakdown, summarizeBillTotals } from '../services/bill-charges.js';
+import { advanceSchedule, dueRunDates, missedOccurrences } from '../services/bill-recurring.js';
+import { matchReceiptAssignees, parseReceiptCsv, parseReceiptText } from '../services/bill-receipt-import.js';
+import { buildSettleUpStatement, settleUpFilename, settleUpStatementToCsv, settleUpStatementToHtml } from '../services/bill-settle-up.js';
+import { AUDITED_ITEM_FIELDS, auditItemSnapshot, canModifyBill, canModifyItem, diffFields } from '../services/bill-audit.js';
+import { billExchangeRate, buildGroupLedger, computeBillSettlements, snapshotExchangeRate } from '../services/bill-ledger.js';
 
 export const billSplitterRouter = express.Router();
 
 // Schemas
-const createGroupSchema = z.object({ name: z.string().min(1), memberIds: z.array(z.string()).min(2) });
-const createBillSchema = z.object({ groupId: z.string(), title: z.string().min(1), currency: z.string().default('USD') });
-const createItemSchema = z.object({ billId: z.string(), description: z.string().min(1), amount: z.number().positive(), payerId: z.string(), splits: z.array(z.object({ userId: z.string(), amount: z.number().positive() })) });
+const currencyCode = z.string().transform(c => c.trim().toUpperCase()).pipe(z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'));
+const createGroupSchema = z.object({ name: z.string().min(1), memberIds: z.array(z.string()).min(2), baseCurrency: currencyCode.default('USD') });
+// Bill-level tax/tip/service charges, either a percentage of the item subtotal or a fixed amount
+const billChargeSchema = z.object({
+  type: z.enum(['tax', 'tip', 'service']),
+  mode: z.enum(['percent', 'fixed']),
+  value: z.number().nonnegative(),
+  label: z.string().max(60).optional(),
+  payerId: z.string().min(1).optional()
+});
+const billChargesSchema = z.object({ charges: z.array(billChargeSchema).max(10) });
+const createBillSchema = z.object({ groupId: z.string(), title: z.string().min(1), currency: currencyCode.optional(), charges: z.array(billChargeSchema).max(10).default([]) });
+const exchangeRatesSchema = z.object({ rates: z.array(z.object({ currency: currencyCode, rate: z.number().positive() })).min(1) });
+const splitDefinitionSchema = z.object({
+  method: z.enum(['equal', 'exact', 'percentage', 'shares']),
+  participants: z.array(z.object({ userId: z.string().min(1), value: z.number().nonnegative().optional() })).min(1)
+});
+// Items carry a split definition; `splits` (exact amounts) is still accepted from older clients
+const createItemSchema = z.object({
+  billId: z.string(),
+  description: z.string().min(1),
+  amount: z.number().positive(),
+  payerId: z.string(),
+  split: splitDefinitionSchema.optional(),
+  splits: z.array(z.object({ userId: z.string(), amount: z.number().positive() })).optional()
+}).transform((data, ctx) => {
+  const { splits: legacySplits, ...item } = data;
+  const split = data.split || (legacySplits ? { method: 'exact', participants: legacySplits.map(s => ({ userId: s.userId, value: s.amount })) } : null);
+  if (!split) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['split'], message: 'A split definition is required' });
+    return z.NEVER;
+  }
+  const problem = validateSplitDefinition(data.amount, split);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['split'], message: problem });
+    return z.NEVER;
+  }
+  return { ...item, split, splits: computeSplits(data.amount, split) };
+});
+const updateItemSchema = z.object({
+  description: z.string().min(1).optional(),
+  amount: z.number().positive().optional(),
+  payerId: z.string().min(1).optional(),
+  split: splitDefinitionSchema.optional()
+}).refine(data => Object.keys(data).length > 0, { message: 'Nothing to update' });
+const updateBillSchema = z.object({ title: z.string().min(1) });
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+const createRecurringSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1).optional(),
+  amount: z.number().positive(),
+  currency: currencyCode.optional(),
+  payerId: z.string().min(1),
+  split: splitDefinitionSchema,
+  frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']),
+  startOn: isoDate,
+  endOn: isoDate.optional()
+}).superRefine((data, ctx) => {
+  const problem = validateSplitDefinition(data.amount, data.split);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['split'], message: problem });
+  if (data.endOn && data.endOn < data.startOn) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endOn'], message: 'End date must be after the start date' });
+});
+const createPaymentSchema = z.object({ groupId: z.string().min(1), billId: z.string().optional(), fromUserId: z.string().min(1), toUserId: z.string().min(1), amount: z.number().positive(), note: z.string().max(500).optional() })
+  .refine(p => p.fromUserId !== p.toUserId, { message: 'Payer and recipient must be different' });
+const receiptPreviewSchema = z.object({ format: z.enum(['text', 'csv']).default('text'), content: z.string().min(1, 'Paste a receipt or choose a CSV file').max(50000) });
+const exportQuerySchema = z.object({ format: z.enum(['csv', 'html']).default('csv') });
+// Reviewed receipt lines, each one validated like a single item
+const receiptImportSchema = z.object({
+  items: z.array(z.object({ description: z.string(), amount: z.number(), payerId: z.string(), split: splitDefinitionSchema.optional() }).passthrough()).min(1, 'Nothing to import').max(100)
+});
 
 billSplitterRouter.use(requireAuth);
 
@@ -26,19 +100,19 @@ async function dbListUserGroups(userId) {
   if (cerr) throw cerr;
   const countMap = new Map();
   (counts || []).forEach(c => countMap.set(c.group_id, (countMap.get(c.group_id) || 0) + 1));
-  return (groups || []).map(g => ({ id: g.id, name: g.name, memberIds: [], createdBy: g.created_by, createdAt: g.created_at, memberCount: countMap.get(g.id) || 0 }));
+  return (groups || []).map(g => ({ id: g.id, name: g.name, memberIds: [], baseCurrency: g.base_currency || 'USD', createdBy: g.created_by, createdAt: g.created_at, memberCount: countMap.get(g.id) || 0 }));
 }
 
-async function dbCreateGroup(userId, name, memberIds) {
+async function dbCreateGroup(userId, name, memberIds, baseCurrency) {
   const supabase = getSupabase();
   const gid = uuidv4();
-  const { error: gerr } = await supabase.from('bill_groups').insert({ id: gid, name, description: null, created_by: userId });
+  const { error: gerr } = await supabase.from('bill_groups').insert({ id: gid, name, description: null, base_currency: baseCurrency, created_by: userId });
   if (gerr) throw gerr;
   const uniqMembers = Array.from(new Set(memberIds));
   const rows = uniqMembers.map(uid => ({ group_id: gid, user_id: uid }));
   const { error: merr } = await supabase.from('bill_group_members').upsert(rows, { onConflict: 'group_id,user_id' });
   if (merr) throw merr;
-  return { id: gid, name, memberIds: uniqMembers, createdBy: userId, createdAt: new Date().toISOString() };
+  return { id: gid, name, memberIds: uniqMembers, baseCurrency, createdBy: userId, createdAt: new Date().toISOString() };
 }
 
 async function dbGetGroup(groupId) {
@@ -48,15 +122,50 @@ async function dbGetGroup(groupId) {
   const { data: members } = await supabase.from('bill_group_members').select('user_id').eq('group_id', groupId);
   const memberIds = (members || []).map(m => m.user_id);
   const { data: billList } = await supabase.from('bills').select('*').eq('group_id', groupId);
-  return { group: { id: g.id, name: g.name, memberIds, createdBy: g.created_by, createdAt: g.created_at }, bills: billList || [] };
+  return { group: { id: g.id, name: g.name, memberIds, baseCurrency: g.base_currency || 'USD', createdBy: g.created_by, createdAt: g.created_at }, bills: billList || [] };
+}
+
+// Manually maintained rates: 1 unit of `currency` equals `rate` units of the group base currency
+async function dbGetExchangeRates(groupId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_exchange_rates').select('*').eq('group_id', groupId);
+  if (error) throw error;
+  return (data || []).map(r => ({ currency: r.currency, rate: Number(r.rate), updatedBy: r.updated_by, updatedAt: r.updated_at }));
+}
+
+async function dbUpsertExchangeRates(userId, groupId, rates) {
+  const supabase = getSupabase();
+  const updatedAt = new Date().toISOString();
+  const rows = rates.map(r => ({ group_id: groupId, currency: r.currency, rate: r.rate, updated_by: userId, updated_at: updatedAt }));
+  const { error } = await supabase.from('bill_exchange_rates').upsert(rows, { onConflict: 'group_id,currency' });
+  if (error) throw error;
+  return rows.map(r => ({ currency: r.currency, rate: r.rate, updatedBy: userId, updatedAt }));
+}
+
+async function dbGetGroupCurrency(groupId) {
+  const supabase = getSupabase();
+  const { data: g, error } = await supabase.from('bill_groups').select('base_currency').eq('id', groupId).single();
+  if (error) return null;
+  const rates = await dbGetExchangeRates(groupId);
+  return { baseCurrency: g.base_currency || 'USD', rateMap: new Map(rates.map(r => [r.currency, r.rate])) };
 }
 
-async function dbCreateBill(userId, groupId, title, currency) {
+async function dbCreateBill(userId, groupId, title, currency, charges = [], extra = {}) {
   const supabase = getSupabase();
+  const groupCurrency = await dbGetGroupCurrency(groupId);
+  if (!groupCurrency) throw new Error('Group not found');
+  // Snapshot the rate so later edits to the rate table don't rewrite settled history
+  const { currency: billCurrency, baseCurrency, exchangeRate } = snapshotExchangeRate(groupCurrency, currency);
   const bid = uuidv4();
-  const { error } = await supabase.from('bills').insert({ id: bid, group_id: groupId, title, currency, created_by: userId });
+  const { error } = await supabase.from('bills').insert({ id: bid, group_id: groupId, title, currency: billCurrency, base_currency: baseCurrency, exchange_rate: exchangeRate, charges, created_by: userId, ...extra });
+  if (error) throw error;
+  return { id: bid, groupId, title, currency: billCurrency, baseCurrency, exchangeRate, charges, createdBy: userId, createdAt: new Date().toISOString() };
+}
+
+async function dbUpdateBillCharges(billId, charges) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('bills').update({ charges }).eq('id', billId);
   if (error) throw error;
-  return { id: bid, groupId, title, currency, createdBy: userId, createdAt: new Date().toISOString() };
 }
 
 async function dbGetBill(billId) {
@@ -67,17 +176,321 @@ async function dbGetBill(billId) {
   const groupId = bill.group_id;
   const { data: members } = await supabase.from('bill_group_members').select('user_id').eq('group_id', groupId);
   const group = { memberIds: (members || []).map(m => m.user_id) };
-  const items = (rawItems || []).map(i => normalizeBillItem({ id: i.id, billId: i.bill_id, description: i.description, amount: Number(i.amount), payerId: i.payer_id, splits: i.splits, createdAt: i.created_at }, group));
-  const total = items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
-  return { bill: { id: bill.id, groupId: bill.group_id, title: bill.title, currency: bill.currency, createdBy: bill.created_by, createdAt: bill.created_at, total, itemCount: items.length }, items };
+  const groupCurrency = (await dbGetGroupCurrency(groupId)) || { baseCurrency: bill.currency, rateMap: new Map() };
+  const items = (rawItems || []).map(i => mapItemRow(i, group));
+  const mapped = mapBillRow(bill, groupCurrency);
+  return { bill: { ...mapped, ...summarizeBillTotals(items, mapped.charges), itemCount: items.length }, items, memberIds: group.memberIds };
 }
 
-async function dbAddItem(billId, description, amount, payerId, splits) {
+async function dbAddItem(userId, billId, description, amount, payerId, split, splits) {
   const supabase = getSupabase();
   const id = uuidv4();
-  const { error } = await supabase.from('bill_items').insert({ id, bill_id: billId, description, amount, payer_id: payerId, splits });
+  const { error } = await supabase.from('bill_items').insert({ id, bill_id: billId, description, amount, payer_id: payerId, split_method: split.method, split_definition: split.participants, splits, created_by: userId });
+  if (error) throw error;
+  return { id, billId, description, amount, payerId, splitMethod: split.method, splitDefinition: split.participants, splits, createdBy: userId, createdAt: new Date().toISOString() };
+}
+
+// Insert several items in one statement so a failed import leaves the bill untouched
+async function dbAddItems(userId, billId, items) {
+  const supabase = getSupabase();
+  const createdAt = new Date().toISOString();
+  const created = items.map(item => ({ id: uuidv4(), billId, description: item.description, amount: item.amount, payerId: item.payerId, splitMethod: item.split.method, splitDefinition: item.split.participants, splits: item.splits, createdBy: userId, createdAt }));
+  const { error } = await supabase.from('bill_items').insert(created.map(item => ({
+    id: item.id,
+    bill_id: billId,
+    description: item.description,
+    amount: item.amount,
+    payer_id: item.payerId,
+    split_method: item.splitMethod,
+    split_definition: item.splitDefinition,
+    splits: item.splits,
+    created_by: userId
+  })));
+  if (error) throw error;
+  return created;
+}
+
+async function dbUpdateItem(itemId, item) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('bill_items').update({
+    description: item.description,
+    amount: item.amount,
+    payer_id: item.payerId,
+    split_method: item.splitMethod,
+    split_definition: item.splitDefinition,
+    splits: item.splits
+  }).eq('id', itemId);
+  if (error) throw error;
+}
+
+async function dbDeleteItem(itemId) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('bill_items').delete().eq('id', itemId);
+  if (error) throw error;
+}
+
+async function dbUpdateBillTitle(billId, title) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('bills').update({ title }).eq('id', billId);
+  if (error) throw error;
+}
+
+// Remove a bill and its items; payments recorded against it stay on the group ledger
+async function dbDeleteBill(billId) {
+  const supabase = getSupabase();
+  const { error: perr } = await supabase.from('bill_payments').update({ bill_id: null }).eq('bill_id', billId);
+  if (perr) throw perr;
+  const { error: ierr } = await supabase.from('bill_items').delete().eq('bill_id', billId);
+  if (ierr) throw ierr;
+  const { error } = await supabase.from('bills').delete().eq('id', billId);
+  if (error) throw error;
+}
+
+// Append-only history of edits so disputes can be traced: who, what, before/after
+async function dbWriteAudit(entry) {
+  const supabase = getSupabase();
+  const row = {
+    id: uuidv4(),
+    group_id: entry.groupId,
+    bill_id: entry.billId,
+    item_id: entry.itemId || null,
+    action: entry.action,
+    actor_id: entry.actorId,
+    changes: entry.changes || [],
+    before: entry.before || null,
+    after: entry.after || null,
+    created_at: new Date().toISOString()
+  };
+  const { error } = await supabase.from('bill_audit_log').insert(row);
+  if (error) throw error;
+}
+
+async function dbListAudit(billId, itemId) {
+  const supabase = getSupabase();
+  let query = supabase.from('bill_audit_log').select('*').eq('bill_id', billId);
+  if (itemId) query = query.eq('item_id', itemId);
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(r => ({
+    id: r.id,
+    groupId: r.group_id,
+    billId: r.bill_id,
+    itemId: r.item_id,
+    action: r.action,
+    actorId: r.actor_id,
+    changes: r.changes || [],
+    before: r.before,
+    after: r.after,
+    createdAt: r.created_at
+  }));
+}
+
+function mapRecurringRow(row) {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    title: row.title,
+    description: row.description || row.title,
+    amount: Number(row.amount),
+    currency: row.currency || null,
+    payerId: row.payer_id,
+    split: { method: row.split_method, participants: row.split_definition || [] },
+    frequency: row.frequency,
+    startOn: row.start_on,
+    endOn: row.end_on || null,
+    occurrence: Number(row.occurrence) || 0,
+    nextRunOn: row.next_run_on,
+    status: row.status,
+    lastBillId: row.last_bill_id || null,
+    lastRunAt: row.last_run_at || null,
+    lastError: row.last_error || null,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+async function dbListRecurring(groupId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_recurring_templates').select('*').eq('group_id', groupId).order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapRecurringRow);
+}
+
+async function dbGetRecurring(templateId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_recurring_templates').select('*').eq('id', templateId).single();
+  if (error) return null;
+  return mapRecurringRow(data);
+}
+
+async function dbCreateRecurring(userId, groupId, data) {
+  const supabase = getSupabase();
+  const row = {
+    id: uuidv4(),
+    group_id: groupId,
+    title: data.title,
+    description: data.description || null,
+    amount: data.amount,
+    currency: data.currency || null,
+    payer_id: data.payerId,
+    split_method: data.split.method,
+    split_definition: data.split.participants,
+    frequency: data.frequency,
+    start_on: data.startOn,
+    end_on: data.endOn || null,
+    occurrence: 0,
+    next_run_on: data.startOn,
+    status: 'active',
+    created_by: userId,
+    created_at: new Date().toISOString()
+  };
+  const { error } = await supabase.from('bill_recurring_templates').insert(row);
+  if (error) throw error;
+  return mapRecurringRow(row);
+}
+
+// Move a template `steps` occurrences forward. The update is conditional on the due date we
+// read, so two schedulers racing on the same template can't both materialize the same bill.
+async function dbAdvanceRecurring(template, steps = 1, patch = {}) {
+  const supabase = getSupabase();
+  const { occurrence, nextRunOn, ended } = advanceSchedule(template, steps);
+  const update = { ...patch, occurrence, next_run_on: nextRunOn };
+  if (ended) update.status = 'ended';
+  const { data, error } = await supabase
+    .from('bill_recurring_templates')
+    .update(update)
+    .eq('id', template.id)
+    .eq('next_run_on', template.nextRunOn)
+    .select('*');
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+  return mapRecurringRow(data[0]);
+}
+
+// Undo a claim made by dbAdvanceRecurring whose bill could not be created, so the occurrence is
+// retried on the next run. Conditional on the claimed due date, like the claim itself.
+async function dbReleaseRecurring(template, claimed, patch = {}) {
+  const supabase = getSupabase();
+  const update = { ...patch, occurrence: template.occurrence, next_run_on: template.nextRunOn };
+  if (claimed.status === 'ended') update.status = template.status;
+  const { data, error } = await supabase
+    .from('bill_recurring_templates')
+    .update(update)
+    .eq('id', template.id)
+    .eq('next_run_on', claimed.nextRunOn)
+    .select('*');
+  if (error) throw error;
+  return data && data[0] ? mapRecurringRow(data[0]) : null;
+}
+
+async function dbUpdateRecurring(templateId, patch) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_recurring_templates').update(patch).eq('id', templateId).select('*');
+  if (error) throw error;
+  return data && data[0] ? mapRecurringRow(data[0]) : null;
+}
+
+async function dbIsGroupMember(groupId, userId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_group_members').select('user_id').eq('group_id', groupId).eq('user_id', userId).limit(1);
+  if (error) throw error;
+  return Array.isArray(data) && data.length > 0;
+}
+
+async function dbListGroupMemberUsers(groupId) {
+  const supabase = getSupabase();
+  const { data: members, error } = await supabase.from('bill_group_members').select('user_id').eq('group_id', groupId);
+  if (error) throw error;
+  const userIds = (members || []).map(m => m.user_id);
+  if (userIds.length === 0) return [];
+  const { data: users } = await supabase.from('users').select('id, name, email').in('id', userIds);
+  const byId = new Map((users || []).map(u => [u.id, u]));
+  return userIds.map(id => byId.get(id) || { id, name: null, email: null });
+}
+
+// Load every bill and item of a group, bills ordered oldest first
+async function dbGetGroupLedgerData(groupId) {
+  const supabase = getSupabase();
+  const result = await dbGetGroup(groupId);
+  if (!result) return null;
+  const rates = await dbGetExchangeRates(groupId);
+  const groupCurrency = { baseCurrency: result.group.baseCurrency, rateMap: new Map(rates.map(r => [r.currency, r.rate])) };
+  const bills = result.bills
+    .map(b => mapBillRow(b, groupCurrency))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const billIds = bills.map(b => b.id);
+  let rawItems = [];
+  if (billIds.length > 0) {
+    const { data, error } = await supabase.from('bill_items').select('*').in('bill_id', billIds);
+    if (error) throw error;
+    rawItems = data || [];
+  }
+  const items = rawItems.map(i => mapItemRow(i, result.group));
+  const payments = await dbListPayments({ groupId });
+  return { group: result.group, bills, items, payments };
+}
+
+function mapPaymentRow(row) {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    billId: row.bill_id || null,
+    fromUserId: row.from_user_id,
+    toUserId: row.to_user_id,
+    amount: Number(row.amount),
+    note: row.note || null,
+    recordedBy: row.recorded_by,
+    createdAt: row.created_at,
+    voidedAt: row.voided_at || null,
+    voidedBy: row.voided_by || null
+  };
+}
+
+// List payments for a group or a single bill, oldest first
+async function dbListPayments({ groupId, billId, includeVoided = false }) {
+  const supabase = getSupabase();
+  let query = supabase.from('bill_payments').select('*');
+  if (groupId) query = query.eq('group_id', groupId);
+  if (billId) query = query.eq('bill_id', billId);
+  if (!includeVoided) query = query.is('voided_at', null);
+  const { data, error } = await query.order('created_at', { ascending: true });
   if (error) throw error;
-  return { id, billId, description, amount, payerId, splits, createdAt: new Date().toISOString() };
+  return (data || []).map(mapPaymentRow);
+}
+
+async function dbCreatePayment(userId, payment) {
+  const supabase = getSupabase();
+  const id = uuidv4();
+  const createdAt = new Date().toISOString();
+  const row = {
+    id,
+    group_id: payment.groupId,
+    bill_id: payment.billId || null,
+    from_user_id: payment.fromUserId,
+    to_user_id: payment.toUserId,
+    amount: payment.amount,
+    note: payment.note || null,
+    recorded_by: userId,
+    created_at: createdAt
+  };
+  const { error } = await supabase.from('bill_payments').insert(row);
+  if (error) throw error;
+  return mapPaymentRow(row);
+}
+
+async function dbGetPayment(paymentId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_payments').select('*').eq('id', paymentId).single();
+  if (error) return null;
+  return mapPaymentRow(data);
+}
+
+async function dbVoidPayment(paymentId, userId) {
+  const supabase = getSupabase();
+  const voidedAt = new Date().toISOString();
+  const { error } = await supabase.from('bill_payments').update({ voided_at: voidedAt, voided_by: userId }).eq('id', paymentId);
+  if (error) throw error;
+  return { voidedAt, voidedBy: userId };
 }
 
 // Create a group
@@ -85,7 +498,7 @@ billSplitterRouter.post('/groups', async (req, res) => {
   try {
     const data = createGroupSchema.parse(req.body);
     const userId = req.user.sub || req.user.id;
-    const group = await dbCreateGroup(userId, data.name, data.memberIds);
+    const group = await dbCreateGroup(userId, data.name, data.memberIds, data.baseCurrency);
     return res.status(201).json({ group });
   } catch (error) {
     res.status(400).json({ error: error.message });
@@ -111,6 +524,142 @@ billSplitterRouter.get('/groups/:id', async (req, res) => {
   return res.json({ group: result.group, bills: result.bills, memberCount: result.group.memberIds.length });
 });
 
+// Group ledger: running balances across every bill in the group
+billSplitterRouter.get('/groups/:id/ledger', async (req, res) => {
+  try {
+    const groupId = req.params.id;
+    const userId = req.user.sub || req.user.id;
+    if (!(await dbIsGroupMember(groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const data = await dbGetGroupLedgerData(groupId);
+    if (!data) return res.status(404).json({ error: 'Group not found' });
+
+    return res.json(buildGroupLedger(data.group, data.bills, data.items, data.payments));
+  } catch (error) {
+    console.error('Error building group ledger:', error);
+    return res.status(500).json({ error: 'Failed to build group ledger' });
+  }
+});
+
+// Recurring bill templates (rent, subscriptions, shared snack budget)
+billSplitterRouter.get('/groups/:id/recurring', async (req, res) => {
+  try {
+    const groupId = req.params.id;
+    const userId = req.user.sub || req.user.id;
+    if (!(await dbIsGroupMember(groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+    const templates = await dbListRecurring(groupId);
+    return res.json({ templates });
+  } catch (error) {
+    console.error('Error fetching recurring bills:', error);
+    return res.status(500).json({ error: 'Failed to fetch recurring bills' });
+  }
+});
+
+billSplitterRouter.post('/groups/:id/recurring', async (req, res) => {
+  try {
+    const groupId = req.params.id;
+    const userId = req.user.sub || req.user.id;
+    const data = createRecurringSchema.parse(req.body);
+    const groupResult = await dbGetGroup(groupId);
+    if (!groupResult) return res.status(404).json({ error: 'Group not found' });
+    const { memberIds } = groupResult.group;
+    if (!memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    if (![data.payerId, ...data.split.participants.map(p => p.userId)].every(uid => memberIds.includes(uid))) {
+      return res.status(400).json({ error: 'Payer and participants must be group members' });
+    }
+
+    const template = await dbCreateRecurring(userId, groupId, data);
+    return res.status(201).json({ template });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error creating recurring bill:', error);
+    return res.status(500).json({ error: 'Failed to create recurring bill' });
+  }
+});
+
+// Pause, resume, skip the next occurrence, or end a recurring bill
+billSplitterRouter.post('/recurring/:id/:action', async (req, res) => {
+  try {
+    const action = z.enum(['pause', 'resume', 'skip', 'end']).parse(req.params.action);
+    const userId = req.user.sub || req.user.id;
+    const template = await dbGetRecurring(req.params.id);
+    if (!template) return res.status(404).json({ error: 'Recurring bill not found' });
+    if (!(await dbIsGroupMember(template.groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+    if (template.status === 'ended') return res.status(409).json({ error: 'Recurring bill has ended' });
+
+    let updated = null;
+    if (action === 'pause') {
+      updated = await dbUpdateRecurring(template.id, { status: 'paused' });
+    } else if (action === 'end') {
+      updated = await dbUpdateRecurring(template.id, { status: 'ended' });
+    } else if (action === 'skip') {
+      updated = await dbAdvanceRecurring(template, 1);
+    } else {
+      // Occurrences that fell due while paused are skipped rather than back-filled
+      const steps = missedOccurrences(template, todayISO());
+      updated = steps > 0 ? await dbAdvanceRecurring(template, steps, { status: 'active' }) : await dbUpdateRecurring(template.id, { status: 'active' });
+    }
+    if (!updated) return res.status(409).json({ error: 'Recurring bill changed, please retry' });
+    return res.json({ template: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Unknown action' });
+    }
+    console.error('Error updating recurring bill:', error);
+    return res.status(500).json({ error: 'Failed to update recurring bill' });
+  }
+});
+
+// Exchange rates used to convert bills into the group base currency
+billSplitterRouter.get('/groups/:id/exchange-rates', async (req, res) => {
+  try {
+    const groupId = req.params.id;
+    const userId = req.user.sub || req.user.id;
+    if (!(await dbIsGroupMember(groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+    const groupCurrency = await dbGetGroupCurrency(groupId);
+    if (!groupCurrency) return res.status(404).json({ error: 'Group not found' });
+    const rates = await dbGetExchangeRates(groupId);
+    return res.json({ baseCurrency: groupCurrency.baseCurrency, rates });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return res.status(500).json({ error: 'Failed to fetch exchange rates' });
+  }
+});
+
+billSplitterRouter.put('/groups/:id/exchange-rates', async (req, res) => {
+  try {
+    const groupId = req.params.id;
+    const userId = req.user.sub || req.user.id;
+    const { rates } = exchangeRatesSchema.parse(req.body);
+    if (!(await dbIsGroupMember(groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+    const groupCurrency = await dbGetGroupCurrency(groupId);
+    if (!groupCurrency) return res.status(404).json({ error: 'Group not found' });
+    if (rates.some(r => r.currency === groupCurrency.baseCurrency)) {
+      return res.status(400).json({ error: 'The base currency always has a rate of 1' });
+    }
+    const saved = await dbUpsertExchangeRates(userId, groupId, rates);
+    return res.json({ baseCurrency: groupCurrency.baseCurrency, rates: saved });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error saving exchange rates:', error);
+    return res.status(500).json({ error: 'Failed to save exchange rates' });
+  }
+});
+
 // Get group members with user details
 billSplitterRouter.get('/groups/:id/members', async (req, res) => {
   try {
@@ -180,6 +729,27 @@ billSplitterRouter.delete('/groups/:id', async (req, res) => {
         .in('bill_id', billIds);
     }
     
+    // Delete recurring templates, exchange rates, edit history and recorded payments
+    await supabase
+      .from('bill_recurring_templates')
+      .delete()
+      .eq('group_id', groupId);
+    
+    await supabase
+      .from('bill_audit_log')
+      .delete()
+      .eq('group_id', groupId);
+    
+    await supabase
+      .from('bill_exchange_rates')
+      .delete()
+      .eq('group_id', groupId);
+    
+    await supabase
+      .from('bill_payments')
+      .delete()
+      .eq('group_id', groupId);
+    
     // Delete bills
     await supabase
       .from('bills')
@@ -241,7 +811,7 @@ billSplitterRouter.get('/bills', async (req, res) => {
         .select('amount')
         .eq('bill_id', bill.id);
       
-      const total = (items || []).reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+      const { subtotal, chargesTotal, total } = summarizeBillTotals(items || [], Array.isArray(bill.charges) ? bill.charges : []);
       
       return {
         id: bill.id,
@@ -250,6 +820,8 @@ billSplitterRouter.get('/bills', async (req, res) => {
         currency: bill.currency,
         createdBy: bill.created_by,
         createdAt: bill.created_at,
+        subtotal,
+        chargesTotal,
         total,
         itemCount: items?.length || 0
       };
@@ -318,7 +890,7 @@ billSplitterRouter.post('/bills', async (req, res) => {
   try {
     const data = createBillSchema.parse(req.body);
     const userId = req.user.sub || req.user.id;
-    const bill = await dbCreateBill(userId, data.groupId, data.title, data.currency);
+    const bill = await dbCreateBill(userId, data.groupId, data.title, data.currency, data.charges);
     return res.status(201).json({ bill });
   } catch (error) {
     res.status(400).json({ error: error.message });
@@ -332,17 +904,353 @@ billSplitterRouter.get('/bills/:id', async (req, res) => {
   return res.json(result);
 });
 
+// Replace the tax/tip/service charges of a bill
+billSplitterRouter.put('/bills/:id/charges', async (req, res) => {
+  try {
+    const { charges } = billChargesSchema.parse(req.body);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!(await dbIsGroupMember(result.bill.groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    await dbUpdateBillCharges(req.params.id, charges);
+    await dbWriteAudit({
+      groupId: result.bill.groupId,
+      billId: result.bill.id,
+      action: 'bill.charges',
+      actorId: userId,
+      changes: diffFields({ charges: result.bill.charges }, { charges }, ['charges']),
+      before: { charges: result.bill.charges },
+      after: { charges }
+    });
+    return res.json({ bill: { ...result.bill, charges, ...summarizeBillTotals(result.items, charges) } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error updating bill charges:', error);
+    return res.status(500).json({ error: 'Failed to update bill charges' });
+  }
+});
+
 // Add item to bill
 billSplitterRouter.post('/bills/:id/items', async (req, res) => {
   try {
     const data = createItemSchema.parse({ ...req.body, billId: req.params.id });
-    const item = await dbAddItem(data.billId, data.description, data.amount, data.payerId, data.splits);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(data.billId);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!result.memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    if (![data.payerId, ...data.split.participants.map(p => p.userId)].every(uid => result.memberIds.includes(uid))) {
+      return res.status(400).json({ error: 'Payer and participants must be group members' });
+    }
+    const item = await dbAddItem(userId, data.billId, data.description, data.amount, data.payerId, data.split, data.splits);
+    await dbWriteAudit({ groupId: result.bill.groupId, billId: data.billId, itemId: item.id, action: 'item.create', actorId: userId, after: auditItemSnapshot(item) });
     return res.status(201).json({ item });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
     res.status(400).json({ error: error.message });
   }
 });
 
+// Parse pasted receipt text or a CSV into draft items for review; nothing is saved yet
+billSplitterRouter.post('/bills/:id/import/preview', async (req, res) => {
+  try {
+    const { format, content } = receiptPreviewSchema.parse(req.body);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!(await dbIsGroupMember(result.bill.groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const parsed = format === 'csv' ? parseReceiptCsv(content) : parseReceiptText(content);
+    const members = await dbListGroupMemberUsers(result.bill.groupId);
+    const lines = parsed.lines.map(line => ({ ...line, ...matchReceiptAssignees(line.assignees, members) }));
+    const itemsTotal = roundCents(lines.reduce((acc, line) => acc + line.amount, 0));
+    return res.json({ format, lines, skipped: parsed.skipped, itemsTotal, receiptTotal: parsed.receiptTotal });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error parsing receipt:', error);
+    return res.status(500).json({ error: 'Failed to parse receipt' });
+  }
+});
+
+// Commit reviewed receipt lines as bill items
+billSplitterRouter.post('/bills/:id/import', async (req, res) => {
+  try {
+    const { items: drafts } = receiptImportSchema.parse(req.body);
+    const items = drafts.map((draft, index) => {
+      const parsed = createItemSchema.safeParse({ ...draft, billId: req.params.id });
+      if (!parsed.success) {
+        const issue = parsed.error.errors?.[0];
+        throw new z.ZodError([{ ...issue, message: `Line ${index + 1}: ${issue?.message || 'Invalid item'}` }]);
+      }
+      return parsed.data;
+    });
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    const members = await dbListGroupMemberUsers(result.bill.groupId);
+    const memberIds = new Set(members.map(m => m.id));
+    if (!memberIds.has(userId)) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+    const outsider = items.find(item => !memberIds.has(item.payerId) || item.split.participants.some(p => !memberIds.has(p.userId)));
+    if (outsider) {
+      return res.status(400).json({ error: `"${outsider.description}" includes someone who is not in this group` });
+    }
+
+    const created = await dbAddItems(userId, req.params.id, items);
+    for (const item of created) {
+      await dbWriteAudit({ groupId: result.bill.groupId, billId: item.billId, itemId: item.id, action: 'item.create', actorId: userId, after: auditItemSnapshot(item) });
+    }
+    return res.status(201).json({ items: created });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error importing receipt items:', error);
+    return res.status(500).json({ error: 'Failed to import receipt items' });
+  }
+});
+
+// Rename a bill (creator or anyone who paid for an item on it)
+billSplitterRouter.put('/bills/:id', async (req, res) => {
+  try {
+    const { title } = updateBillSchema.parse(req.body);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!result.memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    if (!canModifyBill(result.bill, result.items, userId)) {
+      return res.status(403).json({ error: 'Only the bill creator or a payer can edit this bill' });
+    }
+
+    await dbUpdateBillTitle(result.bill.id, title);
+    await dbWriteAudit({
+      groupId: result.bill.groupId,
+      billId: result.bill.id,
+      action: 'bill.update',
+      actorId: userId,
+      changes: diffFields({ title: result.bill.title }, { title }, ['title']),
+      before: { title: result.bill.title },
+      after: { title }
+    });
+    return res.json({ bill: { ...result.bill, title } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error updating bill:', error);
+    return res.status(500).json({ error: 'Failed to update bill' });
+  }
+});
+
+// Delete a bill and its items
+billSplitterRouter.delete('/bills/:id', async (req, res) => {
+  try {
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!result.memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    if (!canModifyBill(result.bill, result.items, userId)) {
+      return res.status(403).json({ error: 'Only the bill creator or a payer can delete this bill' });
+    }
+
+    await dbDeleteBill(result.bill.id);
+    await dbWriteAudit({
+      groupId: result.bill.groupId,
+      billId: result.bill.id,
+      action: 'bill.delete',
+      actorId: userId,
+      before: { title: result.bill.title, currency: result.bill.currency, charges: result.bill.charges, items: result.items.map(auditItemSnapshot) }
+    });
+    return res.json({ success: true, message: 'Bill deleted' });
+  } catch (error) {
+    console.error('Error deleting bill:', error);
+    return res.status(500).json({ error: 'Failed to delete bill' });
+  }
+});
+
+// Edit an item; the stored split definition is re-applied when only the amount changes
+billSplitterRouter.put('/bills/:id/items/:itemId', async (req, res) => {
+  try {
+    const data = updateItemSchema.parse(req.body);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!result.memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    const existing = result.items.find(i => i.id === req.params.itemId);
+    if (!existing) return res.status(404).json({ error: 'Item not found' });
+    if (!canModifyItem(result.bill, existing, userId)) {
+      return res.status(403).json({ error: 'Only the item creator or payer can edit this item' });
+    }
+
+    const amount = data.amount ?? existing.amount;
+    const split = data.split || { method: existing.splitMethod, participants: existing.splitDefinition };
+    const problem = validateSplitDefinition(amount, split);
+    if (problem) return res.status(400).json({ error: problem });
+    const payerId = data.payerId ?? existing.payerId;
+    if (![payerId, ...split.participants.map(p => p.userId)].every(uid => result.memberIds.includes(uid))) {
+      return res.status(400).json({ error: 'Payer and participants must be group members' });
+    }
+
+    const updated = {
+      ...existing,
+      description: data.description ?? existing.description,
+      amount,
+      payerId,
+      splitMethod: split.method,
+      splitDefinition: split.participants,
+      splits: computeSplits(amount, split)
+    };
+    const before = auditItemSnapshot(existing);
+    const after = auditItemSnapshot(updated);
+    const changes = diffFields(before, after, AUDITED_ITEM_FIELDS);
+    if (changes.length === 0) return res.json({ item: existing });
+
+    await dbUpdateItem(existing.id, updated);
+    await dbWriteAudit({ groupId: result.bill.groupId, billId: result.bill.id, itemId: existing.id, action: 'item.update', actorId: userId, changes, before, after });
+    return res.json({ item: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error updating item:', error);
+    return res.status(500).json({ error: 'Failed to update item' });
+  }
+});
+
+billSplitterRouter.delete('/bills/:id/items/:itemId', async (req, res) => {
+  try {
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!result.memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    const existing = result.items.find(i => i.id === req.params.itemId);
+    if (!existing) return res.status(404).json({ error: 'Item not found' });
+    if (!canModifyItem(result.bill, existing, userId)) {
+      return res.status(403).json({ error: 'Only the item creator or payer can delete this item' });
+    }
+
+    await dbDeleteItem(existing.id);
+    await dbWriteAudit({ groupId: result.bill.groupId, billId: result.bill.id, itemId: existing.id, action: 'item.delete', actorId: userId, before: auditItemSnapshot(existing) });
+    return res.json({ success: true, message: 'Item deleted' });
+  } catch (error) {
+    console.error('Error deleting item:', error);
+    return res.status(500).json({ error: 'Failed to delete item' });
+  }
+});
+
+// Change history for a bill, optionally narrowed to one item
+billSplitterRouter.get('/bills/:id/audit', async (req, res) => {
+  try {
+    const userId = req.user.sub || req.user.id;
+    const supabase = getSupabase();
+    // The bill may already be deleted, so resolve the group from the log itself when needed
+    const result = await dbGetBill(req.params.id);
+    let groupId = result?.bill.groupId;
+    if (!groupId) {
+      const { data } = await supabase.from('bill_audit_log').select('group_id').eq('bill_id', req.params.id).limit(1);
+      groupId = data?.[0]?.group_id;
+    }
+    if (!groupId) return res.status(404).json({ error: 'Bill not found' });
+    if (!(await dbIsGroupMember(groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const itemId = req.query.itemId ? String(req.query.itemId) : undefined;
+    const entries = await dbListAudit(req.params.id, itemId);
+    return res.json({ entries });
+  } catch (error) {
+    console.error('Error fetching bill history:', error);
+    return res.status(500).json({ error: 'Failed to fetch bill history' });
+  }
+});
+
+// Record a settlement payment between two group members
+billSplitterRouter.post('/payments', async (req, res) => {
+  try {
+    const data = createPaymentSchema.parse(req.body);
+    const userId = req.user.sub || req.user.id;
+
+    const groupResult = await dbGetGroup(data.groupId);
+    if (!groupResult) return res.status(404).json({ error: 'Group not found' });
+    const { memberIds } = groupResult.group;
+    if (!memberIds.includes(userId)) return res.status(403).json({ error: 'Not a member of this group' });
+    if (!memberIds.includes(data.fromUserId) || !memberIds.includes(data.toUserId)) {
+      return res.status(400).json({ error: 'Payer and recipient must be group members' });
+    }
+    if (data.billId && !groupResult.bills.some(b => b.id === data.billId)) {
+      return res.status(400).json({ error: 'Bill does not belong to this group' });
+    }
+
+    const payment = await dbCreatePayment(userId, data);
+    return res.status(201).json({ payment });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error recording payment:', error);
+    return res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
+
+// List payments for a group or bill (voided payments included for history)
+billSplitterRouter.get('/payments', async (req, res) => {
+  try {
+    const schema = z.object({ groupId: z.string().min(1).optional(), billId: z.string().min(1).optional() })
+      .refine(q => q.groupId || q.billId, { message: 'groupId or billId is required' });
+    const { groupId, billId } = schema.parse(req.query);
+    const userId = req.user.sub || req.user.id;
+
+    let scopeGroupId = groupId;
+    if (!scopeGroupId) {
+      const bill = await dbGetBill(billId);
+      if (!bill) return res.status(404).json({ error: 'Bill not found' });
+      scopeGroupId = bill.bill.groupId;
+    }
+    if (!(await dbIsGroupMember(scopeGroupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const payments = await dbListPayments({ groupId: scopeGroupId, billId, includeVoided: true });
+    return res.json({ payments: payments.reverse() });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error fetching payments:', error);
+    return res.status(500).json({ error: 'Failed to fetch payments' });
+  }
+});
+
+// Void a recorded payment; the record is kept so the history stays intact
+billSplitterRouter.post('/payments/:id/void', async (req, res) => {
+  try {
+    const userId = req.user.sub || req.user.id;
+    const payment = await dbGetPayment(req.params.id);
+    if (!payment) return res.status(404).json({ error: 'Payment not found' });
+    if (payment.voidedAt) return res.status(409).json({ error: 'Payment already voided' });
+    if (!(await dbIsGroupMember(payment.groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const voided = await dbVoidPayment(payment.id, userId);
+    return res.json({ payment: { ...payment, ...voided } });
+  } catch (error) {
+    console.error('Error voiding payment:', error);
+    return res.status(500).json({ error: 'Failed to void payment' });
+  }
+});
+
 // NEW: Calculate settlements for a bill
 billSplitterRouter.post('/settlements', async (req, res) => {
   try {
@@ -353,54 +1261,154 @@ billSplitterRouter.post('/settlements', async (req, res) => {
     if (!result) return res.status(404).json({ error: 'Bill not found' });
 
     const items = Array.isArray(result.items) ? result.items : [];
+    const payments = await dbListPayments({ billId });
 
-    // Compute per-user balances: positive means they should receive money
-    const balanceMap = new Map();
+    const { chargeItems, settlements, transactions } = computeBillSettlements(result.bill, items, payments);
 
-    for (const item of items) {
-      const amount = Number(item.amount) || 0;
-      const payerId = item.payerId;
-      if (payerId) {
-        balanceMap.set(payerId, (balanceMap.get(payerId) || 0) + amount);
-      }
+    return res.json({
+      currency: result.bill.baseCurrency,
+      original: { currency: result.bill.currency, exchangeRate: result.bill.exchangeRate, total: roundCents(result.bill.total) },
+      breakdown: { currency: result.bill.currency, people: buildChargeBreakdown(items, chargeItems) },
+      settlements,
+      transactions
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
+    }
+    console.error('Error calculating settlements:', error);
+    return res.status(500).json({ error: 'Failed to calculate settlements' });
+  }
+});
 
-      const splits = Array.isArray(item.splits) ? item.splits : [];
-      for (const split of splits) {
-        const uid = split.userId;
-        const share = Number(split.amount) || 0;
-        balanceMap.set(uid, (balanceMap.get(uid) || 0) - share);
-      }
+// Per-person settle-up statement for one bill, as CSV or a printable HTML page
+billSplitterRouter.get('/bills/:id/export', async (req, res) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+    const userId = req.user.sub || req.user.id;
+    const result = await dbGetBill(req.params.id);
+    if (!result) return res.status(404).json({ error: 'Bill not found' });
+    if (!(await dbIsGroupMember(result.bill.groupId, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
+
+    const [members, payments] = await Promise.all([dbListGroupMemberUsers(result.bill.groupId), dbListPayments({ billId: result.bill.id })]);
+    const statement = buildSettleUpStatement({ title: result.bill.title, currency: result.bill.baseCurrency, bills: [result.bill], items: result.items, payments, members });
+    return sendSettleUpExport(res, format, statement);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
     }
+    console.error('Error exporting bill:', error);
+    return res.status(500).json({ error: 'Failed to export bill' });
+  }
+});
 
-    const settlements = Array.from(balanceMap.entries()).map(([userId, balance]) => ({ userId, balance: Math.round(balance * 100) / 100 }));
-    const transactions = calculateOptimalTransactions(settlements.map(s => ({ ...s })));
+// Settle-up statement across every bill and payment in a group
+billSplitterRouter.get('/groups/:id/export', async (req, res) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+    const userId = req.user.sub || req.user.id;
+    if (!(await dbIsGroupMember(req.params.id, userId))) {
+      return res.status(403).json({ error: 'Not a member of this group' });
+    }
 
-    return res.json({ settlements, transactions });
+    const data = await dbGetGroupLedgerData(req.params.id);
+    if (!data) return res.status(404).json({ error: 'Group not found' });
+    const members = await dbListGroupMemberUsers(req.params.id);
+    const statement = buildSettleUpStatement({ title: data.group.name, currency: data.group.baseCurrency, bills: data.bills, items: data.items, payments: data.payments, members });
+    return sendSettleUpExport(res, format, statement);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors?.[0]?.message || 'Invalid request' });
     }
-    console.error('Error calculating settlements:', error);
-    return res.status(500).json({ error: 'Failed to calculate settlements' });
+    console.error('Error exporting group:', error);
+    return res.status(500).json({ error: 'Failed to export group' });
   }
 });
 
-function calculateOptimalTransactions(settlements) {
-  const transactions = [];
-  const creditors = settlements.filter(s => s.balance > 0).sort((a, b) => b.balance - a.balance);
-  const debtors = settlements.filter(s => s.balance < 0).sort((a, b) => a.balance - b.balance);
-  let i = 0, j = 0;
-  while (i < creditors.length && j < debtors.length) {
-    const creditor = creditors[i];
-    const debtor = debtors[j];
-    const amount = Math.min(creditor.balance, -debtor.balance);
-    if (amount > 0.01) { transactions.push({ from: debtor.userId, to: creditor.userId, amount: Math.round(amount * 100) / 100 }); }
-    creditor.balance -= amount;
-    debtor.balance += amount;
-    if (creditor.balance < 0.01) i++;
-    if (debtor.balance > -0.01) j++;
+function todayISO() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// A half-created bill is removed again so retrying the occurrence doesn't leave a duplicate
+async function materializeRecurringBill(template, dueOn) {
+  const bill = await dbCreateBill(template.createdBy, template.groupId, `${template.title} (${dueOn})`, template.currency || undefined, [], { recurring_template_id: template.id, due_on: dueOn });
+  try {
+    const item = await dbAddItem(template.createdBy, bill.id, template.description, template.amount, template.payerId, template.split, computeSplits(template.amount, template.split));
+    await dbWriteAudit({ groupId: template.groupId, billId: bill.id, itemId: item.id, action: 'item.create', actorId: template.createdBy, after: auditItemSnapshot(item) });
+  } catch (err) {
+    await dbDeleteBill(bill.id).catch(cleanupErr => console.error(`Could not remove bill ${bill.id}:`, cleanupErr?.message || cleanupErr));
+    throw err;
   }
-  return transactions;
+  return bill;
+}
+
+// Create the bills of every active template that is due, catching up on missed runs. Each
+// occurrence is claimed before its bill is created and released again if creating it fails.
+async function materializeDueRecurringBills(today = todayISO()) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('bill_recurring_templates').select('*').eq('status', 'active').lte('next_run_on', today);
+  if (error) throw error;
+
+  let created = 0;
+  for (const row of data || []) {
+    let template = mapRecurringRow(row);
+    for (const dueOn of dueRunDates(template, today)) {
+      const claimed = await dbAdvanceRecurring(template, 1, { last_run_at: new Date().toISOString() });
+      if (!claimed) break;
+      try {
+        const bill = await materializeRecurringBill(template, dueOn);
+        template = (await dbUpdateRecurring(template.id, { last_bill_id: bill.id, last_error: null })) || claimed;
+        created++;
+      } catch (err) {
+        console.error(`Recurring bill ${template.id} failed for ${dueOn}:`, err?.message || err);
+        await dbReleaseRecurring(template, claimed, { last_error: String(err?.message || err) });
+        break;
+      }
+    }
+  }
+  return created;
+}
+
+export function startRecurringBillScheduler(intervalMs = Number(process.env.RECURRING_BILLS_INTERVAL_MS) || 60 * 60 * 1000) {
+  const run = () => materializeDueRecurringBills()
+    .then(count => { if (count > 0) console.log(`🔁 Created ${count} recurring bill(s)`); })
+    .catch(err => console.error('Recurring bill run failed:', err?.message || err));
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+function mapBillRow(row, groupCurrency) {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    title: row.title,
+    currency: row.currency,
+    baseCurrency: row.base_currency || groupCurrency.baseCurrency,
+    exchangeRate: billExchangeRate(row, groupCurrency),
+    charges: Array.isArray(row.charges) ? row.charges : [],
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+function sendSettleUpExport(res, format, statement) {
+  const filename = settleUpFilename(statement, format);
+  if (format === 'html') {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.send(settleUpStatementToHtml(statement));
+  }
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(settleUpStatementToCsv(statement));
+}
+
+function mapItemRow(row, group) {
+  return normalizeBillItem({ id: row.id, billId: row.bill_id, description: row.description, amount: Number(row.amount), payerId: row.payer_id, splitMethod: row.split_method, splitDefinition: row.split_definition, splits: row.splits, createdBy: row.created_by, createdAt: row.created_at }, group);
 }
 
 function normalizeBillItem(rawItem, group) {
@@ -408,10 +1416,18 @@ function normalizeBillItem(rawItem, group) {
   const description = rawItem.description ?? rawItem.name ?? 'Item';
   const payerId = rawItem.payerId ?? rawItem.paidBy ?? (group?.memberIds?.[0] || 'unknown');
   let splits = rawItem.splits;
+  let splitMethod = rawItem.splitMethod;
+  let splitDefinition = rawItem.splitDefinition;
   if (!Array.isArray(splits)) {
     const participants = Array.isArray(rawItem.sharedBy) && rawItem.sharedBy.length > 0 ? rawItem.sharedBy : (Array.isArray(group?.memberIds) ? group.memberIds : []);
-    const perPerson = participants.length > 0 ? Math.round((amount / participants.length) * 100) / 100 : 0;
-    splits = participants.map(userId => ({ userId, amount: perPerson }));
+    splitMethod = 'equal';
+    splitDefinition = participants.map(userId => ({ userId }));
+    splits = participants.length > 0 ? computeSplits(amount, { method: 'equal', participants: splitDefinition }) : [];
+  }
+  // Items saved before split definitions were stored are treated as exact amounts
+  if (!splitMethod || !Array.isArray(splitDefinition)) {
+    splitMethod = 'exact';
+    splitDefinition = splits.map(s => ({ userId: s.userId, value: Number(s.amount) || 0 }));
   }
-  return { id: rawItem.id, billId: rawItem.billId, description, amount, payerId, splits, createdAt: rawItem.createdAt };
+  return { id: rawItem.id, billId: rawItem.billId, description, amount, payerId, splitMethod, splitDefinition, splits, createdBy: rawItem.createdBy || null, createdAt: rawItem.createdAt };
 } 
\ No newline at end of file
@@ -1,12 +1,107 @@
 import express from 'express';
+import multer from 'multer';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { requireAuth } from '../middleware/auth.js';
 import { getSupabase } from '../services/supabase-client.js';
+import { forecastBudget } from '../services/budget-forecast.js';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  alertLevel,
+  crossedThresholds,
+  isCountedExpense,
+  needsApproval,
+  normalizeThresholds,
+  thresholdNotifications,
+  thresholdsOf
+} from '../services/budget-alerts.js';
+import { buildBudgetExport, budgetExportToCsv } from '../services/budget-export.js';
+import { cloneCategories, compareBudgets, nextPeriod, periodLabel, samePeriod, shiftPeriod } from '../services/budget-periods.js';
+import { RECEIPT_MAX_BYTES, RECEIPT_MAX_FILES, createReceiptStore, createThumbnail, validateReceipt } from '../services/receipt-store.js';
 
 export const budgetRouter = express.Router();
 
 budgetRouter.use(requireAuth);
 
+const receiptStore = createReceiptStore();
+const receiptUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: RECEIPT_MAX_BYTES, files: RECEIPT_MAX_FILES } }).array('receipts', RECEIPT_MAX_FILES);
+
+// Turns multer's limit errors into 4xx responses
+function acceptReceipts(req, res, next) {
+  receiptUpload(req, res, (err) => {
+    if (!err) return next();
+    if (err.code === 'LIMIT_FILE_SIZE') return res.status(413).json({ error: `Receipts must be ${RECEIPT_MAX_BYTES / 1024 / 1024} MB or smaller` });
+    if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({ error: `Upload up to ${RECEIPT_MAX_FILES} files in the "receipts" field` });
+    }
+    return res.status(400).json({ error: 'Invalid upload' });
+  });
+}
+
+// Budget creators, managers and admins can change settings and review held expenses
+function canManageBudget(req, budget) {
+  const userId = req.user.sub || req.user.id;
+  const role = req.user?.role || 'user';
+  return role === 'manager' || role === 'admin' || budget.created_by === userId;
+}
+
+// Owners receive alerts: whoever created the budget and the owner of its team
+async function budgetOwners(supabase, budget) {
+  const owners = new Set([budget.created_by]);
+  const { data: team } = await supabase.from('bill_groups').select('created_by').eq('id', budget.team_id).limit(1);
+  if (team && team[0]) owners.add(team[0].created_by);
+  return Array.from(owners).filter(Boolean);
+}
+
+// Notifications are best-effort: a failure is logged and never fails the change that caused it
+async function notify(supabase, rows) {
+  if (rows.length === 0) return;
+  const createdAt = new Date().toISOString();
+  const { error } = await supabase.from('budget_notifications').insert(rows.map(row => ({ id: uuidv4(), read: false, created_at: createdAt, ...row })));
+  if (error) console.error('Budget notification failed:', error?.message || error);
+}
+
+async function countedCategorySpend(supabase, categoryId) {
+  const { data, error } = await supabase.from('budget_expenses').select('amount, status').eq('category_id', categoryId);
+  if (error) throw error;
+  return (data || []).filter(isCountedExpense).reduce((sum, e) => sum + Number(e.amount || 0), 0);
+}
+
+// Approved spend per category across the given budgets
+async function spendByCategory(supabase, budgetIds) {
+  const { data, error } = await supabase.from('budget_expenses').select('category_id, amount, status').in('budget_id', budgetIds);
+  if (error) throw error;
+  const spent = new Map();
+  (data || []).filter(isCountedExpense).forEach(e => {
+    if (e.category_id) spent.set(e.category_id, (spent.get(e.category_id) || 0) + Number(e.amount || 0));
+  });
+  return spent;
+}
+
+const formatAmount = (budget, amount) => `${budget.currency || 'USD'} ${Number(amount).toFixed(2)}`;
+
+// Storage keys stay on the server; clients fetch files through the receipts routes
+function toReceipt(r) {
+  return { id: r.id, name: r.name, contentType: r.contentType, size: r.size, hasThumbnail: Boolean(r.thumbnailKey), uploadedBy: r.uploadedBy, uploadedAt: r.uploadedAt };
+}
+
+function toExpense(e) {
+  return {
+    id: e.id,
+    budgetId: e.budget_id,
+    categoryId: e.category_id,
+    amount: Number(e.amount || 0),
+    description: e.description,
+    date: e.date,
+    createdBy: e.created_by,
+    receipts: (e.receipts || []).map(toReceipt),
+    status: e.status || 'approved',
+    reviewedBy: e.reviewed_by || undefined,
+    reviewedAt: e.reviewed_at || undefined,
+    reviewNote: e.review_note || undefined
+  };
+}
+
 // Ensure user has at least one team (mapped to bill_groups) and a demo budget
 budgetRouter.post('/debug/ensure-access', async (req, res) => {
   try {
@@ -107,8 +202,8 @@ budgetRouter.get('/', async (req, res) => {
       const { data: catAgg } = await supabase.from('budget_categories').select('budget_id, limit').in('budget_id', budgetIds);
       (catAgg || []).forEach(r => sumLimits.set(r.budget_id, (sumLimits.get(r.budget_id) || 0) + Number(r.limit || 0)));
 
-      const { data: expAgg } = await supabase.from('budget_expenses').select('budget_id, amount').in('budget_id', budgetIds);
-      (expAgg || []).forEach(r => sumSpent.set(r.budget_id, (sumSpent.get(r.budget_id) || 0) + Number(r.amount || 0)));
+      const { data: expAgg } = await supabase.from('budget_expenses').select('budget_id, amount, status').in('budget_id', budgetIds);
+      (expAgg || []).filter(isCountedExpense).forEach(r => sumSpent.set(r.budget_id, (sumSpent.get(r.budget_id) || 0) + Number(r.amount || 0)));
 
       const { data: groups } = await supabase.from('bill_groups').select('id,name').in('id', (budgets || []).map(b => b.team_id));
       (groups || []).forEach(g => teamNames.set(g.id, g.name));
@@ -172,13 +267,18 @@ budgetRouter.get('/budgets/:id', async (req, res) => {
     const supabase = getSupabase();
     const budgetId = req.params.id;
 
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', budgetId).single();
     const { data: cats } = await supabase.from('budget_categories').select('*').eq('budget_id', budgetId);
     const { data: exps } = await supabase.from('budget_expenses').select('*').eq('budget_id', budgetId).order('date', { ascending: false }).limit(50);
+    const { data: pending } = await supabase.from('budget_expenses').select('*').eq('budget_id', budgetId).eq('status', 'pending').order('created_at', { ascending: true });
+    // Spend and alert levels cover every expense, not just the recent ones listed
+    const { data: amounts, error: aErr } = await supabase.from('budget_expenses').select('category_id, amount, status').eq('budget_id', budgetId);
+    if (aErr) throw aErr;
 
-    // Aggregate spend per category and budget
+    // Aggregate spend per category and budget; held and rejected expenses do not count
     const spentByCat = new Map();
     let totalSpent = 0;
-    (exps || []).forEach(e => {
+    (amounts || []).filter(isCountedExpense).forEach(e => {
       totalSpent += Number(e.amount || 0);
       if (e.category_id) spentByCat.set(e.category_id, (spentByCat.get(e.category_id) || 0) + Number(e.amount || 0));
     });
@@ -189,73 +289,564 @@ budgetRouter.get('/budgets/:id', async (req, res) => {
       totalLimit += limit;
       const spent = Number(spentByCat.get(c.id) || 0);
       const utilization = limit > 0 ? (spent / limit) * 100 : 0;
-      return { id: c.id, budgetId: c.budget_id, name: c.name, limit, spent, utilization, remaining: limit - spent };
+      const alertThresholds = thresholdsOf(c);
+      return { id: c.id, budgetId: c.budget_id, name: c.name, limit, spent, utilization, remaining: limit - spent, rolledOver: Number(c.rolled_over || 0), alertThresholds, alertLevel: alertLevel({ limit, spent, thresholds: alertThresholds }) };
     });
 
-    const recentExpenses = (exps || []).map(e => ({ id: e.id, budgetId: e.budget_id, categoryId: e.category_id, amount: Number(e.amount || 0), description: e.description, date: e.date, createdBy: e.created_by, receipts: e.receipts || [] }));
-
-    const summary = { totalLimit, totalSpent, utilization: totalLimit > 0 ? (totalSpent / totalLimit) * 100 : 0, categoriesOverBudget: categories.filter(c => c.spent > c.limit).length };
-
-    return res.json({ categories, recentExpenses, summary });
+    const recentExpenses = (exps || []).map(toExpense);
+    const pendingExpenses = (pending || []).map(toExpense);
+
+    const summary = {
+      totalLimit,
+      totalSpent,
+      utilization: totalLimit > 0 ? (totalSpent / totalLimit) * 100 : 0,
+      categoriesOverBudget: categories.filter(c => c.spent > c.limit).length,
+      categoriesOverThreshold: categories.filter(c => c.alertLevel !== null).length,
+      pendingCount: pendingExpenses.length
+    };
+
+    return res.json({
+      categories,
+      recentExpenses,
+      pendingExpenses,
+      summary,
+      approvalRequired: Boolean(budget?.approval_required),
+      canManage: budget ? canManageBudget(req, budget) : false
+    });
   } catch (e) {
     console.error('Budget details failed:', e?.message || e);
     return res.status(500).json({ error: 'Failed to fetch budget details' });
   }
 });
 
-// Add category
+// Forecast end-of-period spend per category from the whole expense history (optional ?asOf=YYYY-MM-DD)
+budgetRouter.get('/budgets/:id/forecast', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const budgetId = req.params.id;
+    const asOf = req.query.asOf ? String(req.query.asOf) : null;
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) return res.status(400).json({ error: 'asOf must be a date (YYYY-MM-DD)' });
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', budgetId).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    const { data: cats, error: cErr } = await supabase.from('budget_categories').select('*').eq('budget_id', budgetId);
+    if (cErr) throw cErr;
+    const { data: exps, error: eErr } = await supabase.from('budget_expenses').select('category_id, amount, date, status').eq('budget_id', budgetId);
+    if (eErr) throw eErr;
+
+    const forecast = forecastBudget({ budget, categories: cats || [], expenses: (exps || []).filter(isCountedExpense), asOf: asOf || new Date() });
+    return res.json({ forecast });
+  } catch (e) {
+    console.error('Budget forecast failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to forecast budget' });
+  }
+});
+
+// Update budget settings (approvalRequired holds expenses that would take a category over its limit)
+budgetRouter.patch('/budgets/:id', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const { approvalRequired } = req.body || {};
+    if (typeof approvalRequired !== 'boolean') return res.status(400).json({ error: 'approvalRequired must be true or false' });
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', req.params.id).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    if (!canManageBudget(req, budget)) return res.status(403).json({ error: 'Only budget managers can change settings' });
+
+    const { error } = await supabase.from('budgets').update({ approval_required: approvalRequired }).eq('id', budget.id);
+    if (error) throw error;
+    return res.json({ approvalRequired });
+  } catch (e) {
+    console.error('Budget settings update failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to update budget' });
+  }
+});
+
+// Clone a budget into the next period with its categories and alert settings.
+// rolloverCategoryIds lists the categories whose unspent amount is added to their new limit.
+budgetRouter.post('/budgets/:id/clone', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const { rolloverCategoryIds, name } = req.body || {};
+    if (rolloverCategoryIds !== undefined && !Array.isArray(rolloverCategoryIds)) return res.status(400).json({ error: 'rolloverCategoryIds must be a list' });
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', req.params.id).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    if (!canManageBudget(req, budget)) return res.status(403).json({ error: 'Only budget managers can clone budgets' });
+
+    // One budget per team and period
+    const target = nextPeriod(budget);
+    let existingSel = supabase.from('budgets').select('id').eq('team_id', budget.team_id).eq('period', target.period).eq('year', target.year);
+    if (target.period === 'month') existingSel = existingSel.eq('month', target.month);
+    if (target.period === 'quarter') existingSel = existingSel.eq('quarter', target.quarter);
+    const { data: existing } = await existingSel.limit(1);
+    if (existing && existing.length > 0) {
+      return res.status(409).json({ error: `A budget for ${periodLabel(target)} already exists`, budgetId: existing[0].id });
+    }
+
+    const { data: cats, error: cErr } = await supabase.from('budget_categories').select('*').eq('budget_id', budget.id);
+    if (cErr) throw cErr;
+    const spent = await spendByCategory(supabase, [budget.id]);
+    const cloned = cloneCategories({ categories: cats || [], spentByCategory: spent, rolloverIds: (rolloverCategoryIds || []).map(String) });
+
+    // "Team Budget 2026-04" becomes "Team Budget 2026-05"; other names get the new period appended
+    const sourceLabel = periodLabel(budget);
+    const newName = (typeof name === 'string' && name.trim())
+      || (budget.name.includes(sourceLabel) ? budget.name.replace(sourceLabel, periodLabel(target)) : `${budget.name} (${periodLabel(target)})`);
+
+    const id = uuidv4();
+    const { error } = await supabase.from('budgets').insert({
+      id,
+      team_id: budget.team_id,
+      name: newName,
+      period: target.period,
+      year: target.year,
+      month: target.month,
+      quarter: target.quarter,
+      currency: budget.currency || 'USD',
+      created_by: userId,
+      approval_required: Boolean(budget.approval_required),
+      source_budget_id: budget.id
+    });
+    if (error) throw error;
+
+    const rows = cloned.map(c => ({
+      id: uuidv4(),
+      budget_id: id,
+      name: c.name,
+      limit: c.limit,
+      alert_thresholds: normalizeThresholds(c.alertThresholds) || DEFAULT_ALERT_THRESHOLDS,
+      rolled_over: c.rolledOver
+    }));
+    if (rows.length > 0) {
+      const { error: insErr } = await supabase.from('budget_categories').insert(rows);
+      if (insErr) throw insErr;
+    }
+
+    const totalLimit = rows.reduce((sum, c) => sum + c.limit, 0);
+    return res.status(201).json({
+      budget: { id, teamId: budget.team_id, teamName: undefined, name: newName, period: target.period, year: target.year, month: target.month || undefined, quarter: target.quarter || undefined, currency: budget.currency || 'USD', totalLimit, totalSpent: 0, createdAt: new Date().toISOString() },
+      categories: rows.map(c => ({ id: c.id, name: c.name, limit: c.limit, rolledOver: c.rolled_over }))
+    });
+  } catch (e) {
+    console.error('Budget clone failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to clone budget' });
+  }
+});
+
+// Compare a budget with earlier periods of its team, category by category (categories match by name).
+// mode=previous lines up the preceding periods (month over month); mode=last_year the same period in
+// earlier years. count is the number of periods including this one (2-12, default 2).
+budgetRouter.get('/budgets/:id/compare', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const mode = req.query.mode === 'last_year' ? 'last_year' : 'previous';
+    const count = Math.min(Math.max(Number(req.query.count) || 2, 2), 12);
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', req.params.id).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+
+    const perYear = { month: 12, quarter: 4, year: 1 }[budget.period] || 1;
+    const step = mode === 'last_year' ? perYear : 1;
+    const wanted = Array.from({ length: count - 1 }, (_, i) => shiftPeriod(budget, -(i + 1) * step));
+    const years = Array.from(new Set(wanted.map(p => p.year)));
+    const { data: candidates, error: bErr } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('team_id', budget.team_id)
+      .eq('period', budget.period)
+      .in('year', years)
+      .order('created_at', { ascending: true });
+    if (bErr) throw bErr;
+    const matched = [budget, ...wanted.map(p => (candidates || []).find(c => samePeriod(c, p))).filter(Boolean)];
+
+    const ids = matched.map(b => b.id);
+    const { data: cats, error: cErr } = await supabase.from('budget_categories').select('*').in('budget_id', ids);
+    if (cErr) throw cErr;
+    const spent = await spendByCategory(supabase, ids);
+
+    const comparison = compareBudgets(matched.map(b => ({
+      budget: b,
+      categories: (cats || []).filter(c => c.budget_id === b.id),
+      spentByCategory: spent
+    })));
+    return res.json({ mode, comparison });
+  } catch (e) {
+    console.error('Budget comparison failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to compare budgets' });
+  }
+});
+
+// Add category (alertThresholds defaults to 75/90/100% of the limit)
 budgetRouter.post('/budgets/:id/categories', async (req, res) => {
   try {
     const supabase = getSupabase();
     const budgetId = req.params.id;
-    const { name, limit } = req.body || {};
+    const { name, limit, alertThresholds } = req.body || {};
+    const thresholds = alertThresholds === undefined ? DEFAULT_ALERT_THRESHOLDS : normalizeThresholds(alertThresholds);
+    if (!thresholds) return res.status(400).json({ error: 'alertThresholds must be whole percentages between 1 and 1000' });
     const id = uuidv4();
-    const { error } = await supabase.from('budget_categories').insert({ id, budget_id: budgetId, name, limit });
+    const { error } = await supabase.from('budget_categories').insert({ id, budget_id: budgetId, name, limit, alert_thresholds: thresholds });
     if (error) throw error;
-    return res.status(201).json({ category: { id, budgetId, name, limit: Number(limit || 0) } });
+    return res.status(201).json({ category: { id, budgetId, name, limit: Number(limit || 0), alertThresholds: thresholds, alertLevel: null } });
   } catch (e) {
     return res.status(400).json({ error: 'Failed to add category' });
   }
 });
 
-// Add expense
+// Change a category's alert thresholds
+budgetRouter.patch('/budgets/:id/categories/:categoryId', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const thresholds = normalizeThresholds(req.body?.alertThresholds);
+    if (!thresholds) return res.status(400).json({ error: 'alertThresholds must be whole percentages between 1 and 1000' });
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', req.params.id).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    if (!canManageBudget(req, budget)) return res.status(403).json({ error: 'Only budget managers can change alerts' });
+
+    const { data: updated, error } = await supabase
+      .from('budget_categories')
+      .update({ alert_thresholds: thresholds })
+      .eq('id', req.params.categoryId)
+      .eq('budget_id', budget.id)
+      .select('id');
+    if (error) throw error;
+    if (!updated || updated.length === 0) return res.status(404).json({ error: 'Category not found' });
+    return res.json({ categoryId: req.params.categoryId, alertThresholds: thresholds });
+  } catch (e) {
+    console.error('Category update failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to update category' });
+  }
+});
+
+// Add expense. When the budget requires approval, an expense that would take its category over the
+// limit is stored as pending (202) until a manager reviews it; managers' own expenses are not held.
 budgetRouter.post('/budgets/:id/expenses', async (req, res) => {
   try {
     const supabase = getSupabase();
     const budgetId = req.params.id;
     const userId = req.user.sub || req.user.id;
     const { categoryId, amount, description, date } = req.body || {};
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', budgetId).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    let category = null;
+    if (categoryId) {
+      const { data } = await supabase.from('budget_categories').select('*').eq('id', categoryId).eq('budget_id', budgetId).single();
+      if (!data) return res.status(400).json({ error: 'Unknown category' });
+      category = data;
+    }
+
+    const value = Number(amount || 0);
+    const limit = Number(category?.limit || 0);
+    const spent = category ? await countedCategorySpend(supabase, category.id) : 0;
+    const held = Boolean(category) && !canManageBudget(req, budget) && needsApproval({ approvalRequired: budget.approval_required, limit, spent, amount: value });
+
     const id = uuidv4();
-    const row = { id, budget_id: budgetId, category_id: categoryId, amount, description, date, created_by: userId, receipts: [] };
+    const row = { id, budget_id: budgetId, category_id: categoryId, amount, description, date, created_by: userId, receipts: [], status: held ? 'pending' : 'approved' };
     const { error } = await supabase.from('budget_expenses').insert(row);
     if (error) throw error;
-    return res.status(201).json({ expense: { id, budgetId, categoryId, amount: Number(amount || 0), description, date, createdBy: userId, receipts: [] } });
+
+    const owners = await budgetOwners(supabase, budget);
+    let alerts = [];
+    if (held) {
+      await notify(supabase, owners.map(ownerId => ({
+        budget_id: budgetId,
+        user_id: ownerId,
+        category_id: category.id,
+        expense_id: id,
+        type: 'approval_requested',
+        threshold: null,
+        message: `${req.user?.name || 'A teammate'} submitted "${description}" (${formatAmount(budget, value)}), which would take ${category.name} over its limit`
+      })));
+    } else if (category) {
+      const thresholds = thresholdsOf(category);
+      alerts = crossedThresholds({ limit, before: spent, after: spent + value, thresholds });
+      await notify(supabase, thresholdNotifications({ budget, category, crossed: alerts, spent: spent + value, recipients: owners, expenseId: id }));
+    }
+
+    return res.status(held ? 202 : 201).json({ expense: toExpense(row), alerts });
   } catch (e) {
     return res.status(400).json({ error: 'Failed to add expense' });
   }
 });
 
-// Export CSV
+// Approve or reject a pending expense. Approving counts it towards spend and may raise threshold alerts.
+budgetRouter.post('/budgets/:id/expenses/:expenseId/:decision(approve|reject)', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const approve = req.params.decision === 'approve';
+    const note = req.body?.note ? String(req.body.note).slice(0, 500) : null;
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', req.params.id).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    if (!canManageBudget(req, budget)) return res.status(403).json({ error: 'Only budget managers can review expenses' });
+    const { data: expense } = await supabase.from('budget_expenses').select('*').eq('id', req.params.expenseId).eq('budget_id', budget.id).single();
+    if (!expense) return res.status(404).json({ error: 'Expense not found' });
+    if (expense.status !== 'pending') return res.status(409).json({ error: 'Expense is not awaiting approval' });
+
+    const { data: category } = expense.category_id
+      ? await supabase.from('budget_categories').select('*').eq('id', expense.category_id).single()
+      : { data: null };
+    const spent = approve && category ? await countedCategorySpend(supabase, category.id) : 0;
+
+    // Only the first review of a pending expense wins
+    const review = { status: approve ? 'approved' : 'rejected', reviewed_by: userId, reviewed_at: new Date().toISOString(), review_note: note };
+    const { data: updated, error } = await supabase
+      .from('budget_expenses')
+      .update(review)
+      .eq('id', expense.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    if (!updated || updated.length === 0) return res.status(409).json({ error: 'Expense is not awaiting approval' });
+
+    const amount = Number(expense.amount || 0);
+    const rows = [{
+      budget_id: budget.id,
+      user_id: expense.created_by,
+      category_id: expense.category_id,
+      expense_id: expense.id,
+      type: approve ? 'expense_approved' : 'expense_rejected',
+      threshold: null,
+      message: `"${expense.description}" (${formatAmount(budget, amount)}) was ${approve ? 'approved' : 'rejected'}${note ? `: ${note}` : ''}`
+    }];
+    let alerts = [];
+    if (approve && category) {
+      alerts = crossedThresholds({ limit: Number(category.limit || 0), before: spent, after: spent + amount, thresholds: thresholdsOf(category) });
+      rows.push(...thresholdNotifications({ budget, category, crossed: alerts, spent: spent + amount, recipients: await budgetOwners(supabase, budget), expenseId: expense.id }));
+    }
+    await notify(supabase, rows);
+
+    return res.json({ expense: toExpense({ ...expense, ...review }), alerts });
+  } catch (e) {
+    console.error('Expense review failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to review expense' });
+  }
+});
+
+async function findExpense(supabase, budgetId, expenseId) {
+  const { data: budget } = await supabase.from('budgets').select('*').eq('id', budgetId).single();
+  if (!budget) return { error: 'Budget not found' };
+  const { data: expense } = await supabase.from('budget_expenses').select('*').eq('id', expenseId).eq('budget_id', budget.id).single();
+  if (!expense) return { error: 'Expense not found' };
+  return { budget, expense };
+}
+
+// Attach receipts (multipart field "receipts": JPEG, PNG, GIF, WebP or PDF). Images get a JPEG thumbnail.
+// Nothing is stored unless every file is valid.
+budgetRouter.post('/budgets/:id/expenses/:expenseId/receipts', acceptReceipts, async (req, res) => {
+  const stored = [];
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const files = req.files || [];
+    if (files.length === 0) return res.status(400).json({ error: 'Attach at least one receipt' });
+
+    const { budget, expense, error: notFound } = await findExpense(supabase, req.params.id, req.params.expenseId);
+    if (notFound) return res.status(404).json({ error: notFound });
+    if (expense.created_by !== userId && !canManageBudget(req, budget)) {
+      return res.status(403).json({ error: 'Only the submitter or a budget manager can attach receipts' });
+    }
+    const existing = expense.receipts || [];
+    if (existing.length + files.length > RECEIPT_MAX_FILES) {
+      return res.status(400).json({ error: `An expense can have at most ${RECEIPT_MAX_FILES} receipts` });
+    }
+
+    const prepared = [];
+    for (const file of files) {
+      const name = path.basename(file.originalname || 'receipt').slice(0, 200);
+      const type = validateReceipt({ buffer: file.buffer, originalName: name });
+      if (type.error) return res.status(400).json({ error: type.error });
+      let thumbnail;
+      try {
+        thumbnail = await createThumbnail(file.buffer, type.contentType);
+      } catch {
+        return res.status(400).json({ error: `${name} could not be read as an image` });
+      }
+      prepared.push({ file, name, thumbnail, ...type });
+    }
+
+    const uploadedAt = new Date().toISOString();
+    const added = [];
+    for (const { file, name, thumbnail, contentType, ext } of prepared) {
+      const id = uuidv4();
+      const key = `${budget.id}/${expense.id}/${id}.${ext}`;
+      await receiptStore.put(key, file.buffer, contentType);
+      stored.push(key);
+      let thumbnailKey = null;
+      if (thumbnail) {
+        thumbnailKey = `${budget.id}/${expense.id}/${id}.thumb.jpg`;
+        await receiptStore.put(thumbnailKey, thumbnail, 'image/jpeg');
+        stored.push(thumbnailKey);
+      }
+      added.push({ id, name, contentType, size: file.size, key, thumbnailKey, uploadedBy: userId, uploadedAt });
+    }
+
+    const receipts = [...existing, ...added];
+    const { error } = await supabase.from('budget_expenses').update({ receipts }).eq('id', expense.id);
+    if (error) throw error;
+    return res.status(201).json({ receipts: receipts.map(toReceipt) });
+  } catch (e) {
+    console.error('Receipt upload failed:', e?.message || e);
+    // Do not leave files behind that no expense points to
+    await receiptStore.remove(stored).catch(() => {});
+    return res.status(500).json({ error: 'Failed to upload receipts' });
+  }
+});
+
+// Serve a receipt (inline, or as an attachment with ?download=true) or its thumbnail (?thumbnail=true)
+budgetRouter.get('/budgets/:id/expenses/:expenseId/receipts/:receiptId', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const { budget, expense, error: notFound } = await findExpense(supabase, req.params.id, req.params.expenseId);
+    if (notFound) return res.status(404).json({ error: notFound });
+    if (expense.created_by !== userId && !canManageBudget(req, budget)) {
+      return res.status(403).json({ error: 'Only the submitter or a budget manager can view receipts' });
+    }
+    const receipt = (expense.receipts || []).find(r => r.id === req.params.receiptId);
+    if (!receipt) return res.status(404).json({ error: 'Receipt not found' });
+
+    const thumbnail = req.query.thumbnail === 'true';
+    const key = thumbnail ? receipt.thumbnailKey : receipt.key;
+    if (!key) return res.status(404).json({ error: 'Receipt has no thumbnail' });
+    const file = await receiptStore.get(key);
+    if (!file) return res.status(404).json({ error: 'Receipt file is missing' });
+
+    const filename = String(receipt.name).replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+    res.setHeader('Content-Type', thumbnail ? 'image/jpeg' : receipt.contentType);
+    res.setHeader('Content-Disposition', `${req.query.download === 'true' ? 'attachment' : 'inline'}; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.send(file);
+  } catch (e) {
+    console.error('Receipt download failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to fetch receipt' });
+  }
+});
+
+// Remove a receipt from an expense and delete its files
+budgetRouter.delete('/budgets/:id/expenses/:expenseId/receipts/:receiptId', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const { budget, expense, error: notFound } = await findExpense(supabase, req.params.id, req.params.expenseId);
+    if (notFound) return res.status(404).json({ error: notFound });
+    if (expense.created_by !== userId && !canManageBudget(req, budget)) {
+      return res.status(403).json({ error: 'Only the submitter or a budget manager can remove receipts' });
+    }
+    const receipt = (expense.receipts || []).find(r => r.id === req.params.receiptId);
+    if (!receipt) return res.status(404).json({ error: 'Receipt not found' });
+
+    const receipts = expense.receipts.filter(r => r.id !== receipt.id);
+    const { error } = await supabase.from('budget_expenses').update({ receipts }).eq('id', expense.id);
+    if (error) throw error;
+    await receiptStore.remove([receipt.key, receipt.thumbnailKey].filter(Boolean))
+      .catch(e => console.error('Receipt file cleanup failed:', e?.message || e));
+    return res.json({ receipts: receipts.map(toReceipt) });
+  } catch (e) {
+    console.error('Receipt delete failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to remove receipt' });
+  }
+});
+
+// Current user's budget notifications, newest first (?unread=true for unread only)
+budgetRouter.get('/notifications', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    let sel = supabase.from('budget_notifications').select('*').eq('user_id', userId).order('created_at', { ascending: false }).limit(50);
+    if (req.query.unread === 'true') sel = sel.eq('read', false);
+    const { data, error } = await sel;
+    if (error) throw error;
+    const notifications = (data || []).map(n => ({
+      id: n.id,
+      budgetId: n.budget_id,
+      categoryId: n.category_id || undefined,
+      expenseId: n.expense_id || undefined,
+      type: n.type,
+      threshold: n.threshold ?? undefined,
+      message: n.message,
+      read: Boolean(n.read),
+      createdAt: n.created_at
+    }));
+    return res.json({ notifications });
+  } catch (e) {
+    console.error('Budget notifications failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Mark notifications read: the given ids, or all of the user's when none are given
+budgetRouter.post('/notifications/read', async (req, res) => {
+  try {
+    const supabase = getSupabase();
+    const userId = req.user.sub || req.user.id;
+    const ids = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : null;
+    let upd = supabase.from('budget_notifications').update({ read: true }).eq('user_id', userId).eq('read', false);
+    if (ids) upd = upd.in('id', ids);
+    const { error } = await upd;
+    if (error) throw error;
+    return res.json({ ok: true });
+  } catch (e) {
+    console.error('Budget notifications update failed:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to update notifications' });
+  }
+});
+
+// Export the budget with category and user names, a per-category summary and every expense line.
+// ?format=csv (default) or json; ?from and ?to (YYYY-MM-DD, inclusive) limit the expenses included.
 budgetRouter.get('/budgets/:id/export', async (req, res) => {
   try {
     const supabase = getSupabase();
     const budgetId = req.params.id;
-    const { data: exps, error } = await supabase.from('budget_expenses').select('*').eq('budget_id', budgetId).order('date', { ascending: false });
+    const format = req.query.format ? String(req.query.format) : 'csv';
+    if (!['csv', 'json'].includes(format)) return res.status(400).json({ error: 'format must be csv or json' });
+    const from = req.query.from ? String(req.query.from) : null;
+    const to = req.query.to ? String(req.query.to) : null;
+    const isDay = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+    if ((from && !isDay(from)) || (to && !isDay(to))) return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+    if (from && to && from > to) return res.status(400).json({ error: 'from must not be after to' });
+
+    const { data: budget } = await supabase.from('budgets').select('*').eq('id', budgetId).single();
+    if (!budget) return res.status(404).json({ error: 'Budget not found' });
+    const { data: cats, error: cErr } = await supabase.from('budget_categories').select('*').eq('budget_id', budgetId);
+    if (cErr) throw cErr;
+    let sel = supabase.from('budget_expenses').select('*').eq('budget_id', budgetId);
+    if (from) sel = sel.gte('date', from);
+    if (to) sel = sel.lte('date', to);
+    const { data: exps, error } = await sel.order('date', { ascending: true });
     if (error) throw error;
-    const rows = exps || [];
-    const csv = [
-      'Date,Category,Description,Amount,Created By',
-      ...rows.map(e => {
-        const date = e.date ? new Date(e.date).toISOString().split('T')[0] : '';
-        const amount = Number(e.amount || 0);
-        const desc = (e.description || '').replace(/"/g, '""');
-        return `${date},${e.category_id},"${desc}",${amount},${e.created_by}`;
-      })
-    ].join('\n');
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', 'attachment; filename="budget-expenses.csv"');
-    res.send(csv);
+
+    const userIds = Array.from(new Set((exps || []).map(e => e.created_by).filter(Boolean)));
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('users').select('id, name, email').in('id', userIds)
+      : { data: [] };
+
+    const data = buildBudgetExport({
+      budget,
+      categories: cats || [],
+      expenses: exps || [],
+      users: new Map((users || []).map(u => [u.id, u])),
+      from,
+      to,
+      receiptPath: (e, r) => `/api/budget/budgets/${budgetId}/expenses/${e.id}/receipts/${r.id}`
+    });
+
+    const slug = budget.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'budget';
+    const filename = `${slug}${from || to ? `-${from || 'start'}-to-${to || 'end'}` : ''}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      return res.send(JSON.stringify(data, null, 2));
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    return res.send(budgetExportToCsv(data));
   } catch (e) {
+    console.error('Budget export failed:', e?.message || e);
     return res.status(500).json({ error: 'Failed to export budget' });
   }
-}); 
\ No newline at end of file
+});
@@ -1,6 +1,6 @@
 import express from 'express';
 import { requireAuth } from '../middleware/auth.js';
-import { collaborationService } from '../services/collaboration-service.js';
+import { collaborationService, VOTING_MODES, SESSION_ROLES } from '../services/collaboration-service.js';
 import { graphService } from '../services/graph-service.js';
 
 export const collaborationRouter = express.Router();
@@ -8,14 +8,34 @@ export const collaborationRouter = express.Router();
 // Helper to get user ID from request
 const getUserId = (req) => req.user.sub || req.user.id;
 
+// Loads the session and checks the caller's role grants `permission`; otherwise responds and returns null
+const authorizeSession = (req, res, permission) => {
+  const session = collaborationService.getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return null;
+  }
+  if (!collaborationService.hasPermission(session.id, getUserId(req), permission)) {
+    const error = collaborationService.getRole(session.id, getUserId(req))
+      ? 'Your role in this session does not allow this'
+      : 'You have not been invited to this session';
+    res.status(403).json({ error });
+    return null;
+  }
+  return session;
+};
+
+const inviteResponse = (invite) => ({ ...invite, link: collaborationService.generateInviteLink(invite.token) });
+
 // List all sessions (persistent)
 collaborationRouter.get('/sessions/all', requireAuth, (req, res) => {
-  const sessions = collaborationService.listAllSessions();
+  const sessions = collaborationService.listSessionsForUser(getUserId(req));
   res.json({ sessions });
 });
 
 // End a session
 collaborationRouter.post('/sessions/:sessionId/end', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'manage')) return;
   const ok = collaborationService.endSession(req.params.sessionId, getUserId(req));
   if (!ok) return res.status(404).json({ error: 'Session not found' });
   res.json({ success: true });
@@ -31,56 +51,31 @@ collaborationRouter.post('/sessions', requireAuth, (req, res) => {
   
   const session = collaborationService.createSession(req.user.sub, name, teamId, req.user.name);
   
-  res.status(201).json({
-    session,
-    shareableLink: collaborationService.generateShareableLink(session.id)
-  });
+  res.status(201).json({ session });
 });
 
 // Get session details
 collaborationRouter.get('/sessions/:sessionId', requireAuth, (req, res) => {
-  const session = collaborationService.getSession(req.params.sessionId);
-  
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const session = authorizeSession(req, res, 'view');
+  if (!session) return;
   
   res.json(session);
 });
 
 // Get sessions
+// Sessions are only discoverable by their members; everyone else needs an invite link
 collaborationRouter.get('/sessions', requireAuth, (req, res) => {
-  const returnAll = req.query.all === '1' || process.env.NODE_ENV !== 'production';
-
-  if (returnAll) {
-    // Return all active sessions so other users can discover and join in demo mode
-    const sessions = collaborationService.listAllSessions()
-      .filter(session => session.status !== 'ended');
-    return res.json({ sessions });
-  }
-
-  // Default: only sessions the user is in
-  const sessions = collaborationService.getUserSessions(req.user.sub);
+  const sessions = collaborationService.listSessionsForUser(getUserId(req))
+    .filter(session => session.status !== 'ended');
   
   res.json({ sessions });
 });
 
 // Update session settings
 collaborationRouter.patch('/sessions/:sessionId/settings', requireAuth, (req, res) => {
-  const session = collaborationService.getSession(req.params.sessionId);
-  
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  if (!authorizeSession(req, res, 'manage')) return;
   
-  // Allow settings by creator; allow status in dev
-  const isCreator = session.creatorId === req.user.sub;
-  const isDev = process.env.NODE_ENV !== 'production';
-  if (!isCreator && !isDev) {
-    return res.status(403).json({ error: 'Only session creator can update settings' });
-  }
-  
-  const { votingEnabled, anonymousVoting, requireConsensus, autoSchedule, status } = req.body;
+  const { votingEnabled, anonymousVoting, requireConsensus, autoSchedule, status, votingMode, dotBudget, votingDeadline } = req.body;
   
   if (status === 'ended') {
     const ok = collaborationService.endSession(req.params.sessionId, req.user.sub);
@@ -88,16 +83,34 @@ collaborationRouter.patch('/sessions/:sessionId/settings', requireAuth, (req, re
     return res.json({ status: 'ended' });
   }
   
-  if (votingEnabled !== undefined) session.settings.votingEnabled = votingEnabled;
-  if (anonymousVoting !== undefined) session.settings.anonymousVoting = anonymousVoting;
-  if (requireConsensus !== undefined) session.settings.requireConsensus = requireConsensus;
-  if (autoSchedule !== undefined) session.settings.autoSchedule = autoSchedule;
+  if (votingMode !== undefined && !VOTING_MODES.includes(votingMode)) {
+    return res.status(400).json({ error: `Voting mode must be one of: ${VOTING_MODES.join(', ')}` });
+  }
+  if (dotBudget !== undefined && (!Number.isInteger(dotBudget) || dotBudget < 1 || dotBudget > 100)) {
+    return res.status(400).json({ error: 'Dot budget must be a whole number between 1 and 100' });
+  }
+  // null clears the deadline
+  if (votingDeadline !== undefined && votingDeadline !== null) {
+    const deadline = Date.parse(votingDeadline);
+    if (!Number.isFinite(deadline)) return res.status(400).json({ error: 'Invalid voting deadline' });
+    if (deadline <= Date.now()) return res.status(400).json({ error: 'The voting deadline must be in the future' });
+  }
   
-  res.json({ settings: session.settings });
+  const settings = collaborationService.updateSettings(req.params.sessionId, {
+    votingEnabled,
+    anonymousVoting,
+    requireConsensus,
+    autoSchedule,
+    votingMode,
+    dotBudget,
+    votingDeadline: votingDeadline ? new Date(votingDeadline).toISOString() : votingDeadline
+  });
+  res.json({ settings });
 });
 
 // Export session data
 collaborationRouter.get('/sessions/:sessionId/export', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'view')) return;
   const sessionData = collaborationService.exportSession(req.params.sessionId);
   
   if (!sessionData) {
@@ -109,6 +122,7 @@ collaborationRouter.get('/sessions/:sessionId/export', requireAuth, (req, res) =
 
 // Schedule activities to calendar
 collaborationRouter.post('/sessions/:sessionId/schedule', requireAuth, async (req, res) => {
+  if (!authorizeSession(req, res, 'edit')) return;
   const { accessToken } = req.body;
   
   if (!accessToken) {
@@ -139,10 +153,162 @@ collaborationRouter.post('/sessions/:sessionId/schedule', requireAuth, async (re
   }
 });
 
+// Download the scheduled itinerary as an ICS file for any calendar app
+collaborationRouter.get('/sessions/:sessionId/itinerary.ics', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'view')) return;
+  const calendar = collaborationService.exportItineraryICS(req.params.sessionId);
+  if (calendar.count === 0) {
+    return res.status(409).json({ error: 'No itinerary items have a scheduled time yet' });
+  }
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="itinerary-${req.params.sessionId}.ics"`);
+  res.send(calendar.ics);
+});
+
 // Get session votes
 collaborationRouter.get('/sessions/:sessionId/votes', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'view')) return;
   const votes = collaborationService.getSessionVotes(req.params.sessionId);
-  res.json({ votes });
+  const results = collaborationService.getVoteResults(req.params.sessionId);
+  res.json({ votes, results });
+});
+
+// Planner-adjustable scheduling preferences; anything left out falls back to the session's saved ones
+const readScheduleOptions = (body) => {
+  const { startDate, endDate, dayStart, dayEnd, timezoneOffset } = body;
+  if ([startDate, endDate].some(date => date !== undefined && !Number.isFinite(Date.parse(date)))) {
+    return { error: 'Invalid start or end date' };
+  }
+  if (startDate !== undefined && endDate !== undefined && Date.parse(startDate) > Date.parse(endDate)) {
+    return { error: 'Start date must be on or before the end date' };
+  }
+  if ([dayStart, dayEnd].some(time => time !== undefined && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(time))) {
+    return { error: 'Day start and end must be HH:MM' };
+  }
+  const clockMinutes = (time) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  if (dayStart !== undefined && dayEnd !== undefined && clockMinutes(dayStart) >= clockMinutes(dayEnd)) {
+    return { error: 'Day start must be before day end' };
+  }
+  if (timezoneOffset !== undefined && (!Number.isInteger(timezoneOffset) || Math.abs(timezoneOffset) > 14 * 60)) {
+    return { error: 'Invalid timezone offset' };
+  }
+  return { options: { startDate, endDate, dayStart, dayEnd, timezoneOffset } };
+};
+
+// Propose a day plan for the itinerary, ordered by votes
+collaborationRouter.post('/sessions/:sessionId/schedule/proposal', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'edit')) return;
+  const { options, error } = readScheduleOptions(req.body);
+  if (error) return res.status(400).json({ error });
+
+  const proposal = collaborationService.proposeItinerarySchedule(req.params.sessionId, options);
+  if (proposal.error) return res.status(400).json({ error: proposal.error });
+  res.json({ proposal });
+});
+
+// Apply a (possibly tweaked) proposal to the itinerary
+collaborationRouter.post('/sessions/:sessionId/schedule/apply', requireAuth, (req, res) => {
+  const session = authorizeSession(req, res, 'edit');
+  if (!session) return;
+  if (session.status === 'ended') return res.status(409).json({ error: 'This session has ended' });
+  const { options, error } = readScheduleOptions(req.body);
+  if (error) return res.status(400).json({ error });
+
+  const { startDate, endDate, ...preferences } = options;
+  const result = collaborationService.applyItinerarySchedule(req.params.sessionId, getUserId(req), {
+    slots: req.body.slots,
+    startDate,
+    endDate,
+    preferences: Object.fromEntries(Object.entries(preferences).filter(([, value]) => value !== undefined))
+  });
+  if (result.error) return res.status(400).json({ error: result.error });
+  res.json(result);
+});
+
+// Get itinerary revision history (newest first)
+collaborationRouter.get('/sessions/:sessionId/itinerary/history', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'view')) return;
+  const history = collaborationService.getItineraryHistory(req.params.sessionId);
+  if (!history) return res.status(404).json({ error: 'Session not found' });
+  res.json(history);
+});
+
+// Restore an earlier itinerary revision; everyone in the session receives the result
+collaborationRouter.post('/sessions/:sessionId/itinerary/restore', requireAuth, (req, res) => {
+  const session = authorizeSession(req, res, 'edit');
+  if (!session) return;
+  if (session.status === 'ended') return res.status(409).json({ error: 'This session has ended' });
+
+  const { version } = req.body;
+  if (!Number.isInteger(version) || version < 1) {
+    return res.status(400).json({ error: 'A version number is required' });
+  }
+
+  const result = collaborationService.restoreItineraryVersion(req.params.sessionId, getUserId(req), version);
+  if (result.error) {
+    const status = result.error === 'Version not found in history' ? 404 : 400;
+    return res.status(status).json({ error: result.error });
+  }
+  res.json(result);
+});
+
+// List a session's invite links
+collaborationRouter.get('/sessions/:sessionId/invites', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'manage')) return;
+  res.json({ invites: collaborationService.listInvites(req.params.sessionId).map(inviteResponse) });
+});
+
+// Create an invite link; a viewer invite is a view-only link
+collaborationRouter.post('/sessions/:sessionId/invites', requireAuth, (req, res) => {
+  const session = authorizeSession(req, res, 'manage');
+  if (!session) return;
+  if (session.status === 'ended') return res.status(409).json({ error: 'This session has ended' });
+
+  const { role = 'editor', expiresInHours = 72, maxUses = null } = req.body;
+  if (expiresInHours !== null && (typeof expiresInHours !== 'number' || expiresInHours <= 0 || expiresInHours > 24 * 90)) {
+    return res.status(400).json({ error: 'Expiry must be between 1 hour and 90 days' });
+  }
+  if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > 1000)) {
+    return res.status(400).json({ error: 'Max uses must be a whole number between 1 and 1000' });
+  }
+
+  const result = collaborationService.createInvite(session.id, getUserId(req), { role, expiresInHours, maxUses });
+  if (result.error) return res.status(400).json({ error: result.error });
+  res.status(201).json({ invite: inviteResponse(result.invite) });
+});
+
+// Revoke an invite link
+collaborationRouter.delete('/sessions/:sessionId/invites/:token', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'manage')) return;
+  const ok = collaborationService.revokeInvite(req.params.sessionId, req.params.token);
+  if (!ok) return res.status(404).json({ error: 'Invite not found' });
+  res.json({ success: true });
+});
+
+// Accept an invite link and join the session with its role
+collaborationRouter.post('/invites/:token/accept', requireAuth, (req, res) => {
+  const result = collaborationService.acceptInvite(req.params.token, getUserId(req));
+  if (result.error) {
+    const status = result.error === 'This invite link is not valid' ? 404 : 410;
+    return res.status(status).json({ error: result.error });
+  }
+  res.json(result);
+});
+
+// Change or remove a member's role
+collaborationRouter.patch('/sessions/:sessionId/roles/:userId', requireAuth, (req, res) => {
+  if (!authorizeSession(req, res, 'manage')) return;
+  const { role } = req.body;
+  if (role !== null && !SESSION_ROLES.includes(role)) {
+    return res.status(400).json({ error: `Role must be one of: ${SESSION_ROLES.join(', ')}` });
+  }
+  const result = collaborationService.setRole(req.params.sessionId, req.params.userId, role);
+  if (result.error) return res.status(400).json({ error: result.error });
+  res.json(result);
 });
 
 // Send activity to Teams channel
@@ -153,10 +319,8 @@ collaborationRouter.post('/sessions/:sessionId/share-to-teams', requireAuth, asy
     return res.status(400).json({ error: 'Missing required parameters' });
   }
   
-  const session = collaborationService.getSession(req.params.sessionId);
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
-  }
+  const session = authorizeSession(req, res, 'view');
+  if (!session) return;
   
   // Find the activity in the itinerary
   const activity = session.itinerary.items.find(item => item.id === activityId);
@@ -207,6 +371,7 @@ collaborationRouter.post('/sessions/generate-mock', requireAuth, (req, res) => {
     
     participants.forEach(p => {
       collaborationService.addUserToSession(session.id, p.id, p.name, `socket-${p.id}`);
+      collaborationService.setRole(session.id, p.id, 'editor');
     });
     
     // Add mock itinerary items
@@ -291,7 +456,9 @@ collaborationRouter.post('/sessions/generate-mock', requireAuth, (req, res) => {
       name: s.name,
       participantCount: s.participants.size,
       activityCount: s.itinerary.items.length,
-      shareableLink: collaborationService.generateShareableLink(s.id)
+      inviteLink: collaborationService.generateInviteLink(
+        collaborationService.createInvite(s.id, getUserId(req), { role: 'editor' }).invite.token
+      )
     }))
   });
 }); 
\ No newline at end of file
@@ -2,6 +2,7 @@ import express from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { v4 as uuidv4 } from 'uuid';
 import { getSupabase } from '../services/supabase-client.js';
+import { buildCalendar } from '../lib/ics.js';
 
 export const eventGridRouter = express.Router();
 
@@ -273,20 +274,15 @@ function countRsvpCounts(list) {
 }
 
 function generateICS(e) {
-  const dt = (s) => new Date(s).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  return [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-            'PRODID:-//VibeCorner//EventGrid//EN',
-    'BEGIN:VEVENT',
-    `UID:${e.id}`,
-    `DTSTAMP:${dt(new Date().toISOString())}`,
-    `DTSTART:${dt(e.startAt)}`,
-    `DTEND:${dt(e.endAt)}`,
-    `SUMMARY:${e.title}`,
-    `DESCRIPTION:${(e.description || '').replace(/\n/g, '\\n')}`,
-    `LOCATION:${e.location}`,
-    'END:VEVENT',
-    'END:VCALENDAR'
-  ].join('\r\n');
+  return buildCalendar({
+    prodId: '-//VibeCorner//EventGrid//EN',
+    events: [{
+      uid: e.id,
+      start: e.startAt,
+      end: e.endAt,
+      summary: e.title,
+      description: e.description,
+      location: e.location
+    }]
+  });
 } 
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Who may change Bill Splitter bills and items, and the before/after records kept in the audit log.
+
+// Fields compared when an item is edited; `splits` follows from the split definition and amount
+export const AUDITED_ITEM_FIELDS = ['description', 'amount', 'payerId', 'splitMethod', 'splitDefinition'];
+
+// The bill creator or anyone who paid for an item on it
+export function canModifyBill(bill, items, userId) {
+  return bill.createdBy === userId || items.some(i => i.payerId === userId);
+}
+
+// Items created before creators were tracked fall back to the bill creator
+export function canModifyItem(bill, item, userId) {
+  return (item.createdBy || bill.createdBy) === userId || item.payerId === userId;
+}
+
+export function auditItemSnapshot(item) {
+  return {
+    description: item.description,
+    amount: item.amount,
+    payerId: item.payerId,
+    splitMethod: item.splitMethod,
+    splitDefinition: item.splitDefinition,
+    splits: item.splits
+  };
+}
+
+// Fields whose values differ (compared as JSON), with missing values recorded as null
+export function diffFields(before, after, fields) {
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
@@ -0,0 +1,76 @@
+import { allocateCents, roundCents, toCents } from './bill-splits.js';
+
+// Bill-level tax, tip and service charges. A charge is { type: 'tax'|'tip'|'service', mode: 'percent'|'fixed',
+// value, label?, payerId? }; percentages apply to the item subtotal and are rounded to the cent once.
+
+const CHARGE_LABELS = { tax: 'Tax', tip: 'Tip', service: 'Service charge' };
+
+export function chargeCents(charge, subtotal) {
+  return charge.mode === 'percent' ? Math.round(toCents(subtotal) * (Number(charge.value) || 0) / 100) : toCents(charge.value);
+}
+
+export function summarizeBillTotals(items, charges) {
+  const subtotal = roundCents(items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0));
+  const chargesTotal = (charges || []).reduce((sum, charge) => sum + chargeCents(charge, subtotal), 0) / 100;
+  return { subtotal, chargesTotal, total: roundCents(subtotal + chargesTotal) };
+}
+
+// Turn bill-level charges into synthetic items split in proportion to each participant's item subtotal.
+// Without an explicit payer the charge is attributed to whoever paid the most on the bill.
+// When nobody has a positive subtotal the charge is shared equally, so its splits still add up.
+export function computeChargeItems(items, charges) {
+  if (!Array.isArray(charges) || charges.length === 0 || items.length === 0) return [];
+
+  const subtotalByUser = new Map();
+  const paidByUser = new Map();
+  for (const item of items) {
+    paidByUser.set(item.payerId, (paidByUser.get(item.payerId) || 0) + (Number(item.amount) || 0));
+    for (const split of item.splits || []) {
+      subtotalByUser.set(split.userId, (subtotalByUser.get(split.userId) || 0) + (Number(split.amount) || 0));
+    }
+  }
+  const subtotal = items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  const userIds = Array.from(subtotalByUser.keys());
+  const weights = userIds.map(uid => toCents(subtotalByUser.get(uid)));
+  if (!weights.some(w => w > 0)) weights.fill(1);
+  const defaultPayer = Array.from(paidByUser.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return charges
+    .map((charge, index) => {
+      const cents = chargeCents(charge, subtotal);
+      const shares = allocateCents(cents, weights);
+      return {
+        id: `charge-${index}`,
+        billId: items[0].billId,
+        description: charge.label || CHARGE_LABELS[charge.type],
+        chargeType: charge.type,
+        amount: cents / 100,
+        payerId: charge.payerId || defaultPayer,
+        splits: userIds.map((userId, i) => ({ userId, amount: shares[i] / 100 }))
+      };
+    })
+    .filter(item => item.amount > 0);
+}
+
+// Per-person subtotal, each charge type and total, for the bill breakdown view
+export function buildChargeBreakdown(items, chargeItems) {
+  const people = new Map();
+  const entryFor = (userId) => {
+    if (!people.has(userId)) people.set(userId, { userId, subtotal: 0, tax: 0, tip: 0, service: 0, total: 0 });
+    return people.get(userId);
+  };
+  for (const item of items) {
+    for (const split of item.splits || []) entryFor(split.userId).subtotal += Number(split.amount) || 0;
+  }
+  for (const charge of chargeItems) {
+    for (const split of charge.splits) entryFor(split.userId)[charge.chargeType] += split.amount;
+  }
+  return Array.from(people.values()).map(p => ({
+    userId: p.userId,
+    subtotal: roundCents(p.subtotal),
+    tax: roundCents(p.tax),
+    tip: roundCents(p.tip),
+    service: roundCents(p.service),
+    total: roundCents(p.subtotal + p.tax + p.tip + p.service)
+  }));
+}
@@ -0,0 +1,185 @@
+import { computeChargeItems } from './bill-charges.js';
+import { roundCents } from './bill-splits.js';
+
+// Balances across Bill Splitter bills and payments. A balance map holds userId -> { paid, owed, sent,
+// received, balance } in the group base currency; a positive balance means the person is owed money.
+
+// Exchange rate for a new bill: 1 unit of the bill currency in the group base currency, taken from the
+// group's rate table (groupCurrency is { baseCurrency, rateMap }). Throws when no rate is set.
+export function snapshotExchangeRate({ baseCurrency, rateMap }, currency) {
+  const billCurrency = currency || baseCurrency;
+  const exchangeRate = billCurrency === baseCurrency ? 1 : rateMap.get(billCurrency);
+  if (!exchangeRate) throw new Error(`No exchange rate from ${billCurrency} to ${baseCurrency} is set for this group`);
+  return { currency: billCurrency, baseCurrency, exchangeRate };
+}
+
+// Rate of a stored bill row. Bills created before currencies were tracked have no snapshot;
+// fall back to the current rate table.
+export function billExchangeRate(row, { baseCurrency, rateMap }) {
+  const snapshot = Number(row.exchange_rate) || null;
+  if (snapshot) return snapshot;
+  return row.currency === baseCurrency ? 1 : (rateMap.get(row.currency) || 1);
+}
+
+// Item amounts are stored in the bill currency; settlement math runs in the group base currency
+export function convertItemsToBase(items, exchangeRate) {
+  const rate = Number(exchangeRate) || 1;
+  if (rate === 1) return items;
+  return items.map(item => ({
+    ...item,
+    amount: (Number(item.amount) || 0) * rate,
+    splits: (Array.isArray(item.splits) ? item.splits : []).map(split => ({ ...split, amount: (Number(split.amount) || 0) * rate }))
+  }));
+}
+
+export function balanceEntry(balanceMap, uid) {
+  if (!balanceMap.has(uid)) balanceMap.set(uid, { paid: 0, owed: 0, sent: 0, received: 0, balance: 0 });
+  return balanceMap.get(uid);
+}
+
+// Accumulate paid/owed/balance per user into balanceMap (userId -> { paid, owed, sent, received, balance })
+export function applyItemsToBalances(balanceMap, items) {
+  const entryFor = (uid) => balanceEntry(balanceMap, uid);
+  for (const item of items) {
+    const amount = Number(item.amount) || 0;
+    if (item.payerId) {
+      const payer = entryFor(item.payerId);
+      payer.paid += amount;
+      payer.balance += amount;
+    }
+    const splits = Array.isArray(item.splits) ? item.splits : [];
+    for (const split of splits) {
+      const share = Number(split.amount) || 0;
+      const member = entryFor(split.userId);
+      member.owed += share;
+      member.balance -= share;
+    }
+  }
+  return balanceMap;
+}
+
+// A recorded payment moves the sender towards zero and reduces what the recipient is owed
+export function applyPaymentsToBalances(balanceMap, payments) {
+  for (const payment of payments) {
+    const amount = Number(payment.amount) || 0;
+    const sender = balanceEntry(balanceMap, payment.fromUserId);
+    sender.sent += amount;
+    sender.balance += amount;
+    const recipient = balanceEntry(balanceMap, payment.toUserId);
+    recipient.received += amount;
+    recipient.balance -= amount;
+  }
+  return balanceMap;
+}
+
+export function toBalanceList(balanceMap) {
+  return Array.from(balanceMap.entries()).map(([userId, entry]) => ({
+    userId,
+    paid: roundCents(entry.paid),
+    owed: roundCents(entry.owed),
+    sent: roundCents(entry.sent),
+    received: roundCents(entry.received),
+    balance: roundCents(entry.balance)
+  }));
+}
+
+// Charges are spread over the bill items, converted to the base currency and added to balanceMap
+export function computeBillBalances(bill, items, balanceMap = new Map()) {
+  const chargeItems = computeChargeItems(items, bill.charges);
+  const baseItems = convertItemsToBase([...items, ...chargeItems], bill.exchangeRate);
+  applyItemsToBalances(balanceMap, baseItems);
+  return { chargeItems, baseItems, balanceMap };
+}
+
+// Per-user balances of one bill in the group base currency after its recorded payments, and the
+// transfers still needed to settle it
+export function computeBillSettlements(bill, items, payments = []) {
+  const { chargeItems, balanceMap } = computeBillBalances(bill, items);
+  applyPaymentsToBalances(balanceMap, payments);
+  const settlements = Array.from(balanceMap.entries()).map(([userId, entry]) => ({ userId, balance: roundCents(entry.balance) }));
+  const transactions = calculateOptimalTransactions(settlements.map(s => ({ ...s })));
+  return { chargeItems, settlements, transactions };
+}
+
+// Every bill and payment of a group as a statement: per-entry balance changes, running balances after
+// each entry, and the transfers that settle the final balances
+export function buildGroupLedger(group, bills, items, payments = []) {
+  const running = new Map();
+  (group.memberIds || []).forEach(uid => balanceEntry(running, uid));
+
+  const itemsByBill = new Map();
+  for (const item of items) {
+    if (!itemsByBill.has(item.billId)) itemsByBill.set(item.billId, []);
+    itemsByBill.get(item.billId).push(item);
+  }
+
+  // Bills and payments are replayed in chronological order so runningBalances reads like a statement
+  const events = [
+    ...bills.map(bill => ({ type: 'bill', at: bill.createdAt, bill })),
+    ...payments.map(payment => ({ type: 'payment', at: payment.createdAt, payment }))
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  const entries = events.map(event => {
+    if (event.type === 'payment') {
+      const { payment } = event;
+      const changes = applyPaymentsToBalances(new Map(), [payment]);
+      applyPaymentsToBalances(running, [payment]);
+      return {
+        type: 'payment',
+        paymentId: payment.id,
+        billId: payment.billId,
+        title: 'Payment',
+        createdAt: payment.createdAt,
+        total: roundCents(payment.amount),
+        fromUserId: payment.fromUserId,
+        toUserId: payment.toUserId,
+        changes: toBalanceList(changes),
+        runningBalances: toBalanceList(running)
+      };
+    }
+    const { bill } = event;
+    const billOnlyItems = itemsByBill.get(bill.id) || [];
+    const originalItems = [...billOnlyItems, ...computeChargeItems(billOnlyItems, bill.charges)];
+    const billItems = convertItemsToBase(originalItems, bill.exchangeRate);
+    const changes = applyItemsToBalances(new Map(), billItems);
+    applyItemsToBalances(running, billItems);
+    return {
+      type: 'bill',
+      billId: bill.id,
+      title: bill.title,
+      createdAt: bill.createdAt,
+      total: roundCents(billItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0)),
+      original: {
+        currency: bill.currency,
+        exchangeRate: bill.exchangeRate,
+        total: roundCents(originalItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0))
+      },
+      changes: toBalanceList(changes),
+      runningBalances: toBalanceList(running)
+    };
+  });
+
+  const balances = toBalanceList(running);
+  const transactions = calculateOptimalTransactions(balances.map(b => ({ userId: b.userId, balance: b.balance })));
+  return { groupId: group.id, currency: group.baseCurrency, billCount: bills.length, paymentCount: payments.length, entries, balances, transactions };
+}
+
+// Greedy settle-up: the largest debtor pays the largest creditor until everyone is within a cent.
+// Updates the balance of the entries it is given, so pass copies.
+export function calculateOptimalTransactions(settlements) {
+  const transactions = [];
+  const creditors = settlements.filter(s => s.balance > 0).sort((a, b) => b.balance - a.balance);
+  const debtors = settlements.filter(s => s.balance < 0).sort((a, b) => a.balance - b.balance);
+  let i = 0, j = 0;
+  while (i < creditors.length && j < debtors.length) {
+    const creditor = creditors[i];
+    const debtor = debtors[j];
+    const amount = Math.min(creditor.balance, -debtor.balance);
+    if (amount > 0.01) { transactions.push({ from: debtor.userId, to: creditor.userId, amount: Math.round(amount * 100) / 100 }); }
+    creditor.balance -= amount;
+    debtor.balance += amount;
+    if (creditor.balance < 0.01) i++;
+    if (debtor.balance > -0.01) j++;
+  }
+  return transactions;
+}
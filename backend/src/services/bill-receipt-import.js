@@ -0,0 +1,155 @@
+import { roundCents } from './bill-splits.js';
+
+// Turns a pasted receipt or an exported CSV into draft Bill Splitter items. Nothing here is trusted:
+// lines that can't be read are reported as skipped with a reason instead of failing the import.
+
+// Receipt lines that are totals or payment details rather than things someone ordered
+const RECEIPT_SUMMARY_PATTERN = /\b(sub\s*-?\s*total|total|tax|vat|gst|hst|tip|gratuity|service\s+charge|change|cash|card|visa|mastercard|amex|balance|amount\s+due|paid)\b/i;
+const RECEIPT_TOTAL_PATTERN = /^\s*(grand\s+)?total\b|amount\s+due|balance\s+due/i;
+const RECEIPT_PRICE_PATTERN = /^(.*?)[\s.:$€£¥-]*?(-)?[$€£¥]?(\d{1,3}(?:[,.]\d{3})+[.,]\d{2}|\d+[.,]\d{2})(-)?\s*[A-Z]?\s*$/;
+
+// Accepts "1,234.50", "1.234,50", "12,50", "$12" and similar; returns NaN when unreadable
+export function parseReceiptAmount(raw) {
+  let value = String(raw ?? '').replace(/[\s$€£¥]/g, '');
+  if (!/^-?[\d.,]+$/.test(value)) return NaN;
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot && value.length - lastComma - 1 === 2) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+  return Number(value);
+}
+
+export function parseReceiptText(content) {
+  const lines = [];
+  const skipped = [];
+  let receiptTotal = null;
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+    if (!text) return;
+    const lineNumber = index + 1;
+    const match = text.match(RECEIPT_PRICE_PATTERN);
+    const description = match ? match[1].trim() : '';
+    if (!match || !description) {
+      skipped.push({ lineNumber, text, reason: 'No price found' });
+      return;
+    }
+    const amount = parseReceiptAmount(match[3]) * (match[2] || match[4] ? -1 : 1);
+    if (RECEIPT_SUMMARY_PATTERN.test(description)) {
+      if (RECEIPT_TOTAL_PATTERN.test(description)) receiptTotal = roundCents(amount);
+      skipped.push({ lineNumber, text, reason: 'Subtotal, tax, tip or payment line' });
+      return;
+    }
+    if (!(amount > 0)) {
+      skipped.push({ lineNumber, text, reason: 'Discounts and zero amounts are not imported' });
+      return;
+    }
+    lines.push({ lineNumber, description, amount: roundCents(amount), assignees: [] });
+  });
+  return { lines, skipped, receiptTotal };
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes and line breaks inside quotes
+function parseCsvRows(content) {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.map(cells => cells.map(c => c.trim()));
+}
+
+const RECEIPT_CSV_COLUMNS = {
+  description: ['description', 'item', 'name', 'product'],
+  amount: ['amount', 'price', 'total', 'cost'],
+  assignee: ['assignee', 'assignees', 'who', 'for', 'person', 'people']
+};
+
+// Columns are description, amount and an optional assignee, or named by a header row.
+// Several assignees can share a line when separated by ";", "|", "/" or "&".
+export function parseReceiptCsv(content) {
+  const rows = parseCsvRows(content).map((cells, index) => ({ cells, lineNumber: index + 1 }))
+    .filter(r => r.cells.some(c => c));
+  const columns = { description: 0, amount: 1, assignee: 2 };
+  const header = rows[0]?.cells.map(c => c.toLowerCase());
+  if (header && header.every(c => Number.isNaN(parseReceiptAmount(c)))) {
+    const found = Object.fromEntries(Object.entries(RECEIPT_CSV_COLUMNS).map(([key, names]) => [key, header.findIndex(c => names.includes(c))]));
+    if (found.description >= 0 || found.amount >= 0) {
+      rows.shift();
+      Object.entries(found).forEach(([key, index]) => { columns[key] = index; });
+    }
+  }
+
+  const lines = [];
+  const skipped = [];
+  let receiptTotal = null;
+  for (const { cells, lineNumber } of rows) {
+    const text = cells.join(', ');
+    const description = cells[columns.description] || '';
+    const amount = parseReceiptAmount(cells[columns.amount]);
+    if (!description || Number.isNaN(amount)) {
+      skipped.push({ lineNumber, text, reason: description ? 'Amount is not a number' : 'Missing description' });
+      continue;
+    }
+    if (RECEIPT_SUMMARY_PATTERN.test(description)) {
+      if (RECEIPT_TOTAL_PATTERN.test(description)) receiptTotal = roundCents(amount);
+      skipped.push({ lineNumber, text, reason: 'Subtotal, tax, tip or payment line' });
+      continue;
+    }
+    if (!(amount > 0)) {
+      skipped.push({ lineNumber, text, reason: 'Discounts and zero amounts are not imported' });
+      continue;
+    }
+    const assignees = columns.assignee >= 0 && cells[columns.assignee]
+      ? cells[columns.assignee].split(/\s*[;|/&]\s*/).filter(Boolean)
+      : [];
+    lines.push({ lineNumber, description, amount: roundCents(amount), assignees });
+  }
+  return { lines, skipped, receiptTotal };
+}
+
+// Resolve assignee names from a receipt against group members by id, email, full or first name.
+// A name shared by several members is reported as ambiguous rather than guessed.
+export function matchReceiptAssignees(assignees, members) {
+  const assigneeIds = [];
+  const unmatchedAssignees = [];
+  const ambiguousAssignees = [];
+  for (const raw of assignees) {
+    const needle = raw.toLowerCase();
+    const byName = members.filter(m => m.name && m.name.toLowerCase() === needle);
+    const byFirstName = members.filter(m => m.name && m.name.toLowerCase().split(/\s+/)[0] === needle);
+    const match = members.find(m => m.id === raw || (m.email && (m.email.toLowerCase() === needle || m.email.toLowerCase().split('@')[0] === needle)))
+      || (byName.length === 1 ? byName[0] : null)
+      || (byFirstName.length === 1 ? byFirstName[0] : null);
+    if (match) {
+      if (!assigneeIds.includes(match.id)) assigneeIds.push(match.id);
+    } else if (byName.length > 1 || byFirstName.length > 1) {
+      ambiguousAssignees.push(raw);
+    } else {
+      unmatchedAssignees.push(raw);
+    }
+  }
+  return { assigneeIds, unmatchedAssignees, ambiguousAssignees };
+}
@@ -0,0 +1,44 @@
+// Schedule arithmetic for recurring Bill Splitter templates. Dates are YYYY-MM-DD in UTC and the
+// n-th occurrence is always derived from startOn, so month-end clamping never drifts.
+
+export const MAX_CATCH_UP_RUNS = 12;
+
+// Date of the `count`-th occurrence after startOn. Monthly-based frequencies keep the start day
+// and clamp it to the end of shorter months (Jan 31 -> Feb 28 -> Mar 31).
+export function addFrequency(startOn, frequency, count) {
+  const [y, m, d] = startOn.split('-').map(Number);
+  if (frequency === 'weekly' || frequency === 'biweekly') {
+    const days = (frequency === 'weekly' ? 7 : 14) * count;
+    return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+  }
+  const months = { monthly: 1, quarterly: 3, yearly: 12 }[frequency] * count;
+  const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay))).toISOString().slice(0, 10);
+}
+
+// Template state after moving `steps` occurrences forward; ended once it passes endOn
+export function advanceSchedule(template, steps = 1) {
+  const occurrence = template.occurrence + steps;
+  const nextRunOn = addFrequency(template.startOn, template.frequency, occurrence);
+  return { occurrence, nextRunOn, ended: Boolean(template.endOn && nextRunOn > template.endOn) };
+}
+
+// Occurrences of an active template due by `today`, oldest first. A scheduler that was down for a
+// long time creates at most `limit` of them per run and picks up the rest on the next one.
+export function dueRunDates(template, today, limit = MAX_CATCH_UP_RUNS) {
+  const dates = [];
+  if (template.status !== 'active') return dates;
+  for (let occurrence = template.occurrence; dates.length < limit; occurrence++) {
+    const dueOn = addFrequency(template.startOn, template.frequency, occurrence);
+    if (dueOn > today || (template.endOn && dueOn > template.endOn)) break;
+    dates.push(dueOn);
+  }
+  return dates;
+}
+
+// Occurrences that fell due before `today`; resuming a paused template skips them
+export function missedOccurrences(template, today) {
+  let steps = 0;
+  while (addFrequency(template.startOn, template.frequency, template.occurrence + steps) < today) steps++;
+  return steps;
+}
@@ -0,0 +1,143 @@
+import { csvField } from '../lib/csv.js';
+import { applyPaymentsToBalances, balanceEntry, calculateOptimalTransactions, computeBillBalances, toBalanceList } from './bill-ledger.js';
+import { roundCents } from './bill-splits.js';
+
+// Per-person settle-up statements for a bill or a whole group, as CSV or printable HTML.
+
+// Everything each participant paid, owes and sent or received, ending in the same net balance
+// and suggested transfers that POST /settlements reports. Amounts are in the base currency.
+export function buildSettleUpStatement({ title, currency, bills, items, payments, members, generatedAt = new Date() }) {
+  const balanceMap = new Map();
+  const lines = [];
+  for (const bill of bills) {
+    const billItems = items.filter(item => item.billId === bill.id);
+    const { baseItems } = computeBillBalances(bill, billItems, balanceMap);
+    for (const item of baseItems) {
+      const base = { date: bill.createdAt, billTitle: bill.title, description: item.description };
+      if (item.payerId) lines.push({ ...base, userId: item.payerId, kind: 'paid', amount: roundCents(item.amount) });
+      for (const split of item.splits || []) {
+        lines.push({ ...base, userId: split.userId, kind: 'share', method: item.chargeType || item.splitMethod || 'exact', amount: roundCents(split.amount) });
+      }
+    }
+  }
+  applyPaymentsToBalances(balanceMap, payments);
+  for (const payment of payments) {
+    const base = { date: payment.createdAt, billTitle: bills.find(b => b.id === payment.billId)?.title || '', description: payment.note || 'Payment', amount: roundCents(payment.amount) };
+    lines.push({ ...base, userId: payment.fromUserId, kind: 'sent', counterpartyId: payment.toUserId });
+    lines.push({ ...base, userId: payment.toUserId, kind: 'received', counterpartyId: payment.fromUserId });
+  }
+
+  const memberById = new Map(members.map(m => [m.id, m]));
+  const nameOf = (uid) => memberById.get(uid)?.name || memberById.get(uid)?.email || uid;
+  members.forEach(m => balanceEntry(balanceMap, m.id));
+  const balances = toBalanceList(balanceMap);
+  const transactions = calculateOptimalTransactions(balances.map(b => ({ userId: b.userId, balance: b.balance })));
+  const byDate = (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+  const people = balances
+    .map(({ userId, ...totals }) => ({
+      userId,
+      name: nameOf(userId),
+      lines: lines.filter(l => l.userId === userId).sort(byDate).map(({ userId: _uid, ...line }) => ({
+        ...line,
+        ...(line.counterpartyId ? { counterpartyName: nameOf(line.counterpartyId) } : {})
+      })),
+      totals,
+      settleUp: transactions
+        .filter(t => t.from === userId || t.to === userId)
+        .map(t => (t.from === userId
+          ? { direction: 'pay', counterpartyId: t.to, counterpartyName: nameOf(t.to), amount: t.amount }
+          : { direction: 'receive', counterpartyId: t.from, counterpartyName: nameOf(t.from), amount: t.amount }))
+    }))
+    .sort((a, b) => String(a.name).localeCompare(String(b.name)));
+
+  return { title, currency, generatedAt: generatedAt.toISOString(), people, transactions };
+}
+
+const STATEMENT_LINE_LABELS = { paid: 'Paid', share: 'Share', sent: 'Payment sent', received: 'Payment received' };
+
+// One row per statement line, then each person's totals, net balance and settle-up transfers
+export function settleUpStatementToCsv(statement) {
+  const rows = [['Person', 'Type', 'Date', 'Bill', 'Description', 'Counterparty', `Amount (${statement.currency})`]];
+  for (const person of statement.people) {
+    for (const line of person.lines) {
+      rows.push([person.name, STATEMENT_LINE_LABELS[line.kind], line.date ? String(line.date).slice(0, 10) : '', line.billTitle, line.description, line.counterpartyName || '', line.amount.toFixed(2)]);
+    }
+    rows.push([person.name, 'Total paid', '', '', '', '', person.totals.paid.toFixed(2)]);
+    rows.push([person.name, 'Total share', '', '', '', '', person.totals.owed.toFixed(2)]);
+    rows.push([person.name, 'Payments sent', '', '', '', '', person.totals.sent.toFixed(2)]);
+    rows.push([person.name, 'Payments received', '', '', '', '', person.totals.received.toFixed(2)]);
+    rows.push([person.name, 'Net', '', '', person.totals.balance > 0 ? 'Is owed' : person.totals.balance < 0 ? 'Owes' : 'Settled', '', person.totals.balance.toFixed(2)]);
+    for (const step of person.settleUp) {
+      rows.push([person.name, step.direction === 'pay' ? 'Pays' : 'Receives', '', '', '', step.counterpartyName, step.amount.toFixed(2)]);
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n');
+}
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]));
+}
+
+// Printable page with one section per person, each starting on a new page when printed
+export function settleUpStatementToHtml(statement) {
+  const money = (amount) => `${escapeHtml(statement.currency)} ${amount.toFixed(2)}`;
+  const sections = statement.people.map(person => {
+    const rows = person.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.date ? String(line.date).slice(0, 10) : '')}</td>
+          <td>${STATEMENT_LINE_LABELS[line.kind]}</td>
+          <td>${escapeHtml(line.billTitle)}</td>
+          <td>${escapeHtml(line.description)}${line.counterpartyName ? ` (${line.kind === 'sent' ? 'to' : 'from'} ${escapeHtml(line.counterpartyName)})` : ''}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`).join('');
+    const settleUp = person.settleUp.length === 0
+      ? '<p>Nothing left to settle.</p>'
+      : `<ul>${person.settleUp.map(step => `<li>${step.direction === 'pay' ? 'Pay' : 'Receive from'} ${escapeHtml(step.counterpartyName)}: <strong>${money(step.amount)}</strong></li>`).join('')}</ul>`;
+    return `
+    <section>
+      <h2>${escapeHtml(person.name)}</h2>
+      <table>
+        <thead><tr><th>Date</th><th>Type</th><th>Bill</th><th>Description</th><th class="num">Amount</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="5">No activity</td></tr>'}
+        </tbody>
+      </table>
+      <table class="totals">
+        <tr><td>Total paid</td><td class="num">${money(person.totals.paid)}</td></tr>
+        <tr><td>Total share</td><td class="num">${money(person.totals.owed)}</td></tr>
+        <tr><td>Payments sent</td><td class="num">${money(person.totals.sent)}</td></tr>
+        <tr><td>Payments received</td><td class="num">${money(person.totals.received)}</td></tr>
+        <tr class="net"><td>${person.totals.balance > 0 ? 'Net (is owed)' : person.totals.balance < 0 ? 'Net (owes)' : 'Net'}</td><td class="num">${money(Math.abs(person.totals.balance))}</td></tr>
+      </table>
+      <h3>Settle up</h3>
+      ${settleUp}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Settle-up statement - ${escapeHtml(statement.title)}</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #222; margin: 2rem; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; font-size: 0.9rem; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.35rem 0.5rem; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { width: auto; min-width: 20rem; margin-left: auto; }
+    .net td { font-weight: bold; border-top: 2px solid #222; }
+    section { page-break-after: always; }
+    section:last-child { page-break-after: auto; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Settle-up statement: ${escapeHtml(statement.title)}</h1>
+  <p>Generated ${escapeHtml(statement.generatedAt.slice(0, 10))}. All amounts in ${escapeHtml(statement.currency)}.</p>${sections}
+</body>
+</html>`;
+}
+
+export function settleUpFilename(statement, format) {
+  return `${statement.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'bill'}-settle-up.${format}`;
+}
@@ -0,0 +1,55 @@
+// Split arithmetic for Bill Splitter items. Amounts are handled in whole cents so every split adds
+// up to the item amount exactly. A split is { method: 'equal'|'exact'|'percentage'|'shares', participants }
+// where each participant is { userId, value? }.
+
+export function roundCents(value) {
+  return Math.round(value * 100) / 100;
+}
+
+export function toCents(value) {
+  return Math.round((Number(value) || 0) * 100);
+}
+
+// Returns a human readable problem with the split definition, or null when it is valid
+export function validateSplitDefinition(amount, split) {
+  const { method, participants } = split;
+  const userIds = participants.map(p => p.userId);
+  if (new Set(userIds).size !== userIds.length) return 'Each participant can only appear once in a split';
+  if (method === 'equal') return null;
+  if (participants.some(p => typeof p.value !== 'number')) return `Every participant needs a value for a ${method} split`;
+  if (participants.some(p => p.value < 0)) return 'Split values cannot be negative';
+  const sum = participants.reduce((acc, p) => acc + p.value, 0);
+  if (method === 'exact' && toCents(sum) !== toCents(amount)) {
+    return `Exact splits add up to ${roundCents(sum).toFixed(2)} but the item amount is ${roundCents(amount).toFixed(2)}`;
+  }
+  if (method === 'percentage' && Math.abs(sum - 100) > 0.01) return `Percentages add up to ${roundCents(sum)}% instead of 100%`;
+  if (method === 'shares' && sum <= 0) return 'At least one participant needs a share greater than zero';
+  return null;
+}
+
+// Largest-remainder allocation of whole cents by weight. Leftover cents go to the largest
+// fractional remainders, and to the earlier participant on ties, so results are deterministic.
+// Negative weights count as zero; with no positive weight nothing is allocated.
+export function allocateCents(totalCents, weights) {
+  const positive = weights.map(w => Math.max(0, Number(w) || 0));
+  const weightSum = positive.reduce((acc, w) => acc + w, 0);
+  if (weightSum <= 0) return weights.map(() => 0);
+  const exact = positive.map(w => (totalCents * w) / weightSum);
+  const cents = exact.map(v => Math.floor(v + 1e-9));
+  let leftover = totalCents - cents.reduce((acc, c) => acc + c, 0);
+  const order = exact
+    .map((v, index) => ({ index, remainder: Math.round((v - cents[index]) * 1e6) }))
+    .filter(({ index }) => positive[index] > 0)
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let k = 0; leftover > 0; k = (k + 1) % order.length, leftover--) {
+    cents[order[k].index] += 1;
+  }
+  return cents;
+}
+
+export function computeSplits(amount, split) {
+  const { method, participants } = split;
+  if (method === 'exact') return participants.map(p => ({ userId: p.userId, amount: roundCents(p.value) }));
+  const weights = participants.map(p => (method === 'equal' ? 1 : Number(p.value) || 0));
+  return allocateCents(toCents(amount), weights).map((cents, i) => ({ userId: participants[i].userId, amount: cents / 100 }));
+}
@@ -0,0 +1,56 @@
+// Alert thresholds and over-limit approvals for Budget Manager categories.
+// Thresholds are percentages of a category's limit; expenses carry a status of
+// 'approved', 'pending' or 'rejected' (rows from before approvals existed have none).
+
+export const DEFAULT_ALERT_THRESHOLDS = [75, 90, 100];
+export const EXPENSE_STATUSES = ['approved', 'pending', 'rejected'];
+
+// Sorted, de-duplicated whole percentages between 1 and 1000; null when the input is not valid
+export function normalizeThresholds(value) {
+  if (!Array.isArray(value)) return null;
+  const thresholds = value.map(Number);
+  if (thresholds.some(t => !Number.isInteger(t) || t < 1 || t > 1000)) return null;
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+export const thresholdsOf = (category) => normalizeThresholds(category?.alert_thresholds ?? category?.alertThresholds) || DEFAULT_ALERT_THRESHOLDS;
+
+// Pending and rejected expenses do not count towards spend
+export const isCountedExpense = (expense) => !expense.status || expense.status === 'approved';
+
+// Thresholds a category passes when its spend goes from `before` to `after`
+export function crossedThresholds({ limit, before, after, thresholds = DEFAULT_ALERT_THRESHOLDS }) {
+  if (!(limit > 0) || after <= before) return [];
+  const share = (amount) => (amount / limit) * 100;
+  return thresholds.filter(t => share(before) < t && share(after) >= t);
+}
+
+// Highest threshold the category has reached, or null below the lowest one
+export function alertLevel({ limit, spent, thresholds = DEFAULT_ALERT_THRESHOLDS }) {
+  if (!(limit > 0)) return null;
+  const reached = thresholds.filter(t => (spent / limit) * 100 >= t);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+}
+
+// An expense is held for approval when the budget asks for it and it would take the category over its limit
+export function needsApproval({ approvalRequired, limit, spent, amount }) {
+  return Boolean(approvalRequired) && limit > 0 && spent + amount > limit;
+}
+
+// Notification rows for each recipient about the thresholds an expense crossed
+export function thresholdNotifications({ budget, category, crossed, spent, recipients, expenseId = null }) {
+  return crossed.flatMap(threshold => {
+    const message = threshold >= 100
+      ? `${category.name} in ${budget.name} is over its limit (${Math.round((spent / category.limit) * 100)}% used)`
+      : `${category.name} in ${budget.name} reached ${threshold}% of its limit`;
+    return recipients.map(userId => ({
+      budget_id: budget.id,
+      user_id: userId,
+      category_id: category.id,
+      expense_id: expenseId,
+      type: 'threshold',
+      threshold,
+      message
+    }));
+  });
+}
@@ -0,0 +1,107 @@
+import { csvField } from '../lib/csv.js';
+import { isCountedExpense } from './budget-alerts.js';
+import { periodLabel } from './budget-periods.js';
+
+// Finance export of a budget: category and user names resolved, a per-category summary and the
+// expense lines, as a JSON document or as CSV that spreadsheet tools (Excel included) open cleanly.
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const dayOf = (date) => (date ? String(date).slice(0, 10) : '');
+const UNCATEGORIZED = 'Uncategorized';
+
+// Only the date range filters lines; the summary covers the same filtered lines, so with a range the
+// spent and remaining figures describe that window against the category's full-period limit.
+export function buildBudgetExport({ budget, categories = [], expenses = [], users = new Map(), from = null, to = null, receiptPath = null, generatedAt = new Date() }) {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const userName = (id) => {
+    const user = users.get(id);
+    return user?.name || user?.email || id || '';
+  };
+
+  const lines = expenses
+    .filter(e => (!from || dayOf(e.date) >= from) && (!to || dayOf(e.date) <= to))
+    .map(e => ({
+      id: e.id,
+      date: dayOf(e.date),
+      category: categoryNames.get(e.category_id) || UNCATEGORIZED,
+      categoryId: e.category_id || null,
+      description: e.description || '',
+      amount: round2(Number(e.amount || 0)),
+      status: e.status || 'approved',
+      createdBy: userName(e.created_by),
+      receipts: (e.receipts || []).map(r => ({ name: r.name, url: receiptPath ? receiptPath(e, r) : undefined }))
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.description.localeCompare(b.description));
+
+  const rows = categories.map(c => ({ id: c.id, name: c.name, limit: Number(c.limit || 0), spent: 0, pending: 0, count: 0 }));
+  const byId = new Map(rows.map(r => [r.id, r]));
+  for (const line of lines) {
+    let row = byId.get(line.categoryId);
+    if (!row) {
+      row = byId.get(null) || { id: null, name: UNCATEGORIZED, limit: 0, spent: 0, pending: 0, count: 0 };
+      if (!byId.has(null)) {
+        byId.set(null, row);
+        rows.push(row);
+      }
+    }
+    if (isCountedExpense(line)) {
+      row.spent += line.amount;
+      row.count += 1;
+    } else if (line.status === 'pending') {
+      row.pending += line.amount;
+    }
+  }
+
+  const summarize = (row) => ({
+    name: row.name,
+    limit: round2(row.limit),
+    spent: round2(row.spent),
+    remaining: round2(row.limit - row.spent),
+    utilization: row.limit > 0 ? round2((row.spent / row.limit) * 100) : null,
+    pending: round2(row.pending),
+    expenses: row.count
+  });
+  const total = rows.reduce((sum, row) => ({
+    name: 'Total',
+    limit: sum.limit + row.limit,
+    spent: sum.spent + row.spent,
+    pending: sum.pending + row.pending,
+    count: sum.count + row.count
+  }), { name: 'Total', limit: 0, spent: 0, pending: 0, count: 0 });
+
+  return {
+    budget: { id: budget.id, name: budget.name, period: periodLabel(budget), currency: budget.currency || 'USD' },
+    range: { from, to },
+    generatedAt: generatedAt.toISOString(),
+    summary: { categories: rows.map(summarize), total: summarize(total) },
+    expenses: lines.map(({ categoryId, ...line }) => line)
+  };
+}
+
+const money = (n) => n.toFixed(2);
+
+// Metadata, the category summary and the expense lines as three blocks separated by blank rows.
+// CRLF line endings and a UTF-8 byte order mark so Excel picks the right encoding.
+export function budgetExportToCsv(data) {
+  const { budget, range, summary } = data;
+  const rows = [
+    ['Budget', budget.name],
+    ['Period', budget.period],
+    ['Currency', budget.currency],
+    ['From', range.from || ''],
+    ['To', range.to || ''],
+    ['Generated', data.generatedAt],
+    [],
+    ['Category', 'Limit', 'Spent', 'Remaining', 'Utilization %', 'Pending approval', 'Expenses'],
+    ...[...summary.categories, summary.total].map(c => [
+      c.name, money(c.limit), money(c.spent), money(c.remaining), c.utilization === null ? '' : c.utilization.toFixed(1), money(c.pending), c.expenses
+    ]),
+    [],
+    ['Date', 'Category', 'Description', 'Amount', 'Status', 'Created By', 'Receipts'],
+    ...data.expenses.map(e => [
+      e.date, e.category, e.description, money(e.amount), e.status, e.createdBy,
+      e.receipts.map(r => (r.url ? `${r.name} (${r.url})` : r.name)).join('; ')
+    ])
+  ];
+  return `\uFEFF${rows.map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+}
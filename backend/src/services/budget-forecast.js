@@ -0,0 +1,131 @@
+// Spend projections for Budget Manager. Dates are calendar days ('YYYY-MM-DD'), handled in UTC.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const toDay = (value) => {
+  const time = Date.parse(typeof value === 'string' ? value.slice(0, 10) : value);
+  return Number.isFinite(time) ? Math.floor(time / DAY) : null;
+};
+const fromDay = (day) => new Date(day * DAY).toISOString().slice(0, 10);
+const round2 = (n) => Math.round(n * 100) / 100;
+
+// First day and the day after the last day of a budget's period
+export function budgetPeriodRange({ period, year, month, quarter }) {
+  let startMonth = 0;
+  let months = 12;
+  if (period === 'month') {
+    startMonth = (Number(month) || 1) - 1;
+    months = 1;
+  } else if (period === 'quarter') {
+    startMonth = ((Number(quarter) || 1) - 1) * 3;
+    months = 3;
+  }
+  const start = Date.UTC(Number(year), startMonth, 1) / DAY;
+  const end = Date.UTC(Number(year), startMonth + months, 1) / DAY;
+  return { start: fromDay(start), end: fromDay(end), totalDays: end - start };
+}
+
+// Daily spend rate as the average of two estimates: the plain linear burn rate (spent so far over
+// days elapsed) and a day-of-period weighted rate where day d counts d times, so spending that has
+// picked up recently pulls the projection up and an early one-off purchase weighs less.
+function dailyRate(dailySpend, elapsed) {
+  if (elapsed <= 0) return 0;
+  let spent = 0;
+  let weighted = 0;
+  for (let d = 0; d < elapsed; d++) {
+    spent += dailySpend[d] || 0;
+    weighted += (d + 1) * (dailySpend[d] || 0);
+  }
+  const linear = spent / elapsed;
+  const recent = weighted / ((elapsed * (elapsed + 1)) / 2);
+  return (linear + recent) / 2;
+}
+
+function project({ limit, spent, dailySpend, elapsed, remaining, startDay }) {
+  const rate = dailyRate(dailySpend, elapsed);
+  const projected = spent + rate * remaining;
+  let status = 'on_track';
+  let exceedsOn = null;
+  if (limit > 0 && spent > limit) {
+    status = 'over';
+    let cumulative = 0;
+    for (let d = 0; d < dailySpend.length; d++) {
+      cumulative += dailySpend[d] || 0;
+      if (cumulative > limit) {
+        exceedsOn = fromDay(startDay + d);
+        break;
+      }
+    }
+  } else if (limit > 0 && projected > limit) {
+    status = 'at_risk';
+    // First day the running total passes the limit at the projected rate
+    exceedsOn = fromDay(startDay + elapsed - 1 + Math.floor((limit - spent) / rate) + 1);
+  }
+  return {
+    limit,
+    spent: round2(spent),
+    dailyRate: round2(rate),
+    projected: round2(projected),
+    projectedUtilization: limit > 0 ? round2((projected / limit) * 100) : 0,
+    projectedOverBy: limit > 0 ? round2(Math.max(0, projected - limit)) : 0,
+    status,
+    exceedsOn
+  };
+}
+
+// Projects end-of-period spend per category and for the whole budget as of `asOf` (default today).
+// Expenses dated after asOf still count as spent but do not feed the burn rate. The series has one
+// point per day: the actual running total up to asOf, the projected one from asOf to the period end.
+export function forecastBudget({ budget, categories = [], expenses = [], asOf = new Date() }) {
+  const range = budgetPeriodRange(budget);
+  const startDay = toDay(range.start);
+  const endDay = toDay(range.end);
+  const asOfDay = Math.min(Math.max(toDay(asOf) ?? startDay, startDay - 1), endDay - 1);
+  const elapsed = asOfDay - startDay + 1;
+  const remaining = range.totalDays - elapsed;
+
+  const emptyDays = () => new Array(range.totalDays).fill(0);
+  const byCategory = new Map(categories.map(c => [c.id, { spent: 0, dailySpend: emptyDays() }]));
+  const total = { spent: 0, dailySpend: emptyDays() };
+  for (const expense of expenses) {
+    const day = toDay(expense.date);
+    if (day === null || day < startDay || day >= endDay) continue;
+    const amount = Number(expense.amount || 0);
+    const targets = [total, byCategory.get(expense.category_id ?? expense.categoryId)].filter(Boolean);
+    for (const target of targets) {
+      target.spent += amount;
+      if (day <= asOfDay) target.dailySpend[day - startDay] += amount;
+    }
+  }
+
+  const common = { elapsed, remaining, startDay };
+  const categoryForecasts = categories.map(c => ({
+    id: c.id,
+    name: c.name,
+    ...project({ limit: Number(c.limit || 0), ...byCategory.get(c.id), ...common })
+  }));
+  const totalLimit = categories.reduce((sum, c) => sum + Number(c.limit || 0), 0);
+  const totalForecast = project({ limit: totalLimit, ...total, ...common });
+
+  const series = [];
+  let actual = 0;
+  for (let d = 0; d < range.totalDays; d++) {
+    if (d < elapsed) actual += total.dailySpend[d];
+    const point = { date: fromDay(startDay + d), actual: null, projected: null };
+    if (d < elapsed) point.actual = round2(actual);
+    // The projected line starts where the actual one ends
+    if (d >= elapsed - 1) {
+      const share = remaining > 0 ? (d - elapsed + 1) / remaining : 0;
+      point.projected = round2(total.spent + (totalForecast.projected - total.spent) * share);
+    }
+    series.push(point);
+  }
+
+  return {
+    period: { ...range, asOf: fromDay(Math.max(asOfDay, startDay)), elapsedDays: Math.max(elapsed, 0) },
+    categories: categoryForecasts,
+    total: totalForecast,
+    atRiskCount: categoryForecasts.filter(c => c.status !== 'on_track').length,
+    series
+  };
+}
@@ -0,0 +1,90 @@
+// Period arithmetic, rollover and cross-period comparison for Budget Manager.
+// A period is { period: 'month'|'quarter'|'year', year, month?, quarter? } as stored on budgets.
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+// Index of a period on its own scale (months, quarters or years since year 0), and back
+const periodIndex = ({ period, year, month, quarter }) => {
+  if (period === 'month') return Number(year) * 12 + (Number(month) || 1) - 1;
+  if (period === 'quarter') return Number(year) * 4 + (Number(quarter) || 1) - 1;
+  return Number(year);
+};
+
+const fromIndex = (period, index) => {
+  if (period === 'month') return { period, year: Math.floor(index / 12), month: (index % 12) + 1, quarter: Math.floor((index % 12) / 3) + 1 };
+  if (period === 'quarter') return { period, year: Math.floor(index / 4), month: null, quarter: (index % 4) + 1 };
+  return { period, year: index, month: null, quarter: null };
+};
+
+export const shiftPeriod = (budget, steps) => fromIndex(budget.period, periodIndex(budget) + steps);
+export const nextPeriod = (budget) => shiftPeriod(budget, 1);
+
+export const samePeriod = (a, b) => a.period === b.period && periodIndex(a) === periodIndex(b);
+
+export function periodLabel({ period, year, month, quarter }) {
+  if (period === 'month') return `${year}-${String(month).padStart(2, '0')}`;
+  if (period === 'quarter') return `${year} Q${quarter}`;
+  return String(year);
+}
+
+// Names are matched case- and whitespace-insensitively so "Travel " lines up with "travel"
+const categoryKey = (name) => String(name || '').trim().toLowerCase();
+
+// Categories for a cloned budget. Unspent amounts of the categories listed in rolloverIds are added
+// to their new limit; overspent categories roll nothing (a deficit is not carried forward).
+export function cloneCategories({ categories, spentByCategory, rolloverIds = [] }) {
+  const rollover = new Set(rolloverIds);
+  return categories.map(c => {
+    const limit = Number(c.limit || 0);
+    const unspent = Math.max(0, limit - Number(spentByCategory.get(c.id) || 0));
+    const rolledOver = rollover.has(c.id) ? round2(unspent) : 0;
+    return {
+      name: c.name,
+      limit: round2(limit + rolledOver),
+      rolledOver,
+      alertThresholds: c.alert_thresholds ?? null
+    };
+  });
+}
+
+// Lines up categories across budgets, oldest period first. Each row has one cell per period (null when
+// the category did not exist then) and a delta of spend against the previous period that had it.
+export function compareBudgets(entries) {
+  const ordered = [...entries].sort((a, b) => periodIndex(a.budget) - periodIndex(b.budget));
+  const rows = new Map();
+  ordered.forEach(({ budget, categories, spentByCategory }, column) => {
+    for (const c of categories) {
+      const key = categoryKey(c.name);
+      if (!rows.has(key)) rows.set(key, { name: c.name.trim(), cells: new Array(ordered.length).fill(null) });
+      const cell = rows.get(key).cells[column] || { limit: 0, spent: 0 };
+      cell.limit = round2(cell.limit + Number(c.limit || 0));
+      cell.spent = round2(cell.spent + Number(spentByCategory.get(c.id) || 0));
+      rows.get(key).cells[column] = cell;
+    }
+  });
+
+  const withDeltas = (cells) => {
+    let previous = null;
+    return cells.map(cell => {
+      if (!cell) return null;
+      const delta = previous
+        ? { spent: round2(cell.spent - previous.spent), spentPct: previous.spent > 0 ? round2(((cell.spent - previous.spent) / previous.spent) * 100) : null, limit: round2(cell.limit - previous.limit) }
+        : null;
+      previous = cell;
+      return { ...cell, delta };
+    });
+  };
+
+  const totals = ordered.map((_, column) => Array.from(rows.values()).reduce((sum, row) => {
+    const cell = row.cells[column];
+    return cell ? { limit: round2(sum.limit + cell.limit), spent: round2(sum.spent + cell.spent) } : sum;
+  }, { limit: 0, spent: 0 }));
+
+  return {
+    periods: ordered.map(({ budget }) => ({ budgetId: budget.id, name: budget.name, label: periodLabel(budget) })),
+    rows: Array.from(rows.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(row => ({ name: row.name, cells: withDeltas(row.cells) })),
+    totals: withDeltas(totals)
+  };
+}
@@ -1,16 +1,241 @@
 import { Server } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
-import fs from 'fs';
-import path from 'path';
+import crypto from 'crypto';
+import { verifyAccessToken } from '../lib/tokens.js';
+import { proposeSchedule, validateSchedule, itemDuration } from './itinerary-scheduler.js';
+import { buildCalendar } from '../lib/ics.js';
+import { createSessionStore } from './session-store.js';
 
-class CollaborationService {
-  constructor() {
+export const VOTING_MODES = ['updown', 'approval', 'ranked', 'dot'];
+const DEFAULT_DOT_BUDGET = 10;
+
+// Presence: active (recent input), idle (connected, no input for IDLE_AFTER_MS), away (socket gone
+// or heartbeats missed, may still come back) and offline (grace window over). All overridable via env.
+const PRESENCE_HEARTBEAT_MS = Number(process.env.COLLAB_HEARTBEAT_MS) || 15 * 1000;
+const PRESENCE_IDLE_AFTER_MS = Number(process.env.COLLAB_IDLE_AFTER_MS) || 2 * 60 * 1000;
+const RECONNECT_GRACE_MS = Number(process.env.COLLAB_RECONNECT_GRACE_MS) || 60 * 1000;
+
+// Strongest first. 'manage' covers settings, invites, roles and ending the session.
+export const SESSION_ROLES = ['owner', 'editor', 'voter', 'viewer'];
+const ROLE_PERMISSIONS = {
+  owner: ['view', 'vote', 'comment', 'edit', 'manage'],
+  editor: ['view', 'vote', 'comment', 'edit'],
+  voter: ['view', 'vote', 'comment'],
+  viewer: ['view']
+};
+
+const DEFAULT_SETTINGS = {
+  votingEnabled: true,
+  anonymousVoting: false,
+  requireConsensus: false,
+  autoSchedule: true,
+  votingMode: 'updown',
+  dotBudget: DEFAULT_DOT_BUDGET,
+  // ISO time after which voting locks and the outcome is written into the itinerary
+  votingDeadline: null
+};
+
+// setTimeout fires immediately for delays above ~24.8 days, so long deadlines are re-armed in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Per-item score for every mode except ranked choice, which is decided by instant runoff
+function tallyItemVotes(mode, itemVotes) {
+  const entries = Array.from(itemVotes.entries());
+  const voters = entries.map(([userId]) => userId);
+  if (mode === 'approval') {
+    const approvals = entries.filter(([, v]) => v.value === 'approve').length;
+    return { approvals, total: approvals, voters };
+  }
+  if (mode === 'dot') {
+    const allocations = entries.map(([userId, v]) => ({ userId, points: Number(v.value) || 0 }));
+    const points = allocations.reduce((sum, a) => sum + a.points, 0);
+    return { points, total: points, voters, allocations };
+  }
+  let upvotes = 0;
+  let downvotes = 0;
+  for (const [, voteData] of entries) {
+    if (voteData.value === 'up') upvotes++;
+    else if (voteData.value === 'down') downvotes++;
+  }
+  return { upvotes, downvotes, total: upvotes - downvotes, voters };
+}
+
+// Instant-runoff over ranked ballots (arrays of itemIds, most preferred first). Each round counts
+// every ballot for its highest remaining choice; a majority of live ballots wins, otherwise the
+// weakest candidate is dropped. Ties for last go to the candidate with fewer first-round votes,
+// then the one first seen later, so the result never depends on Map ordering.
+export function instantRunoff(ballots) {
+  const candidates = [];
+  for (const ranking of ballots) {
+    for (const itemId of ranking) if (!candidates.includes(itemId)) candidates.push(itemId);
+  }
+  const remaining = new Set(candidates);
+  const rounds = [];
+  let firstRound = null;
+
+  while (remaining.size > 0) {
+    const counts = Object.fromEntries(Array.from(remaining).map(id => [id, 0]));
+    let exhausted = 0;
+    for (const ranking of ballots) {
+      const choice = ranking.find(id => remaining.has(id));
+      if (choice) counts[choice]++;
+      else exhausted++;
+    }
+    if (!firstRound) firstRound = { ...counts };
+    const live = ballots.length - exhausted;
+    const ordered = Array.from(remaining).sort((a, b) => counts[b] - counts[a] || candidates.indexOf(a) - candidates.indexOf(b));
+    const leader = ordered[0];
+
+    if (counts[leader] * 2 > live || remaining.size === 1) {
+      rounds.push({ round: rounds.length + 1, counts, exhausted, eliminated: [] });
+      return { winner: counts[leader] > 0 ? leader : null, rounds, firstRound };
+    }
+    const lowest = Math.min(...ordered.map(id => counts[id]));
+    if (ordered.every(id => counts[id] === lowest)) {
+      // Every remaining candidate is tied; nobody can be eliminated fairly
+      rounds.push({ round: rounds.length + 1, counts, exhausted, eliminated: [], tied: ordered });
+      return { winner: null, rounds, firstRound };
+    }
+    const eliminated = lowest === 0
+      ? ordered.filter(id => counts[id] === 0)
+      : [ordered.filter(id => counts[id] === lowest)
+          .sort((a, b) => firstRound[a] - firstRound[b] || candidates.indexOf(b) - candidates.indexOf(a))[0]];
+    eliminated.forEach(id => remaining.delete(id));
+    rounds.push({ round: rounds.length + 1, counts, exhausted, eliminated });
+  }
+  return { winner: null, rounds, firstRound: firstRound || {} };
+}
+
+// Handshake rejections reach the client as a connect_error carrying data.code
+function socketAuthError(message) {
+  const err = new Error(message);
+  err.data = { code: 'unauthorized' };
+  return err;
+}
+
+// Older files may hold a bare vote value instead of { value, timestamp }
+function restoreVoteEntry(entry) {
+  if (entry && typeof entry === 'object' && !Array.isArray(entry) && 'value' in entry) {
+    return { value: entry.value, timestamp: entry.timestamp || null };
+  }
+  return { value: entry, timestamp: null };
+}
+
+// Granular itinerary edits. Items are addressed by id; `index`/`toIndex` are positions in the
+// items array as the author saw it, which is what needs transforming when edits race.
+export const ITINERARY_OP_TYPES = ['add', 'remove', 'move', 'update'];
+// Operations older than this many versions are rejected instead of transformed
+const ITINERARY_OP_LOG_LIMIT = 200;
+// Revisions (with item snapshots) kept per session for history and restore
+const ITINERARY_HISTORY_LIMIT = 50;
+
+const clampIndex = (index, max) => Math.min(Math.max(Number.isInteger(index) ? index : max, 0), max);
+
+// Applies an operation to an items array without mutating it. Returns the new items, the
+// operation with its positions resolved (that form is what gets logged and broadcast) and
+// the operation that would undo it.
+export function applyItineraryOp(items, op) {
+  const index = op.itemId !== undefined ? items.findIndex(i => i.id === op.itemId) : -1;
+  switch (op.type) {
+    case 'add': {
+      if (!op.item || typeof op.item !== 'object' || !op.item.id) return { error: 'Item needs an id' };
+      if (items.some(i => i.id === op.item.id)) return { error: 'Item is already in the itinerary' };
+      const at = clampIndex(op.index, items.length);
+      const next = [...items];
+      next.splice(at, 0, op.item);
+      return { items: next, op: { type: 'add', item: op.item, index: at }, inverse: { type: 'remove', itemId: op.item.id } };
+    }
+    case 'remove': {
+      // Someone else already removed it; nothing left to do
+      if (index === -1) return { noop: true };
+      return {
+        items: items.filter((_, i) => i !== index),
+        op: { type: 'remove', itemId: op.itemId, index },
+        inverse: { type: 'add', item: items[index], index }
+      };
+    }
+    case 'move': {
+      if (index === -1) return { error: 'Item was removed' };
+      const to = clampIndex(op.toIndex, items.length - 1);
+      if (to === index) return { noop: true };
+      const next = [...items];
+      const [item] = next.splice(index, 1);
+      next.splice(to, 0, item);
+      return { items: next, op: { type: 'move', itemId: op.itemId, from: index, to }, inverse: { type: 'move', itemId: op.itemId, toIndex: index } };
+    }
+    case 'update': {
+      if (index === -1) return { error: 'Item was removed' };
+      if (typeof op.field !== 'string' || !op.field || op.field === 'id') return { error: 'Invalid field' };
+      const next = [...items];
+      next[index] = { ...items[index], [op.field]: op.value };
+      return {
+        items: next,
+        op: { type: 'update', itemId: op.itemId, field: op.field, value: op.value },
+        inverse: { type: 'update', itemId: op.itemId, field: op.field, value: items[index][op.field] }
+      };
+    }
+    default:
+      return { error: 'Unknown itinerary operation' };
+  }
+}
+
+// Where position `index` ends up after an already-applied (resolved) operation
+function shiftIndex(index, applied) {
+  switch (applied.type) {
+    case 'add':
+      return applied.index <= index ? index + 1 : index;
+    case 'remove':
+      return applied.index < index ? index - 1 : index;
+    case 'move': {
+      const without = applied.from < index ? index - 1 : index;
+      return applied.to <= without ? without + 1 : without;
+    }
+    default:
+      return index;
+  }
+}
+
+// Rewrites a stale operation so it still means the same thing after `applied` ran first.
+// Two edits of the same field cannot both win, so the later one is rejected.
+export function transformItineraryOp(op, applied) {
+  if (applied.type === 'restore') return { error: 'The itinerary was restored to an earlier version' };
+  if (applied.type === 'schedule') return { error: 'The itinerary was rescheduled' };
+  if (applied.type === 'decision') return { error: 'Voting closed and the itinerary was reordered' };
+  if (op.type === 'update' && applied.type === 'update' && op.itemId === applied.itemId && op.field === applied.field) {
+    return { error: `Someone else changed ${op.field} first` };
+  }
+  if (op.type === 'add' && Number.isInteger(op.index)) return { op: { ...op, index: shiftIndex(op.index, applied) } };
+  if (op.type === 'move' && Number.isInteger(op.toIndex)) return { op: { ...op, toIndex: shiftIndex(op.toIndex, applied) } };
+  return { op };
+}
+
+export class CollaborationService {
+  // `store` persists sessions (see session-store.js); by default it follows COLLAB_STORAGE,
+  // with `sessionsFile` as the file store's path
+  constructor({ sessionsFile, store } = {}) {
     this.io = null;
     this.sessions = new Map(); // sessionId -> session data
     this.userSessions = new Map(); // userId -> Set of sessionIds
-    this.votes = new Map(); // sessionId -> Map of itemId -> Set of userIds
-    this.sessionsFile = path.resolve(process.cwd(), 'data/sessions.json');
-    this.loadFromDisk();
+    this.votes = new Map(); // sessionId -> Map of itemId -> Map of userId -> { value, timestamp }
+    this.ballots = new Map(); // sessionId -> Map of userId -> { ranking, timestamp } (ranked-choice mode)
+    this.itineraryOps = new Map(); // sessionId -> recent applied itinerary operations, oldest first
+    this.itineraryHistory = new Map(); // sessionId -> [{ version, op, userId, timestamp, items }], oldest first
+    this.invites = new Map(); // token -> { sessionId, role, expiresAt, maxUses, uses, ... }
+    this.deadlineTimers = new Map(); // sessionId -> pending voting deadline timeout
+    this.store = store || createSessionStore({ sessionsFile });
+    // File stores load synchronously; database stores fill the service in shortly after startup
+    if (this.store.loadSync) {
+      this.ready = Promise.resolve();
+      try {
+        this.hydrate(this.store.loadSync());
+      } catch (e) {
+        console.error('Failed to load sessions:', e);
+      }
+    } else {
+      this.ready = this.store.load()
+        .then(records => this.hydrate(records))
+        .catch(e => console.error('Failed to load sessions:', e));
+    }
   }
 
   // --- Persistence helpers ---
@@ -28,52 +253,99 @@ class CollaborationService {
       itinerary: s.itinerary,
       comments: s.comments,
       settings: s.settings,
+      roles: s.roles,
+      decision: s.decision || null,
       participants: Array.from(s.participants.values())
     };
   }
 
-  saveToDisk() {
-    try {
-      const all = Array.from(this.sessions.keys()).map(id => this.serializeSession(id)).filter(Boolean);
-      fs.mkdirSync(path.dirname(this.sessionsFile), { recursive: true });
-      fs.writeFileSync(this.sessionsFile, JSON.stringify(all, null, 2), 'utf-8');
-    } catch (e) {
-      console.error('Failed to save sessions:', e);
+  // Raw votes with voter ids and timestamps, for the session store only (never sent to clients)
+  serializeVotes(sessionId) {
+    const votes = {};
+    for (const [itemId, itemVotes] of this.votes.get(sessionId) || []) {
+      if (itemVotes.size > 0) votes[itemId] = Object.fromEntries(itemVotes);
     }
+    const ballots = Object.fromEntries(this.ballots.get(sessionId) || []);
+    return { votes, ballots };
   }
 
-  loadFromDisk() {
-    try {
-      if (!fs.existsSync(this.sessionsFile)) return;
-      const raw = fs.readFileSync(this.sessionsFile, 'utf-8');
-      const arr = JSON.parse(raw);
-      for (const s of arr) {
-        const session = {
-          id: s.id,
-          name: s.name,
-          teamId: s.teamId,
-          creatorId: s.creatorId,
-          createdAt: s.createdAt,
-          endedAt: s.endedAt || null,
-          participants: new Map(),
-          itinerary: s.itinerary || { items: [], startDate: null, endDate: null },
-          votes: new Map(),
-          comments: s.comments || {},
-          settings: s.settings || { votingEnabled: true, anonymousVoting: false, requireConsensus: false, autoSchedule: true },
-          status: s.status || 'active'
-        };
-        if (Array.isArray(s.participants)) {
-          for (const p of s.participants) {
-            session.participants.set(p.id, { ...p, socketId: p.socketId || null });
-            if (!this.userSessions.has(p.id)) this.userSessions.set(p.id, new Set());
-            this.userSessions.get(p.id).add(session.id);
-          }
+  restoreVotes(sessionId, stored) {
+    const votes = stored?.votes && typeof stored.votes === 'object' ? stored.votes : {};
+    const sessionVotes = new Map();
+    for (const [itemId, byUser] of Object.entries(votes)) {
+      if (!byUser || typeof byUser !== 'object') continue;
+      const itemVotes = new Map(Object.entries(byUser).map(([userId, entry]) => [userId, restoreVoteEntry(entry)]));
+      if (itemVotes.size > 0) sessionVotes.set(itemId, itemVotes);
+    }
+    if (sessionVotes.size > 0) this.votes.set(sessionId, sessionVotes);
+
+    const ballots = stored?.ballots && typeof stored.ballots === 'object' ? stored.ballots : {};
+    const sessionBallots = new Map(Object.entries(ballots)
+      .filter(([, b]) => Array.isArray(b?.ranking))
+      .map(([userId, b]) => [userId, { ranking: b.ranking, timestamp: b.timestamp || null }]));
+    if (sessionBallots.size > 0) this.ballots.set(sessionId, sessionBallots);
+  }
+
+  // Every session as stored: the public fields plus raw votes, history and invites
+  snapshotSessions() {
+    return Array.from(this.sessions.keys()).map(id => ({
+      ...this.serializeSession(id),
+      ...this.serializeVotes(id),
+      itineraryHistory: this.itineraryHistory.get(id) || [],
+      invites: this.listInvites(id)
+    }));
+  }
+
+  // Queues a write of the current state; the store batches bursts of changes into one write
+  persist() {
+    this.store.save(() => this.snapshotSessions());
+  }
+
+  // Resolves once every change so far has been written, e.g. before shutting down
+  flush() {
+    return this.store.flush();
+  }
+
+  // Sessions created before a database store finished loading are kept as they are
+  hydrate(records) {
+    for (const s of records) {
+      if (!s?.id || this.sessions.has(s.id)) continue;
+      const session = {
+        id: s.id,
+        name: s.name,
+        teamId: s.teamId,
+        creatorId: s.creatorId,
+        createdAt: s.createdAt,
+        endedAt: s.endedAt || null,
+        participants: new Map(),
+        itinerary: { items: [], startDate: null, endDate: null, version: 0, ...(s.itinerary || {}) },
+        votes: new Map(),
+        comments: s.comments || {},
+        settings: { ...DEFAULT_SETTINGS, ...(s.settings || {}) },
+        roles: s.roles || {},
+        decision: s.decision || null,
+        status: s.status || 'active'
+      };
+      if (Array.isArray(s.participants)) {
+        for (const p of s.participants) {
+          // Nobody is connected right after a restart
+          session.participants.set(p.id, { ...p, socketId: null, presence: 'offline', lastSeenAt: p.lastSeenAt || p.joinedAt || null });
+          if (!this.userSessions.has(p.id)) this.userSessions.set(p.id, new Set());
+          this.userSessions.get(p.id).add(session.id);
+          // Sessions from before roles existed let every participant edit
+          if (!s.roles) session.roles[p.id] = 'editor';
         }
-        this.sessions.set(session.id, session);
       }
-    } catch (e) {
-      console.error('Failed to load sessions:', e);
+      if (!s.roles && s.creatorId) session.roles[s.creatorId] = 'owner';
+      for (const invite of Array.isArray(s.invites) ? s.invites : []) {
+        this.invites.set(invite.token, { ...invite, sessionId: session.id });
+      }
+      this.sessions.set(session.id, session);
+      this.restoreVotes(session.id, s);
+      if (Array.isArray(s.itineraryHistory)) this.itineraryHistory.set(session.id, s.itineraryHistory);
     }
+    // Deadlines that passed while the server was down are decided right away, once every session is loaded
+    for (const sessionId of this.sessions.keys()) this.scheduleVotingDeadline(sessionId);
   }
 
   listAllSessions() {
@@ -100,81 +372,118 @@ class CollaborationService {
       }
     });
 
+    // Same JWT that requireAuth checks; the identity is bound to the socket for its lifetime
+    this.io.use((socket, next) => {
+      const header = socket.handshake.headers?.authorization || '';
+      const token = socket.handshake.auth?.token || (header.startsWith('Bearer ') ? header.slice(7) : null);
+      if (!token) return next(socketAuthError('Unauthorized'));
+      try {
+        const payload = verifyAccessToken(token);
+        socket.data.user = { id: payload.sub || payload.id, name: payload.name, email: payload.email, role: payload.role };
+        return next();
+      } catch {
+        return next(socketAuthError('Invalid or expired token'));
+      }
+    });
+
+    this.startPresenceSweep();
+
     this.io.on('connection', (socket) => {
       console.log('Client connected:', socket.id);
+      const user = socket.data.user;
 
       // Join session
-      socket.on('join-session', ({ sessionId, userId, userName }) => {
+      socket.on('join-session', ({ sessionId } = {}) => {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+          socket.emit('session-error', { sessionId, error: 'Session not found' });
+          return;
+        }
+        if (!this.getRole(sessionId, user.id)) {
+          socket.emit('session-error', { sessionId, error: 'You need an invite to join this session' });
+          return;
+        }
         socket.join(sessionId);
-        this.addUserToSession(sessionId, userId, userName, socket.id);
+        const isNewArrival = this.addUserToSession(sessionId, user.id, user.name || user.email, socket.id, user.email);
         
         // Send current session state (serialized)
-        const session = this.getSession(sessionId);
-        if (session) {
-          socket.emit('session-state', session);
-          
-          // Notify others
+        socket.emit('session-state', this.getSession(sessionId));
+        socket.emit('my-votes', this.getUserVotes(sessionId, user.id));
+        socket.emit('presence-config', { heartbeatMs: PRESENCE_HEARTBEAT_MS, idleAfterMs: PRESENCE_IDLE_AFTER_MS });
+        
+        // Notify others; a reconnect within the grace window is only a presence change
+        this.broadcastPresence(sessionId, session.participants.get(user.id));
+        if (isNewArrival) {
           socket.to(sessionId).emit('user-joined', {
-            userId,
-            userName,
+            userId: user.id,
+            userName: user.name,
             timestamp: new Date().toISOString()
           });
         }
       });
 
+      socket.on('heartbeat', ({ sessionId, activeAt } = {}) => {
+        if (!this.authorizeSessionEvent(socket, sessionId)) return;
+        this.recordHeartbeat(sessionId, user.id, activeAt);
+      });
+
       // Leave session
-      socket.on('leave-session', ({ sessionId, userId }) => {
+      socket.on('leave-session', ({ sessionId } = {}) => {
         socket.leave(sessionId);
-        this.removeUserFromSession(sessionId, userId);
+        this.removeUserFromSession(sessionId, user.id);
         
         socket.to(sessionId).emit('user-left', {
-          userId,
+          userId: user.id,
           timestamp: new Date().toISOString()
         });
       });
 
-      // Handle voting
-      socket.on('vote', ({ sessionId, itemId, userId, vote }) => {
-        this.handleVote(sessionId, itemId, userId, vote);
-        
-        // Broadcast vote update
-        this.io.to(sessionId).emit('vote-update', {
-          itemId,
-          votes: this.getVotes(sessionId, itemId),
-          timestamp: new Date().toISOString()
-        });
+      // Handle voting. In ranked-choice mode `vote` is the voter's full ranking and itemId is unused.
+      socket.on('vote', ({ sessionId, itemId, vote } = {}) => {
+        if (!this.authorizeSessionEvent(socket, sessionId, { permission: 'vote' })) return;
+        const result = this.handleVote(sessionId, itemId, user.id, vote);
+        // The voter's own selections come back separately so they survive anonymous tallies
+        socket.emit('my-votes', this.getUserVotes(sessionId, user.id));
+        if (result?.error) {
+          socket.emit('vote-error', { itemId, error: result.error });
+          return;
+        }
+        this.broadcastVoteUpdate(sessionId, itemId);
+        this.broadcastScheduleProposal(sessionId);
       });
 
-      // Handle itinerary updates
-      socket.on('update-itinerary', ({ sessionId, itinerary, userId }) => {
-        const session = this.sessions.get(sessionId);
-        if (session) {
-          session.itinerary = itinerary;
-          session.lastUpdatedBy = userId;
-          session.lastUpdatedAt = new Date().toISOString();
-          this.saveToDisk();
-          
-          // Broadcast to all in session
-          this.io.to(sessionId).emit('itinerary-updated', {
-            itinerary,
-            updatedBy: userId,
-            timestamp: session.lastUpdatedAt
-          });
+      // Handle itinerary edits, one operation at a time
+      socket.on('itinerary-op', ({ sessionId, opId, baseVersion, op } = {}) => {
+        if (!this.authorizeSessionEvent(socket, sessionId, { permission: 'edit' })) return;
+        const result = this.applyItineraryOperation(sessionId, user.id, { opId, baseVersion, op }, socket.id);
+        const { itinerary } = this.sessions.get(sessionId);
+        if (result.error) {
+          // The author rolls back its optimistic change and rebases on the current itinerary
+          socket.emit('itinerary-rejected', { opId, error: result.error, itinerary });
+          return;
+        }
+        if (result.noop) {
+          socket.emit('itinerary-ack', { opId, version: result.version });
+          return;
         }
+        const { clientId, ...entry } = result.entry;
+        this.io.to(sessionId).emit('itinerary-op', { ...entry, itinerary, updatedBy: user.id });
+        this.broadcastScheduleProposal(sessionId);
       });
 
       // Handle cursor/presence
-      socket.on('cursor-move', ({ sessionId, userId, position }) => {
+      socket.on('cursor-move', ({ sessionId, position } = {}) => {
+        if (!this.authorizeSessionEvent(socket, sessionId)) return;
         socket.to(sessionId).emit('cursor-update', {
-          userId,
+          userId: user.id,
           position,
           timestamp: new Date().toISOString()
         });
       });
 
       // Handle comments
-      socket.on('add-comment', ({ sessionId, itemId, userId, comment }) => {
-        const session = this.sessions.get(sessionId);
+      socket.on('add-comment', ({ sessionId, itemId, comment } = {}) => {
+        const session = this.authorizeSessionEvent(socket, sessionId, { permission: 'comment' });
         if (session) {
           if (!session.comments[itemId]) {
             session.comments[itemId] = [];
@@ -182,13 +491,13 @@ class CollaborationService {
           
           const newComment = {
             id: uuidv4(),
-            userId,
+            userId: user.id,
             text: comment,
             timestamp: new Date().toISOString()
           };
           
           session.comments[itemId].push(newComment);
-          this.saveToDisk();
+          this.persist();
           
           this.io.to(sessionId).emit('comment-added', {
             itemId,
@@ -206,6 +515,279 @@ class CollaborationService {
     });
   }
 
+  // Applies one client operation made against itinerary `baseVersion`. Stale operations are transformed
+  // over what other clients applied since; the author's own earlier operations were already visible to them.
+  applyItineraryOperation(sessionId, userId, { opId = null, baseVersion, op } = {}, clientId = null) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    const version = session.itinerary.version || 0;
+    if (!op || !ITINERARY_OP_TYPES.includes(op.type)) return { error: 'Unknown itinerary operation' };
+    if (!Number.isInteger(baseVersion) || baseVersion < 0 || baseVersion > version) return { error: 'Invalid itinerary version' };
+
+    let pending = op;
+    if (baseVersion < version) {
+      const missed = (this.itineraryOps.get(sessionId) || []).filter(e => e.version > baseVersion);
+      if (missed.length < version - baseVersion) return { error: 'The itinerary changed too much, please try again' };
+      for (const entry of missed) {
+        if (clientId && entry.clientId === clientId) continue;
+        const transformed = transformItineraryOp(pending, entry.op);
+        if (transformed.error) return transformed;
+        pending = transformed.op;
+      }
+    }
+
+    const result = applyItineraryOp(session.itinerary.items, pending);
+    if (result.error) return { error: result.error };
+    if (result.noop) return { noop: true, version };
+
+    const entry = {
+      version: version + 1,
+      op: result.op,
+      inverse: result.inverse,
+      opId,
+      userId,
+      clientId,
+      timestamp: new Date().toISOString()
+    };
+    session.itinerary = { ...session.itinerary, items: result.items, version: entry.version };
+    session.lastUpdatedBy = userId;
+    session.lastUpdatedAt = entry.timestamp;
+    const log = this.itineraryOps.get(sessionId) || [];
+    log.push(entry);
+    this.itineraryOps.set(sessionId, log.slice(-ITINERARY_OP_LOG_LIMIT));
+    this.recordItineraryRevision(sessionId, entry);
+    this.persist();
+    return { entry };
+  }
+
+  // Snapshots are kept so any listed revision can be restored without replaying operations
+  recordItineraryRevision(sessionId, { version, op, userId, timestamp }) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    const history = this.itineraryHistory.get(sessionId) || [];
+    history.push({ version, op, userId, timestamp, items: session.itinerary.items });
+    this.itineraryHistory.set(sessionId, history.slice(-ITINERARY_HISTORY_LIMIT));
+  }
+
+  // Newest first
+  getItineraryHistory(sessionId) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    const revisions = (this.itineraryHistory.get(sessionId) || [])
+      .map(revision => ({ ...revision, userName: session.participants.get(revision.userId)?.name || null }))
+      .reverse();
+    return { version: session.itinerary.version || 0, revisions };
+  }
+
+  // Restoring is itself a new revision, so it can be undone by restoring again
+  restoreItineraryVersion(sessionId, userId, version) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    const current = session.itinerary.version || 0;
+    if (version === current) return { error: 'That is already the current version' };
+    const revision = (this.itineraryHistory.get(sessionId) || []).find(r => r.version === version);
+    if (!revision) return { error: 'Version not found in history' };
+
+    return this.replaceItinerary(sessionId, userId, revision.items, { type: 'restore', toVersion: version }, {}, { restoredVersion: version });
+  }
+
+  // Proposes a plan for the itinerary, ordered by the current vote standings. Options not given
+  // fall back to the window and preferences saved with the last applied schedule.
+  proposeItinerarySchedule(sessionId, options = {}) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    const { startDate, endDate, schedulePreferences } = session.itinerary;
+    const scores = Object.fromEntries(this.getVoteResults(sessionId).ranking.map(({ itemId, score }) => [itemId, score]));
+    const settings = {
+      startDate,
+      endDate,
+      ...schedulePreferences,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+    };
+    const proposal = proposeSchedule(session.itinerary.items, { ...settings, scores });
+    if (proposal.error) return proposal;
+    return { ...proposal, startDate: settings.startDate, endDate: settings.endDate };
+  }
+
+  // With autoSchedule on, planners get a fresh proposal whenever the itinerary or the votes change
+  broadcastScheduleProposal(sessionId) {
+    const session = this.sessions.get(sessionId);
+    if (!this.io || !session?.settings.autoSchedule) return;
+    if (!session.itinerary.startDate || !session.itinerary.endDate) return;
+    const proposal = this.proposeItinerarySchedule(sessionId);
+    if (!proposal.error) this.io.to(sessionId).emit('schedule-proposal', { proposal, timestamp: new Date().toISOString() });
+  }
+
+  // Applies planner-approved slots: scheduled items are ordered by start time, the rest follow unscheduled
+  applyItinerarySchedule(sessionId, userId, { slots, startDate, endDate, preferences = {} } = {}) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    const checked = validateSchedule(session.itinerary.items, slots);
+    if (checked.error) return checked;
+
+    const scheduledIds = new Set(checked.slots.map(({ item }) => item.id));
+    const items = [
+      ...checked.slots.map(({ item, start, end }) => ({
+        ...item,
+        scheduledTime: new Date(start).toISOString(),
+        duration: Math.round((end - start) / 60000)
+      })),
+      ...session.itinerary.items
+        .filter(item => !scheduledIds.has(item.id))
+        .map(item => ({ ...item, scheduledTime: null }))
+    ];
+    const first = checked.slots[0];
+    const last = checked.slots[checked.slots.length - 1];
+    return this.replaceItinerary(sessionId, userId, items, { type: 'schedule', scheduledCount: checked.slots.length }, {
+      startDate: startDate || (first ? new Date(first.start).toISOString() : session.itinerary.startDate),
+      endDate: endDate || (last ? new Date(last.end).toISOString() : session.itinerary.endDate),
+      schedulePreferences: preferences
+    });
+  }
+
+  // Swaps in a whole new item list as one revision and tells everyone in the session
+  replaceItinerary(sessionId, userId, items, op, fields = {}, broadcast = {}) {
+    const session = this.sessions.get(sessionId);
+    const version = (session.itinerary.version || 0) + 1;
+    const timestamp = new Date().toISOString();
+    session.itinerary = { ...session.itinerary, ...fields, items, version };
+    session.lastUpdatedBy = userId;
+    session.lastUpdatedAt = timestamp;
+    // Logged so operations still in flight against older versions are rejected instead of transformed
+    const log = this.itineraryOps.get(sessionId) || [];
+    log.push({ version, op, opId: null, userId, clientId: null, timestamp });
+    this.itineraryOps.set(sessionId, log.slice(-ITINERARY_OP_LOG_LIMIT));
+    this.recordItineraryRevision(sessionId, { version, op, userId, timestamp });
+    this.persist();
+
+    if (this.io) {
+      this.io.to(sessionId).emit('itinerary-updated', {
+        itinerary: session.itinerary,
+        updatedBy: userId,
+        ...broadcast,
+        timestamp
+      });
+    }
+    return { itinerary: session.itinerary };
+  }
+
+  // --- Roles and invites ---
+  getRole(sessionId, userId) {
+    return this.sessions.get(sessionId)?.roles?.[userId] || null;
+  }
+
+  hasPermission(sessionId, userId, permission) {
+    const role = this.getRole(sessionId, userId);
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  // role null removes the user from the session's members
+  setRole(sessionId, userId, role) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    if (role !== null && !SESSION_ROLES.includes(role)) return { error: `Role must be one of: ${SESSION_ROLES.join(', ')}` };
+    const owners = Object.entries(session.roles).filter(([, r]) => r === 'owner').map(([id]) => id);
+    if (owners.length === 1 && owners[0] === userId && role !== 'owner') {
+      return { error: 'A session needs at least one owner' };
+    }
+    const previous = session.roles[userId];
+    if (role === null) delete session.roles[userId];
+    else session.roles[userId] = role;
+    this.persist();
+    if (this.io) this.io.to(sessionId).emit('roles-updated', { roles: session.roles });
+    if (previous && (role === null || SESSION_ROLES.indexOf(role) > SESSION_ROLES.indexOf(previous))) {
+      this.revokeSocketAccess(sessionId, userId, role)
+        .catch(e => console.error('Failed to update session access:', e));
+    }
+    return { roles: session.roles };
+  }
+
+  // A removed or downgraded member's sockets leave the session room so they stop receiving its
+  // broadcasts. Members who keep a role are told to join again, which re-checks it.
+  async revokeSocketAccess(sessionId, userId, role) {
+    if (role === null) this.removeUserFromSession(sessionId, userId);
+    if (!this.io) return;
+    const sockets = await this.io.in(sessionId).fetchSockets();
+    for (const socket of sockets) {
+      if (socket.data.user?.id !== userId) continue;
+      socket.leave(sessionId);
+      socket.emit('session-access-changed', { sessionId, role });
+    }
+  }
+
+  // Owners are only ever made through setRole, never through a shared link
+  createInvite(sessionId, createdBy, { role = 'editor', expiresInHours = 72, maxUses = null } = {}) {
+    if (!this.sessions.has(sessionId)) return { error: 'Session not found' };
+    if (role === 'owner' || !SESSION_ROLES.includes(role)) return { error: 'Invites can grant editor, voter or viewer access' };
+    const invite = {
+      token: crypto.randomBytes(24).toString('base64url'),
+      sessionId,
+      role,
+      createdBy,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 3600000).toISOString() : null,
+      maxUses: maxUses || null,
+      uses: 0
+    };
+    this.invites.set(invite.token, invite);
+    this.persist();
+    return { invite };
+  }
+
+  listInvites(sessionId) {
+    return Array.from(this.invites.values())
+      .filter(invite => invite.sessionId === sessionId)
+      .sort((a, b) => (new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+  }
+
+  revokeInvite(sessionId, token) {
+    const invite = this.invites.get(token);
+    if (!invite || invite.sessionId !== sessionId) return false;
+    this.invites.delete(token);
+    this.persist();
+    return true;
+  }
+
+  // Grants the invite's role unless the user already has an equal or stronger one
+  acceptInvite(token, userId) {
+    const invite = this.invites.get(token);
+    const session = invite && this.sessions.get(invite.sessionId);
+    if (!session) return { error: 'This invite link is not valid' };
+    if (session.status === 'ended') return { error: 'This session has ended' };
+    if (invite.expiresAt && Date.parse(invite.expiresAt) < Date.now()) return { error: 'This invite link has expired' };
+
+    const current = this.getRole(session.id, userId);
+    if (current && SESSION_ROLES.indexOf(current) <= SESSION_ROLES.indexOf(invite.role)) {
+      return { sessionId: session.id, role: current };
+    }
+    if (invite.maxUses && invite.uses >= invite.maxUses) return { error: 'This invite link has been used up' };
+    invite.uses += 1;
+    this.setRole(session.id, userId, invite.role);
+    return { sessionId: session.id, role: invite.role };
+  }
+
+  // Sessions the user holds a role in
+  listSessionsForUser(userId) {
+    return this.listAllSessions().filter(session => session.roles?.[userId]);
+  }
+
+  // Returns the session when the socket's user has joined it, their role grants `permission` and,
+  // for anything beyond viewing, the session is still active; otherwise tells the client why and returns null
+  authorizeSessionEvent(socket, sessionId, { permission = 'view' } = {}) {
+    const session = this.sessions.get(sessionId);
+    const userId = socket.data.user?.id;
+    let error = null;
+    if (!session) error = 'Session not found';
+    else if (!socket.rooms.has(sessionId) || !session.participants.has(userId)) error = 'Join the session first';
+    else if (!this.hasPermission(sessionId, userId, permission)) error = 'Your role in this session does not allow this';
+    else if (permission !== 'view' && session.status === 'ended') error = 'This session has ended';
+    if (error) {
+      socket.emit('session-error', { sessionId, error });
+      return null;
+    }
+    return session;
+  }
+
   // Create a new planning session
   createSession(creatorId, name, teamId, creatorName) {
     const sessionId = uuidv4();
@@ -219,16 +801,14 @@ class CollaborationService {
       itinerary: {
         items: [],
         startDate: null,
-        endDate: null
+        endDate: null,
+        version: 0
       },
       votes: new Map(),
       comments: {},
-      settings: {
-        votingEnabled: true,
-        anonymousVoting: false,
-        requireConsensus: false,
-        autoSchedule: true
-      },
+      settings: { ...DEFAULT_SETTINGS },
+      roles: { [creatorId]: 'owner' },
+      decision: null,
       status: 'active'
     };
     
@@ -246,7 +826,7 @@ class CollaborationService {
       } catch {}
     }
 
-    this.saveToDisk();
+    this.persist();
     return session;
   }
 
@@ -256,7 +836,8 @@ class CollaborationService {
     if (!session) return false;
     session.status = 'ended';
     session.endedAt = new Date().toISOString();
-    this.saveToDisk();
+    this.clearVotingDeadline(sessionId);
+    this.persist();
     if (this.io) {
       try { this.io.emit('session-ended', { sessionId, endedBy, endedAt: session.endedAt }); } catch {}
     }
@@ -264,16 +845,23 @@ class CollaborationService {
   }
 
   // Add user to session
-  addUserToSession(sessionId, userId, userName, socketId) {
+  // Returns true when the user was not already an online participant (a fresh join rather than a reconnect)
+  addUserToSession(sessionId, userId, userName, socketId, userEmail) {
     const session = this.sessions.get(sessionId);
     if (session) {
+      const now = new Date().toISOString();
+      const existing = session.participants.get(userId);
       session.participants.set(userId, {
         id: userId,
-        name: userName,
+        name: userName || existing?.name,
+        email: userEmail || existing?.email || null,
         socketId: socketId || null,
-        joinedAt: new Date().toISOString(),
-        presence: 'active',
-        cursor: null
+        joinedAt: existing?.joinedAt || now,
+        presence: socketId ? 'active' : (existing?.presence || 'offline'),
+        lastSeenAt: socketId ? now : (existing?.lastSeenAt || null),
+        lastActiveAt: socketId ? now : (existing?.lastActiveAt || null),
+        disconnectedAt: null,
+        cursor: existing?.cursor || null
       });
       
       // Track user sessions
@@ -281,8 +869,63 @@ class CollaborationService {
         this.userSessions.set(userId, new Set());
       }
       this.userSessions.get(userId).add(sessionId);
-      this.saveToDisk();
+      this.persist();
+      return !existing || existing.presence === 'offline';
     }
+    return false;
+  }
+
+  // Client heartbeat; activeAt is when the user last touched the page
+  recordHeartbeat(sessionId, userId, activeAt) {
+    const participant = this.sessions.get(sessionId)?.participants.get(userId);
+    if (!participant) return;
+    const now = Date.now();
+    const lastInput = Date.parse(activeAt);
+    participant.lastSeenAt = new Date(now).toISOString();
+    if (Number.isFinite(lastInput)) participant.lastActiveAt = new Date(Math.min(lastInput, now)).toISOString();
+    this.refreshPresence(sessionId, participant, now);
+  }
+
+  // Re-derive a participant's presence and broadcast it when it changes
+  refreshPresence(sessionId, participant, now = Date.now()) {
+    let presence;
+    if (participant.disconnectedAt || !participant.socketId) {
+      const since = Date.parse(participant.disconnectedAt || participant.lastSeenAt || 0);
+      presence = participant.presence === 'offline' || now - since > RECONNECT_GRACE_MS ? 'offline' : 'away';
+    } else if (now - Date.parse(participant.lastSeenAt || 0) > PRESENCE_HEARTBEAT_MS * 3) {
+      presence = 'away';
+    } else {
+      presence = now - Date.parse(participant.lastActiveAt || participant.lastSeenAt || 0) > PRESENCE_IDLE_AFTER_MS ? 'idle' : 'active';
+    }
+    if (presence === participant.presence) return;
+    participant.presence = presence;
+    if (presence === 'offline') participant.socketId = null;
+    this.persist();
+    this.broadcastPresence(sessionId, participant);
+    if (presence === 'offline' && this.io) {
+      this.io.to(sessionId).emit('user-disconnected', { userId: participant.id, timestamp: new Date(now).toISOString() });
+    }
+  }
+
+  broadcastPresence(sessionId, participant) {
+    if (!this.io) return;
+    const { socketId, cursor, ...publicInfo } = participant;
+    this.io.to(sessionId).emit('presence-update', { participant: publicInfo, timestamp: new Date().toISOString() });
+  }
+
+  // Periodically demote participants whose heartbeats stopped or whose grace window ran out
+  startPresenceSweep(intervalMs = PRESENCE_HEARTBEAT_MS) {
+    if (this.presenceTimer) clearInterval(this.presenceTimer);
+    this.presenceTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [sessionId, session] of this.sessions) {
+        if (session.status === 'ended') continue;
+        for (const participant of session.participants.values()) {
+          if (participant.presence !== 'offline') this.refreshPresence(sessionId, participant, now);
+        }
+      }
+    }, intervalMs);
+    this.presenceTimer.unref?.();
   }
 
   // Remove user from session
@@ -299,12 +942,58 @@ class CollaborationService {
           this.userSessions.delete(userId);
         }
       }
-      this.saveToDisk();
+      this.persist();
     }
   }
 
-  // Handle voting
+  getSettings(sessionId) {
+    return { ...DEFAULT_SETTINGS, ...(this.sessions.get(sessionId)?.settings || {}) };
+  }
+
+  // Handle voting. The accepted vote depends on the session's voting mode:
+  // updown 'up' | 'down', approval 'approve', dot a whole number of points, ranked an array of itemIds.
+  // Passing null withdraws the vote. Only items on the itinerary can be voted on or ranked; a vote on an
+  // item that has since been removed can still be withdrawn. Returns { error } when the vote is rejected.
   handleVote(sessionId, itemId, userId, vote) {
+    if (!this.sessions.has(sessionId)) return { error: 'Session not found' };
+    const itemIds = new Set(this.sessions.get(sessionId).itinerary.items.map(item => item.id));
+    const { votingEnabled, votingMode, dotBudget, votingDeadline } = this.getSettings(sessionId);
+    if (this.sessions.get(sessionId).decision) return { error: 'Voting has closed for this session' };
+    if (!votingEnabled) return { error: 'Voting is disabled for this session' };
+    // The timer may lag behind the deadline by a moment
+    if (votingDeadline && Date.parse(votingDeadline) <= Date.now()) return { error: 'Voting has closed for this session' };
+    const timestamp = new Date().toISOString();
+
+    if (votingMode === 'ranked') {
+      if (!this.ballots.has(sessionId)) this.ballots.set(sessionId, new Map());
+      const sessionBallots = this.ballots.get(sessionId);
+      if (vote === null || (Array.isArray(vote) && vote.length === 0)) {
+        sessionBallots.delete(userId);
+        this.persist();
+        return { ok: true };
+      }
+      if (!Array.isArray(vote) || vote.some(id => typeof id !== 'string')) return { error: 'Ranked votes must list item ids in order of preference' };
+      if (new Set(vote).size !== vote.length) return { error: 'Each item can only be ranked once' };
+      if (vote.some(id => !itemIds.has(id))) return { error: 'Only items on the itinerary can be ranked' };
+      sessionBallots.set(userId, { ranking: vote, timestamp });
+      this.persist();
+      return { ok: true };
+    }
+
+    if (!itemId) return { error: 'An item is required' };
+    if (vote !== null) {
+      if (!itemIds.has(itemId) && !(votingMode === 'dot' && vote === 0)) return { error: 'Item is not on the itinerary' };
+      if (votingMode === 'updown' && vote !== 'up' && vote !== 'down') return { error: 'Vote must be up or down' };
+      if (votingMode === 'approval' && vote !== 'approve') return { error: 'Approval votes can only approve an item' };
+      if (votingMode === 'dot') {
+        if (!Number.isInteger(vote) || vote < 0) return { error: 'Points must be a whole number' };
+        const spentElsewhere = Array.from(this.votes.get(sessionId)?.entries() || [])
+          .filter(([id]) => id !== itemId)
+          .reduce((sum, [, itemVotes]) => sum + (Number(itemVotes.get(userId)?.value) || 0), 0);
+        if (spentElsewhere + vote > dotBudget) return { error: `Only ${dotBudget - spentElsewhere} of your ${dotBudget} points are left` };
+      }
+    }
+
     if (!this.votes.has(sessionId)) {
       this.votes.set(sessionId, new Map());
     }
@@ -316,40 +1005,205 @@ class CollaborationService {
     
     const itemVotes = sessionVotes.get(itemId);
     
-    if (vote === null) {
+    if (vote === null || (votingMode === 'dot' && vote === 0)) {
       // Remove vote
       itemVotes.delete(userId);
     } else {
       // Add/update vote
       itemVotes.set(userId, {
         value: vote,
-        timestamp: new Date().toISOString()
+        timestamp
       });
     }
+    this.persist();
+    return { ok: true };
   }
 
-  // Get votes for an item
-  getVotes(sessionId, itemId) {
-    const sessionVotes = this.votes.get(sessionId);
-    if (!sessionVotes) return { upvotes: 0, downvotes: 0, total: 0 };
-    
-    const itemVotes = sessionVotes.get(itemId);
-    if (!itemVotes) return { upvotes: 0, downvotes: 0, total: 0 };
-    
-    let upvotes = 0;
-    let downvotes = 0;
-    
-    for (const [userId, voteData] of itemVotes) {
-      if (voteData.value === 'up') upvotes++;
-      else if (voteData.value === 'down') downvotes++;
+  // Apply a partial settings update (undefined keys are ignored). Switching voting mode or lowering
+  // the dot budget discards existing votes because they cannot be reinterpreted. Setting a new
+  // deadline after a decision reopens voting.
+  updateSettings(sessionId, patch) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    const previous = this.getSettings(sessionId);
+    const changes = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+    session.settings = { ...previous, ...changes };
+    const resetVotes = session.settings.votingMode !== previous.votingMode || session.settings.dotBudget < previous.dotBudget;
+    if (resetVotes) {
+      this.votes.delete(sessionId);
+      this.ballots.delete(sessionId);
     }
-    
-    return {
-      upvotes,
-      downvotes,
-      total: upvotes - downvotes,
-      voters: Array.from(itemVotes.keys())
+    const deadlineChanged = session.settings.votingDeadline !== previous.votingDeadline;
+    if (deadlineChanged && session.decision && session.settings.votingDeadline) {
+      session.decision = null;
+      session.settings.votingEnabled = true;
+    }
+    this.persist();
+    if (deadlineChanged) this.scheduleVotingDeadline(sessionId);
+    if (this.io) {
+      this.io.to(sessionId).emit('settings-updated', { settings: session.settings, decision: session.decision });
+      if (resetVotes) this.io.to(sessionId).emit('my-votes', { items: {}, ranking: [] });
+      this.broadcastVoteUpdate(sessionId, null);
+      this.broadcastScheduleProposal(sessionId);
+    }
+    return session.settings;
+  }
+
+  // --- Voting deadline ---
+  scheduleVotingDeadline(sessionId) {
+    this.clearVotingDeadline(sessionId);
+    const session = this.sessions.get(sessionId);
+    const deadline = Date.parse(session?.settings.votingDeadline);
+    if (!session || session.status === 'ended' || session.decision || !Number.isFinite(deadline)) return;
+    const delay = deadline - Date.now();
+    if (delay <= 0) {
+      this.closeVoting(sessionId);
+      return;
+    }
+    const timer = setTimeout(() => this.scheduleVotingDeadline(sessionId), Math.min(delay, MAX_TIMER_MS));
+    timer.unref?.();
+    this.deadlineTimers.set(sessionId, timer);
+  }
+
+  clearVotingDeadline(sessionId) {
+    clearTimeout(this.deadlineTimers.get(sessionId));
+    this.deadlineTimers.delete(sessionId);
+  }
+
+  // Locks voting and records the outcome. The winner is the one getVoteResults picks, so
+  // requireConsensus applies; without it every item tied for first place wins. Winning items
+  // already in the itinerary move to the top and are flagged as decided.
+  closeVoting(sessionId, closedBy = null) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { error: 'Session not found' };
+    if (session.decision) return { decision: session.decision };
+    this.clearVotingDeadline(sessionId);
+
+    const results = this.getVoteResults(sessionId);
+    const top = results.ranking[0];
+    let winners = [];
+    if (results.winner) winners = [results.winner];
+    else if (!results.consensus.required && results.mode !== 'ranked' && top?.score > 0) {
+      winners = results.ranking.filter(r => r.score === top.score).map(r => r.itemId);
+    }
+    const decision = {
+      decidedAt: new Date().toISOString(),
+      closedBy,
+      winners,
+      mode: results.mode,
+      consensus: results.consensus,
+      ranking: results.ranking,
+      voterCount: results.voterCount,
+      participantCount: results.participantCount
     };
+    session.decision = decision;
+    session.settings = { ...this.getSettings(sessionId), votingEnabled: false };
+
+    const items = session.itinerary.items;
+    const decided = winners.map(id => items.find(item => item.id === id)).filter(Boolean);
+    const reordered = [
+      ...decided.map(item => ({ ...item, decided: true })),
+      ...items.filter(item => !winners.includes(item.id)).map(item => (item.decided ? { ...item, decided: false } : item))
+    ];
+    this.replaceItinerary(sessionId, closedBy, reordered, { type: 'decision', winners }, { decision });
+
+    if (this.io) {
+      this.io.to(sessionId).emit('settings-updated', { settings: session.settings, decision });
+      this.io.to(sessionId).emit('voting-closed', { decision, timestamp: decision.decidedAt });
+    }
+    return { decision };
+  }
+
+  broadcastVoteUpdate(sessionId, itemId) {
+    if (!this.io) return;
+    this.io.to(sessionId).emit('vote-update', {
+      itemId,
+      votes: itemId ? this.getVotes(sessionId, itemId) : null,
+      allVotes: this.getSessionVotes(sessionId),
+      results: this.getVoteResults(sessionId),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Get votes for an item. Voter identities are left out when the session votes anonymously.
+  getVotes(sessionId, itemId) {
+    const { votingMode, anonymousVoting } = this.getSettings(sessionId);
+    let tally;
+    if (votingMode === 'ranked') {
+      const ballots = Array.from(this.ballots.get(sessionId)?.entries() || []);
+      const supporters = ballots.filter(([, b]) => b.ranking[0] === itemId).map(([userId]) => userId);
+      tally = { firstChoices: supporters.length, total: supporters.length, voters: supporters };
+    } else {
+      tally = tallyItemVotes(votingMode, this.votes.get(sessionId)?.get(itemId) || new Map());
+    }
+    if (anonymousVoting) {
+      const { voters, allocations, ...rest } = tally;
+      return { ...rest, voterCount: voters.length };
+    }
+    return { ...tally, voterCount: tally.voters.length };
+  }
+
+  // What one participant has cast, so a client can restore its own selections after reconnecting
+  getUserVotes(sessionId, userId) {
+    const items = {};
+    for (const [itemId, itemVotes] of this.votes.get(sessionId) || []) {
+      if (itemVotes.has(userId)) items[itemId] = itemVotes.get(userId).value;
+    }
+    return { items, ranking: this.ballots.get(sessionId)?.get(userId)?.ranking || [] };
+  }
+
+  // Session-wide outcome for the current mode: items ordered by score, the leader, and the winner.
+  // With requireConsensus the leader only wins once every participant has voted and none objects
+  // (a down vote, no approval, no points, or leaving it off their ranking).
+  getVoteResults(sessionId) {
+    const session = this.sessions.get(sessionId);
+    const settings = this.getSettings(sessionId);
+    const { votingMode, anonymousVoting, requireConsensus, dotBudget } = settings;
+    // Consensus is counted over the participants who may vote; viewers can only watch
+    const participantIds = session ? Array.from(session.participants.keys()).filter(id => this.hasPermission(sessionId, id, 'vote')) : [];
+    const results = { mode: votingMode, anonymous: anonymousVoting, dotBudget: votingMode === 'dot' ? dotBudget : undefined };
+
+    let ranking;
+    let leader;
+    let supports;
+    let voterIds;
+    if (votingMode === 'ranked') {
+      const ballots = Array.from(this.ballots.get(sessionId)?.entries() || []);
+      const runoff = instantRunoff(ballots.map(([, b]) => b.ranking));
+      const eliminationOrder = runoff.rounds.flatMap(r => r.eliminated);
+      const lastRound = runoff.rounds[runoff.rounds.length - 1];
+      const stillIn = lastRound ? Object.keys(lastRound.counts).sort((a, b) => lastRound.counts[b] - lastRound.counts[a]) : [];
+      ranking = [...stillIn, ...eliminationOrder.reverse()].map(itemId => ({ itemId, score: runoff.firstRound[itemId] || 0 }));
+      leader = runoff.winner;
+      voterIds = ballots.map(([userId]) => userId);
+      supports = (userId, itemId) => ballots.some(([uid, b]) => uid === userId && b.ranking.includes(itemId));
+      results.rounds = runoff.rounds;
+      results.ballotCount = ballots.length;
+    } else {
+      const sessionVotes = this.votes.get(sessionId) || new Map();
+      ranking = Array.from(sessionVotes.entries())
+        .map(([itemId, itemVotes]) => ({ itemId, score: tallyItemVotes(votingMode, itemVotes).total }))
+        .filter(r => sessionVotes.get(r.itemId).size > 0)
+        .sort((a, b) => b.score - a.score);
+      const top = ranking[0];
+      leader = top && top.score > 0 && !(ranking[1] && ranking[1].score === top.score) ? top.itemId : null;
+      voterIds = Array.from(new Set(Array.from(sessionVotes.values()).flatMap(itemVotes => Array.from(itemVotes.keys()))));
+      supports = (userId, itemId) => {
+        const value = sessionVotes.get(itemId)?.get(userId)?.value;
+        return votingMode === 'dot' ? Number(value) > 0 : value === 'up' || value === 'approve';
+      };
+    }
+
+    const everyoneVoted = participantIds.length > 0 && participantIds.every(id => voterIds.includes(id));
+    const consensusReached = !!leader && everyoneVoted && participantIds.every(id => supports(id, leader));
+    results.ranking = ranking;
+    results.leader = leader || null;
+    results.winner = leader && (!requireConsensus || consensusReached) ? leader : null;
+    results.consensus = { required: requireConsensus, reached: consensusReached };
+    results.voterCount = voterIds.length;
+    results.participantCount = participantIds.length;
+    if (!anonymousVoting) results.voters = voterIds;
+    return results;
   }
 
   // Get session details
@@ -361,17 +1215,18 @@ class CollaborationService {
     return {
       ...session,
       participants: Array.from(session.participants.values()),
-      votes: this.getSessionVotes(sessionId)
+      votes: this.getSessionVotes(sessionId),
+      voteResults: this.getVoteResults(sessionId)
     };
   }
 
   // Get all votes for a session
   getSessionVotes(sessionId) {
-    const sessionVotes = this.votes.get(sessionId);
-    if (!sessionVotes) return {};
+    const itemIds = new Set(this.votes.get(sessionId)?.keys() || []);
+    for (const ballot of this.ballots.get(sessionId)?.values() || []) ballot.ranking.forEach(id => itemIds.add(id));
     
     const result = {};
-    for (const [itemId, itemVotes] of sessionVotes) {
+    for (const itemId of itemIds) {
       result[itemId] = this.getVotes(sessionId, itemId);
     }
     
@@ -379,20 +1234,24 @@ class CollaborationService {
   }
 
   // Clean up disconnected user
+  // The participant is kept as 'away' for the reconnect grace window rather than removed,
+  // so a brief network drop does not look like the user left
   cleanupDisconnectedUser(socketId) {
     for (const [sessionId, session] of this.sessions) {
       for (const [userId, participant] of session.participants) {
-        if (participant.socketId === socketId) {
-          this.removeUserFromSession(sessionId, userId);
-          
-          // Notify others in session
-          if (this.io) {
-            this.io.to(sessionId).emit('user-disconnected', {
-              userId,
-              timestamp: new Date().toISOString()
-            });
-          }
+        if (participant.socketId !== socketId) continue;
+        // Another tab of the same user may still be connected to this session
+        const otherSocket = this.io
+          ? Array.from(this.io.sockets?.sockets?.values() || []).find(s => s.id !== socketId && s.data?.user?.id === userId && s.rooms?.has(sessionId))
+          : null;
+        if (otherSocket) {
+          participant.socketId = otherSocket.id;
+          continue;
         }
+        participant.socketId = null;
+        participant.disconnectedAt = new Date().toISOString();
+        participant.lastSeenAt = participant.disconnectedAt;
+        this.refreshPresence(sessionId, participant);
       }
     }
   }
@@ -410,9 +1269,47 @@ class CollaborationService {
   }
 
   // Generate shareable link
-  generateShareableLink(sessionId) {
+  generateInviteLink(token) {
+    const baseUrl = process.env.APP_URL || 'http://localhost:5173';
+    return `${baseUrl}/collaborate/join/${token}`;
+  }
+
+  // Scheduled itinerary items as an iCalendar file, for calendars other than Outlook.
+  // UIDs are stable per item and SEQUENCE follows the itinerary version, so re-importing updates events.
+  exportItineraryICS(sessionId) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    const participants = Array.from(session.participants.values());
+    const names = participants.map(p => p.name).filter(Boolean);
     const baseUrl = process.env.APP_URL || 'http://localhost:5173';
-    return `${baseUrl}/collaborate/${sessionId}`;
+    const events = session.itinerary.items
+      .filter(item => item.scheduledTime && Number.isFinite(Date.parse(item.scheduledTime)))
+      .sort((a, b) => Date.parse(a.scheduledTime) - Date.parse(b.scheduledTime))
+      .map(item => {
+        const start = new Date(item.scheduledTime);
+        return {
+          uid: `${sessionId}-${item.id}@vibecorner`,
+          start,
+          end: new Date(start.getTime() + itemDuration(item) * 60000),
+          sequence: session.itinerary.version || 0,
+          summary: item.title,
+          description: [
+            item.description,
+            names.length ? `Participants: ${names.join(', ')}` : null,
+            `Planned in ${session.name}`
+          ].filter(Boolean).join('\n\n'),
+          location: item.location,
+          categories: item.type ? [item.type] : [],
+          url: `${baseUrl}/collaborate/${sessionId}`,
+          attendees: participants
+        };
+      });
+
+    return {
+      count: events.length,
+      ics: buildCalendar({ prodId: '-//VibeCorner//Collaboration//EN', name: session.name, events })
+    };
   }
 
   // Schedule activities from itinerary
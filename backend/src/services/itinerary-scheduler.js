@@ -0,0 +1,176 @@
+import { locationService } from './location-service.js';
+
+const DEFAULTS = {
+  dayStart: '09:00',
+  dayEnd: '21:00',
+  durationMinutes: 60,
+  // Used between two stops when either has no coordinates
+  travelMinutes: 15,
+  // Average door-to-door city speed
+  travelSpeedKmh: 25,
+  bufferMinutes: 10
+};
+
+const DEFAULT_DURATIONS = { restaurant: 90, activity: 120 };
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Minutes since midnight for "HH:MM" on a 24-hour clock, or null for anything else (e.g. "25:00", "9:75")
+const parseClock = (value) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours <= 23 && minutes <= 59 ? hours * 60 + minutes : null;
+};
+
+const roundUp = (minutes, step = 5) => Math.ceil(minutes / step) * step;
+
+export const itemDuration = (item) => {
+  const duration = Number(item.duration);
+  return duration > 0 ? duration : DEFAULT_DURATIONS[item.type] || DEFAULTS.durationMinutes;
+};
+
+// Opening hours are either { open, close } for every day or keyed by weekday ('mon'...'sun');
+// a missing weekday or null means closed. Items without opening hours are always open.
+function openingWindow(item, weekday) {
+  const hours = item.openingHours;
+  if (!hours) return { open: 0, close: 24 * 60 };
+  const day = 'open' in hours ? hours : hours[WEEKDAYS[weekday]];
+  const open = parseClock(day?.open);
+  const close = parseClock(day?.close);
+  if (open === null || close === null || close <= open) return null;
+  return { open, close };
+}
+
+function coordinatesOf(item) {
+  const lat = Number(item.coordinates?.lat ?? item.lat);
+  const lon = Number(item.coordinates?.lon ?? item.coordinates?.lng ?? item.lon);
+  return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+}
+
+function travelBetween(from, to, options) {
+  if (!from) return { minutes: 0, distanceKm: null };
+  const a = coordinatesOf(from);
+  const b = coordinatesOf(to);
+  if (!a || !b) return { minutes: options.travelMinutes, distanceKm: null };
+  const distanceKm = locationService.calculateDistance(a.lat, a.lon, b.lat, b.lon);
+  return { minutes: roundUp((distanceKm / options.travelSpeedKmh) * 60), distanceKm };
+}
+
+// Proposes a non-overlapping plan between startDate and endDate. Each day is filled greedily:
+// the highest-voted item that can still fit (travel, opening hours, day end) goes next.
+// Day boundaries and opening hours are in the planners' local time, given as the
+// Date#getTimezoneOffset value of their browser.
+export function proposeSchedule(items, {
+  startDate,
+  endDate,
+  scores = {},
+  dayStart = DEFAULTS.dayStart,
+  dayEnd = DEFAULTS.dayEnd,
+  timezoneOffset = 0,
+  travelSpeedKmh = DEFAULTS.travelSpeedKmh,
+  travelMinutes = DEFAULTS.travelMinutes,
+  bufferMinutes = DEFAULTS.bufferMinutes
+} = {}) {
+  const windowStart = Date.parse(startDate);
+  const windowEnd = Date.parse(endDate);
+  if (!Number.isFinite(windowStart) || !Number.isFinite(windowEnd) || windowEnd <= windowStart) {
+    return { error: 'A valid start and end date are required' };
+  }
+  if (windowEnd - windowStart > 31 * DAY) return { error: 'Schedules can cover at most 31 days' };
+  const dayStartMinutes = parseClock(dayStart);
+  const dayEndMinutes = parseClock(dayEnd);
+  if (dayStartMinutes === null || dayEndMinutes === null || dayEndMinutes <= dayStartMinutes) {
+    return { error: 'Day start must be before day end (HH:MM)' };
+  }
+
+  const options = { travelSpeedKmh, travelMinutes };
+  const offset = timezoneOffset * MINUTE;
+  // Local midnight of the first day, as a UTC timestamp
+  const firstMidnight = Math.floor((windowStart - offset) / DAY) * DAY + offset;
+
+  let remaining = items
+    .map((item, index) => ({ item, index, score: Number(scores[item.id]) || 0 }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  const days = [];
+
+  for (let midnight = firstMidnight; midnight < windowEnd && remaining.length > 0; midnight += DAY) {
+    const weekday = new Date(midnight - offset).getUTCDay();
+    const dayOpen = Math.max(midnight + dayStartMinutes * MINUTE, windowStart);
+    const dayClose = Math.min(midnight + dayEndMinutes * MINUTE, windowEnd);
+    const slots = [];
+    let cursor = dayOpen;
+    let previous = null;
+
+    for (;;) {
+      let placed = null;
+      for (const candidate of remaining) {
+        const hours = openingWindow(candidate.item, weekday);
+        if (!hours) continue;
+        const travel = travelBetween(previous, candidate.item, options);
+        const gap = previous ? Math.max(travel.minutes, bufferMinutes) : 0;
+        const start = Math.max(cursor + gap * MINUTE, midnight + hours.open * MINUTE);
+        const end = start + itemDuration(candidate.item) * MINUTE;
+        if (end <= Math.min(dayClose, midnight + hours.close * MINUTE)) {
+          placed = { candidate, start, end, travel };
+          break;
+        }
+      }
+      if (!placed) break;
+      const { candidate, start, end, travel } = placed;
+      slots.push({
+        itemId: candidate.item.id,
+        title: candidate.item.title,
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        travelMinutes: previous ? travel.minutes : 0,
+        distanceKm: travel.distanceKm,
+        score: candidate.score
+      });
+      remaining = remaining.filter(r => r !== candidate);
+      cursor = end;
+      previous = candidate.item;
+    }
+
+    if (slots.length > 0) days.push({ date: new Date(midnight - offset).toISOString().slice(0, 10), slots });
+  }
+
+  const unscheduled = remaining.map(({ item }) => ({
+    itemId: item.id,
+    title: item.title,
+    reason: itemDuration(item) > dayEndMinutes - dayStartMinutes
+      ? 'Longer than a planning day'
+      : 'No free time within its opening hours'
+  }));
+
+  return { days, unscheduled };
+}
+
+// Checks planner-edited slots before they are applied: known items, sane times, no overlaps
+export function validateSchedule(items, slots) {
+  if (!Array.isArray(slots)) return { error: 'Slots are required' };
+  const byId = new Map(items.map(item => [item.id, item]));
+  const seen = new Set();
+  const parsed = [];
+  for (const slot of slots) {
+    const item = byId.get(slot?.itemId);
+    if (!item) return { error: 'The schedule refers to an activity that is no longer in the itinerary' };
+    if (seen.has(item.id)) return { error: `${item.title || item.id} is scheduled twice` };
+    seen.add(item.id);
+    const start = Date.parse(slot.start);
+    const end = Date.parse(slot.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+      return { error: `${item.title || item.id} needs a start time before its end time` };
+    }
+    parsed.push({ item, start, end });
+  }
+  parsed.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < parsed.length; i++) {
+    if (parsed[i].start < parsed[i - 1].end) {
+      return { error: `${parsed[i].item.title || parsed[i].item.id} overlaps ${parsed[i - 1].item.title || parsed[i - 1].item.id}` };
+    }
+  }
+  return { slots: parsed };
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { getSupabase } from './supabase-client.js';
+
+export const RECEIPT_MAX_BYTES = (Number(process.env.RECEIPT_MAX_MB) || 10) * 1024 * 1024;
+export const RECEIPT_MAX_FILES = 10; // per expense, across all uploads
+export const THUMBNAIL_SIZE = 320;
+
+// Accepted receipt types, recognised by their leading bytes rather than the name or declared type
+const SIGNATURES = [
+  { contentType: 'image/jpeg', ext: 'jpg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { contentType: 'image/png', ext: 'png', matches: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/gif', ext: 'gif', matches: (b) => b.subarray(0, 4).toString('latin1') === 'GIF8' },
+  { contentType: 'image/webp', ext: 'webp', matches: (b) => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { contentType: 'application/pdf', ext: 'pdf', matches: (b) => b.subarray(0, 5).toString('latin1') === '%PDF-' }
+];
+
+export function detectReceiptType(buffer) {
+  const match = SIGNATURES.find(s => buffer.length >= 12 && s.matches(buffer));
+  return match ? { contentType: match.contentType, ext: match.ext } : null;
+}
+
+// { contentType, ext } for an acceptable file, or { error } saying why it was refused
+export function validateReceipt({ buffer, originalName = 'receipt' }) {
+  if (!buffer || buffer.length === 0) return { error: `${originalName} is empty` };
+  if (buffer.length > RECEIPT_MAX_BYTES) return { error: `${originalName} is larger than ${RECEIPT_MAX_BYTES / 1024 / 1024} MB` };
+  const type = detectReceiptType(buffer);
+  if (!type) return { error: `${originalName} is not a JPEG, PNG, GIF, WebP or PDF file` };
+  return type;
+}
+
+// JPEG preview that fits in THUMBNAIL_SIZE, honouring EXIF orientation; null for PDFs
+export async function createThumbnail(buffer, contentType) {
+  if (!contentType.startsWith('image/')) return null;
+  return sharp(buffer, { animated: false })
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+}
+
+// Receipt stores keep file contents under keys like "<budgetId>/<expenseId>/<receiptId>.jpg";
+// metadata lives on the expense row. put, get and remove are async; get resolves to a Buffer or null.
+export class LocalReceiptStore {
+  constructor({ dir }) {
+    this.dir = path.resolve(dir);
+  }
+
+  // Keys are generated by the server, but never let one escape the receipts directory
+  resolve(key) {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(this.dir + path.sep)) throw new Error(`Invalid receipt key "${key}"`);
+    return file;
+  }
+
+  async put(key, buffer) {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, buffer);
+  }
+
+  async get(key) {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (e) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async remove(keys) {
+    await Promise.all(keys.map(key => fs.promises.rm(this.resolve(key), { force: true })));
+  }
+}
+
+// Objects in a Supabase Storage bucket (private; files are served through the API)
+export class SupabaseReceiptStore {
+  constructor({ getClient = getSupabase, bucket = 'budget-receipts' } = {}) {
+    this.getClient = getClient;
+    this.bucket = bucket;
+  }
+
+  async put(key, buffer, contentType) {
+    const { error } = await this.getClient().storage.from(this.bucket).upload(key, buffer, { contentType, upsert: false });
+    if (error) throw error;
+  }
+
+  async get(key) {
+    const { data, error } = await this.getClient().storage.from(this.bucket).download(key);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(keys) {
+    const { error } = await this.getClient().storage.from(this.bucket).remove(keys);
+    if (error) throw error;
+  }
+}
+
+// RECEIPT_STORAGE picks the backend: 'local' (default, data/receipts) or 'supabase'
+export function createReceiptStore({ kind = process.env.RECEIPT_STORAGE || 'local', dir = process.env.RECEIPT_DIR, ...options } = {}) {
+  if (kind === 'supabase') return new SupabaseReceiptStore({ bucket: process.env.RECEIPT_BUCKET || undefined, ...options });
+  if (kind !== 'local') throw new Error(`Unknown RECEIPT_STORAGE "${kind}", expected local or supabase`);
+  return new LocalReceiptStore({ dir: dir || path.resolve(process.cwd(), 'data/receipts') });
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { getSupabase } from './supabase-client.js';
+
+// Version 1 files were a bare array of sessions without votes; version 2 wraps them and adds votes
+export const SESSIONS_FILE_VERSION = 2;
+
+const DEFAULT_DEBOUNCE_MS = Number(process.env.COLLAB_SAVE_DEBOUNCE_MS) || 250;
+
+// Session stores persist the records CollaborationService serializes (one plain object per session).
+// save(snapshot) is called on every change with a function returning all current records; bursts of
+// changes are batched into one write of the latest state. flush() resolves once everything saved so
+// far is durable. Writes never overlap, so a slow write cannot be overtaken by an older snapshot.
+class DebouncedSessionStore {
+  constructor({ debounceMs = DEFAULT_DEBOUNCE_MS } = {}) {
+    this.debounceMs = debounceMs;
+    this.timer = null;
+    this.pending = null;
+    this.writing = Promise.resolve();
+  }
+
+  save(snapshot) {
+    this.pending = snapshot;
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.debounceMs);
+    this.timer.unref?.();
+  }
+
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.writing = this.writing.then(async () => {
+      const snapshot = this.pending;
+      if (!snapshot) return;
+      this.pending = null;
+      try {
+        await this.write(snapshot());
+      } catch (e) {
+        console.error('Failed to save sessions:', e);
+        // Try again later unless a newer change already queued its own write
+        if (!this.pending) this.save(snapshot);
+      }
+    });
+    return this.writing;
+  }
+}
+
+// JSON file written atomically: a temp file is synced and then renamed over the old one,
+// so a crash mid-write leaves the previous version intact.
+export class FileSessionStore extends DebouncedSessionStore {
+  constructor({ file, ...options }) {
+    super(options);
+    this.file = file;
+  }
+
+  // Synchronous so the service has its sessions as soon as it is constructed
+  loadSync() {
+    if (!fs.existsSync(this.file)) return [];
+    const parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+    // Version 1 files are migrated on the next save
+    return Array.isArray(parsed) ? parsed : (parsed?.sessions || []);
+  }
+
+  async load() {
+    return this.loadSync();
+  }
+
+  async write(records) {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    const handle = await fs.promises.open(tmp, 'w');
+    try {
+      await handle.writeFile(JSON.stringify({ version: SESSIONS_FILE_VERSION, sessions: records }, null, 2), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tmp, this.file);
+  }
+}
+
+// One row per session in vc_app.collaboration_session_state (see COLLABORATION_DB_SETUP.md).
+// Only sessions whose record changed since the last write are upserted. Rows are never deleted
+// here, so a save that runs before load() finished cannot drop sessions it has not seen yet.
+export class SupabaseSessionStore extends DebouncedSessionStore {
+  constructor({ getClient = getSupabase, table = 'collaboration_session_state', batchSize = 100, ...options } = {}) {
+    super(options);
+    this.getClient = getClient;
+    this.table = table;
+    this.batchSize = batchSize;
+    this.written = new Map(); // sessionId -> JSON last stored
+  }
+
+  async load() {
+    const { data, error } = await this.getClient().from(this.table).select('session_id, payload');
+    if (error) throw error;
+    return (data || []).map(row => {
+      this.written.set(row.session_id, JSON.stringify(row.payload));
+      return row.payload;
+    });
+  }
+
+  async write(records) {
+    const changed = records
+      .map(record => ({ record, json: JSON.stringify(record) }))
+      .filter(({ record, json }) => this.written.get(record.id) !== json);
+    for (let i = 0; i < changed.length; i += this.batchSize) {
+      const batch = changed.slice(i, i + this.batchSize);
+      const rows = batch.map(({ record }) => ({
+        session_id: record.id,
+        payload: record,
+        updated_at: new Date().toISOString()
+      }));
+      const { error } = await this.getClient().from(this.table).upsert(rows, { onConflict: 'session_id' });
+      if (error) throw error;
+      batch.forEach(({ record, json }) => this.written.set(record.id, json));
+    }
+  }
+}
+
+// COLLAB_STORAGE picks the backend: 'file' (default, data/sessions.json) or 'supabase'
+export function createSessionStore({ sessionsFile, kind = process.env.COLLAB_STORAGE || 'file', ...options } = {}) {
+  if (kind === 'supabase') return new SupabaseSessionStore(options);
+  if (kind !== 'file') throw new Error(`Unknown COLLAB_STORAGE "${kind}", expected file or supabase`);
+  return new FileSessionStore({ file: sessionsFile || path.resolve(process.cwd(), 'data/sessions.json'), ...options });
+}
@@ -8,6 +8,7 @@ import { LoginPage } from './modules/auth/LoginPage';
 import { Dashboard } from './modules/dashboard/Dashboard';
 import { ActivityPlannerPage } from './modules/activity/ActivityPlannerPage';
 import { CollaborativePlanningPage } from './modules/collaboration/CollaborativePlanningPage';
+import { JoinSessionPage } from './modules/collaboration/JoinSessionPage';
 import { BillSplitterPage } from './modules/billsplitter/BillSplitterPage';
 import { BirthdayPage } from './modules/birthday/BirthdayPage';
 import { BudgetPage } from './modules/budget/BudgetPage';
@@ -37,6 +38,7 @@ function App() {
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/activity-planner" element={<ProtectedRoute><ActivityPlannerPage /></ProtectedRoute>} />
             <Route path="/collaborate" element={<ProtectedRoute><CollaborativePlanningPage /></ProtectedRoute>} />
+            <Route path="/collaborate/join/:token" element={<ProtectedRoute><JoinSessionPage /></ProtectedRoute>} />
             <Route path="/collaborate/:sessionId" element={<ProtectedRoute><CollaborativePlanningPage /></ProtectedRoute>} />
             <Route path="/billsplitter" element={<ProtectedRoute><BillSplitterPage /></ProtectedRoute>} />
             <Route path="/birthday" element={<ProtectedRoute><BirthdayPage /></ProtectedRoute>} />
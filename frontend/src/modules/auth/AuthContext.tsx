@@ -10,6 +10,8 @@ type AuthContextType = {
   login: (email: string, password: string) => Promise<{ ok: boolean; error?: string }>;
   logout: () => Promise<void>;
   getAuthHeader: () => HeadersInit;
+  // Resolves to the new access token, or null when the refresh token is missing or rejected
+  refreshAccessToken: () => Promise<string | null>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -113,9 +115,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [navigate, getAuthHeader]);
 
   // Refresh access token using stored refresh token
-  const refreshAccessToken = useCallback(async () => {
+  const refreshAccessToken = useCallback(async (): Promise<string | null> => {
     const storedRefreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
-    if (!storedRefreshToken) return false;
+    if (!storedRefreshToken) return null;
 
     try {
       const data = await api<{ 
@@ -131,12 +133,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setAccessToken(data.accessToken);
         setRefreshToken(data.refreshToken);
         if (data?.user) setUser(data.user);
-        return true;
+        return data.accessToken;
       }
     } catch (error) {
       console.error('Token refresh failed:', error);
     }
-    return false;
+    return null;
   }, []);
 
   // Hydrate on load
@@ -193,8 +195,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [refreshToken, refreshAccessToken]);
 
   const value = useMemo(
-    () => ({ user, accessToken, isInitialized, login, logout, getAuthHeader }), 
-    [user, accessToken, isInitialized, login, logout, getAuthHeader]
+    () => ({ user, accessToken, isInitialized, login, logout, getAuthHeader, refreshAccessToken }), 
+    [user, accessToken, isInitialized, login, logout, getAuthHeader, refreshAccessToken]
   );
   
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
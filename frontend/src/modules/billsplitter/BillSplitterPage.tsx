@@ -8,6 +8,7 @@ interface Group {
   id: string;
   name: string;
   memberIds: string[];
+  baseCurrency?: string;
   createdBy: string;
   createdAt: string;
 }
@@ -17,19 +18,108 @@ interface Bill {
   groupId: string;
   title: string;
   currency: string;
+  baseCurrency?: string;
+  exchangeRate?: number;
+  charges?: BillCharge[];
   createdBy: string;
   createdAt: string;
+  subtotal?: number;
+  chargesTotal?: number;
   total: number;
   itemCount: number;
 }
 
+type ChargeType = 'tax' | 'tip' | 'service';
+
+interface BillCharge {
+  type: ChargeType;
+  mode: 'percent' | 'fixed';
+  value: number;
+  label?: string;
+  payerId?: string;
+}
+
+interface ChargeBreakdown {
+  userId: string;
+  subtotal: number;
+  tax: number;
+  tip: number;
+  service: number;
+  total: number;
+}
+
+type SplitMethod = 'equal' | 'exact' | 'percentage' | 'shares';
+
+interface SplitParticipant {
+  userId: string;
+  value?: number;
+}
+
 interface BillItem {
   id: string;
   billId: string;
   description: string;
   amount: number;
   payerId: string;
+  splitMethod: SplitMethod;
+  splitDefinition: SplitParticipant[];
   splits: { userId: string; amount: number }[];
+  createdBy?: string | null;
+}
+
+interface ReceiptDraft {
+  lineNumber: number;
+  description: string;
+  amount: string;
+  include: boolean;
+  participantIds: string[];
+  unmatchedAssignees: string[];
+  ambiguousAssignees: string[];
+}
+
+interface ReceiptSkippedLine {
+  lineNumber: number;
+  text: string;
+  reason: string;
+}
+
+type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+interface RecurringTemplate {
+  id: string;
+  groupId: string;
+  title: string;
+  description: string;
+  amount: number;
+  currency: string | null;
+  payerId: string;
+  split: { method: SplitMethod; participants: SplitParticipant[] };
+  frequency: RecurringFrequency;
+  startOn: string;
+  endOn: string | null;
+  nextRunOn: string;
+  status: 'active' | 'paused' | 'ended';
+  lastBillId: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  billId: string;
+  itemId: string | null;
+  action: 'item.create' | 'item.update' | 'item.delete' | 'bill.update' | 'bill.delete' | 'bill.charges';
+  actorId: string;
+  changes: AuditChange[];
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  createdAt: string;
 }
 
 interface Settlement {
@@ -43,6 +133,113 @@ interface Transaction {
   amount: number;
 }
 
+interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+interface OriginalAmount {
+  currency: string;
+  exchangeRate: number;
+  total: number;
+}
+
+interface Payment {
+  id: string;
+  groupId: string;
+  billId: string | null;
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+  note: string | null;
+  recordedBy: string;
+  createdAt: string;
+  voidedAt: string | null;
+  voidedBy: string | null;
+}
+
+interface LedgerBalance {
+  userId: string;
+  paid: number;
+  owed: number;
+  sent: number;
+  received: number;
+  balance: number;
+}
+
+interface LedgerEntry {
+  type: 'bill' | 'payment';
+  billId: string | null;
+  paymentId?: string;
+  fromUserId?: string;
+  toUserId?: string;
+  title: string;
+  original?: OriginalAmount;
+  createdAt: string;
+  total: number;
+  changes: LedgerBalance[];
+  runningBalances: LedgerBalance[];
+}
+
+interface GroupLedger {
+  groupId: string;
+  currency: string;
+  billCount: number;
+  paymentCount: number;
+  entries: LedgerEntry[];
+  balances: LedgerBalance[];
+  transactions: Transaction[];
+}
+
+const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: 'Equal',
+  percentage: 'Percentage',
+  shares: 'Shares',
+  exact: 'Exact Amounts'
+};
+
+const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  'item.create': 'added item',
+  'item.update': 'edited item',
+  'item.delete': 'deleted item',
+  'bill.update': 'edited bill',
+  'bill.delete': 'deleted bill',
+  'bill.charges': 'changed tax & tip'
+};
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly'
+};
+
+const CHARGE_LABELS: Record<ChargeType, string> = {
+  tax: 'Tax',
+  tip: 'Tip',
+  service: 'Service charge'
+};
+
+function chargeAmount(charge: BillCharge, subtotal: number) {
+  return charge.mode === 'percent'
+    ? Math.round(Math.round(subtotal * 100) * charge.value / 100) / 100
+    : charge.value;
+}
+
+const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'JPY', 'CAD', 'AUD', 'CHF', 'SGD'];
+
+function formatMoney(amount: number, currency = 'USD') {
+  const value = Number(amount) || 0;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  } catch {
+    return `${currency} ${value.toFixed(2)}`;
+  }
+}
+
 export const BillSplitterPage: React.FC = () => {
   const { getAuthHeader, user, accessToken } = useAuth();
   const { users: availableUsers } = useUsers();
@@ -53,19 +250,55 @@ export const BillSplitterPage: React.FC = () => {
   const [billItems, setBillItems] = useState<BillItem[]>([]);
   const [settlements, setSettlements] = useState<Settlement[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [settlementCurrency, setSettlementCurrency] = useState('USD');
+  const [settlementOriginal, setSettlementOriginal] = useState<OriginalAmount | null>(null);
+  const [chargeBreakdown, setChargeBreakdown] = useState<ChargeBreakdown[]>([]);
+  const [showCharges, setShowCharges] = useState(false);
+  const [chargeDrafts, setChargeDrafts] = useState<BillCharge[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [showExchangeRates, setShowExchangeRates] = useState(false);
+  const [rateDrafts, setRateDrafts] = useState<{ currency: string; rate: string }[]>([]);
+  const [ledger, setLedger] = useState<GroupLedger | null>(null);
+  const [showLedger, setShowLedger] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
   
   // Form states
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [showCreateBill, setShowCreateBill] = useState(false);
   const [showAddItem, setShowAddItem] = useState(false);
+  const [editingItem, setEditingItem] = useState<BillItem | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [showImport, setShowImport] = useState(false);
+  const [importFormat, setImportFormat] = useState<'text' | 'csv'>('text');
+  const [importContent, setImportContent] = useState('');
+  const [importDrafts, setImportDrafts] = useState<ReceiptDraft[] | null>(null);
+  const [importSkipped, setImportSkipped] = useState<ReceiptSkippedLine[]>([]);
+  const [importReceiptTotal, setImportReceiptTotal] = useState<number | null>(null);
+  const [importPayer, setImportPayer] = useState('');
+  const [showRecurring, setShowRecurring] = useState(false);
+  const [recurringTemplates, setRecurringTemplates] = useState<RecurringTemplate[]>([]);
+  const [recurringForm, setRecurringForm] = useState({
+    title: '',
+    amount: '',
+    payerId: '',
+    frequency: 'monthly' as RecurringFrequency,
+    startOn: new Date().toISOString().slice(0, 10),
+    endOn: ''
+  });
+  const [recurringExcluded, setRecurringExcluded] = useState<string[]>([]);
   const [groupName, setGroupName] = useState('');
   const [memberEmails, setMemberEmails] = useState('');
   const [billTitle, setBillTitle] = useState('');
+  const [billCurrency, setBillCurrency] = useState('');
+  const [groupBaseCurrency, setGroupBaseCurrency] = useState('USD');
   const [itemDescription, setItemDescription] = useState('');
   const [itemAmount, setItemAmount] = useState('');
   const [itemPayer, setItemPayer] = useState('');
-  const [splitMethod, setSplitMethod] = useState<'equal' | 'custom'>('equal');
-  const [customSplits, setCustomSplits] = useState<Record<string, number>>({});
+  const [splitMethod, setSplitMethod] = useState<SplitMethod>('equal');
+  const [splitValues, setSplitValues] = useState<Record<string, number>>({});
+  const [excludedFromSplit, setExcludedFromSplit] = useState<string[]>([]);
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
   
   const [loading, setLoading] = useState(false);
@@ -205,6 +438,7 @@ export const BillSplitterPage: React.FC = () => {
   function resetCreateGroupModal() {
     setShowCreateGroup(false);
     setGroupName('');
+    setGroupBaseCurrency('USD');
     setMemberEmails('');
     setSelectedParticipants([]);
     setError(null);
@@ -242,7 +476,7 @@ export const BillSplitterPage: React.FC = () => {
       const res = await fetch('/api/billsplitter/groups', {
         method: 'POST',
         headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: groupName, memberIds: uniqueMemberIds })
+        body: JSON.stringify({ name: groupName, memberIds: uniqueMemberIds, baseCurrency: groupBaseCurrency })
       });
       
       if (!res.ok) {
@@ -263,6 +497,11 @@ export const BillSplitterPage: React.FC = () => {
   async function selectGroup(group: Group) {
     setSelectedGroup(group);
     setSelectedBill(null);
+    setShowLedger(false);
+    setLedger(null);
+    setPayments([]);
+    setExchangeRates([]);
+    fetchExchangeRates(group.id);
     
     try {
       // Fetch group details with bills
@@ -277,6 +516,8 @@ export const BillSplitterPage: React.FC = () => {
         groupId: b.group_id ?? b.groupId,
         title: b.title,
         currency: b.currency,
+        baseCurrency: b.base_currency ?? b.baseCurrency,
+        exchangeRate: b.exchange_rate ?? b.exchangeRate,
         createdBy: b.created_by ?? b.createdBy,
         createdAt: b.created_at ?? b.createdAt,
         total: b.total ?? 0,
@@ -351,15 +592,19 @@ export const BillSplitterPage: React.FC = () => {
         body: JSON.stringify({
           groupId: selectedGroup.id,
           title: billTitle,
-          currency: 'USD'
+          currency: billCurrency || selectedGroup.baseCurrency || 'USD'
         })
       });
       
-      if (!res.ok) throw new Error('Failed to create bill');
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to create bill');
+      }
       const data = await res.json();
-      setBills([...bills, data.bill]);
+      setBills([...bills, { ...data.bill, total: 0, itemCount: 0 }]);
       setShowCreateBill(false);
       setBillTitle('');
+      setBillCurrency('');
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -369,6 +614,11 @@ export const BillSplitterPage: React.FC = () => {
 
   async function selectBill(bill: Bill) {
     setSelectedBill(bill);
+    setShowLedger(false);
+    setSettlements([]);
+    setTransactions([]);
+    setChargeBreakdown([]);
+    fetchPayments({ billId: bill.id });
     
     try {
       const res = await fetch(`/api/billsplitter/bills/${bill.id}`, {
@@ -377,51 +627,158 @@ export const BillSplitterPage: React.FC = () => {
       if (!res.ok) throw new Error('Failed to fetch bill details');
       const data = await res.json();
       setBillItems(data.items);
+      if (data.bill) setSelectedBill({ ...bill, ...data.bill });
     } catch (err: any) {
       setError(err.message);
     }
   }
 
+  function resetItemForm() {
+    setShowAddItem(false);
+    setEditingItem(null);
+    setItemDescription('');
+    setItemAmount('');
+    setItemPayer('');
+    setSplitMethod('equal');
+    setSplitValues({});
+    setExcludedFromSplit([]);
+  }
+
+  function openEditItem(item: BillItem) {
+    const memberIds: string[] = groupMembers.length > 0 ? groupMembers.map(m => m.id) : (selectedGroup?.memberIds || []);
+    const definition = item.splitDefinition || [];
+    setEditingItem(item);
+    setItemDescription(item.description);
+    setItemAmount(String(item.amount));
+    setItemPayer(item.payerId);
+    setSplitMethod(item.splitMethod || 'exact');
+    setSplitValues(Object.fromEntries(definition.filter(p => typeof p.value === 'number').map(p => [p.userId, p.value as number])));
+    setExcludedFromSplit(memberIds.filter(id => !definition.some(p => p.userId === id)));
+    setShowAddItem(true);
+  }
+
   async function addItem() {
     if (!itemDescription.trim() || !itemAmount || !itemPayer || !selectedBill || !selectedGroup) return;
     
     setLoading(true);
     try {
       const amount = parseFloat(itemAmount);
-      let splits: { userId: string; amount: number }[] = [];
-      
-      if (splitMethod === 'equal') {
-        const splitAmount = amount / selectedGroup.memberIds.length;
-        splits = selectedGroup.memberIds.map(userId => ({
-          userId,
-          amount: Math.round(splitAmount * 100) / 100
-        }));
-      } else {
-        splits = Object.entries(customSplits).map(([userId, amt]) => ({
-          userId,
-          amount: amt
-        }));
-      }
+      // The server computes the per-person amounts (and rounding) from the split definition
+      const memberIds: string[] = groupMembers.length > 0 ? groupMembers.map(m => m.id) : selectedGroup.memberIds;
+      const participants: SplitParticipant[] = splitMethod === 'equal'
+        ? memberIds.filter(id => !excludedFromSplit.includes(id)).map(userId => ({ userId }))
+        : memberIds.filter(id => (splitValues[id] || 0) > 0).map(userId => ({ userId, value: splitValues[userId] }));
       
-      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/items`, {
-        method: 'POST',
+      const url = editingItem
+        ? `/api/billsplitter/bills/${selectedBill.id}/items/${editingItem.id}`
+        : `/api/billsplitter/bills/${selectedBill.id}/items`;
+      const res = await fetch(url, {
+        method: editingItem ? 'PUT' : 'POST',
         headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
         body: JSON.stringify({
           description: itemDescription,
           amount,
           payerId: itemPayer,
-          splits
+          split: { method: splitMethod, participants }
         })
       });
       
-      if (!res.ok) throw new Error('Failed to add item');
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || (editingItem ? 'Failed to update item' : 'Failed to add item'));
+      }
+      const data = await res.json();
+      setBillItems(editingItem
+        ? billItems.map(i => (i.id === editingItem.id ? data.item : i))
+        : [...billItems, data.item]);
+      resetItemForm();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openImport() {
+    setImportFormat('text');
+    setImportContent('');
+    setImportDrafts(null);
+    setImportSkipped([]);
+    setImportReceiptTotal(null);
+    setImportPayer(user?.id || '');
+    setShowImport(true);
+  }
+
+  async function loadImportFile(file: File) {
+    setImportFormat(/\.(csv|tsv)$/i.test(file.name) ? 'csv' : 'text');
+    setImportContent(await file.text());
+  }
+
+  async function previewImport() {
+    if (!selectedBill || !importContent.trim()) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/import/preview`, {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: importFormat, content: importContent })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to read receipt');
+      }
+      const data = await res.json();
+      const memberIds: string[] = groupMembers.length > 0 ? groupMembers.map(m => m.id) : (selectedGroup?.memberIds || []);
+      // Lines without a recognised assignee start out shared by everyone
+      setImportDrafts(data.lines.map((line: any) => ({
+        lineNumber: line.lineNumber,
+        description: line.description,
+        amount: String(line.amount),
+        include: true,
+        participantIds: line.assigneeIds.length > 0 ? line.assigneeIds : memberIds,
+        unmatchedAssignees: line.unmatchedAssignees,
+        ambiguousAssignees: line.ambiguousAssignees || []
+      })));
+      setImportSkipped(data.skipped || []);
+      setImportReceiptTotal(data.receiptTotal ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateImportDraft(index: number, patch: Partial<ReceiptDraft>) {
+    setImportDrafts(prev => prev && prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  }
+
+  async function commitImport() {
+    if (!selectedBill || !importDrafts || !importPayer) return;
+    const selected = importDrafts.filter(d => d.include);
+    if (selected.length === 0) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/import`, {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: selected.map(d => ({
+            description: d.description,
+            amount: parseFloat(d.amount),
+            payerId: importPayer,
+            split: { method: 'equal', participants: d.participantIds.map(userId => ({ userId })) }
+          }))
+        })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to import items');
+      }
       const data = await res.json();
-      setBillItems([...billItems, data.item]);
-      setShowAddItem(false);
-      setItemDescription('');
-      setItemAmount('');
-      setItemPayer('');
-      setCustomSplits({});
+      setBillItems([...billItems, ...data.items]);
+      setShowImport(false);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -443,110 +800,508 @@ export const BillSplitterPage: React.FC = () => {
       const data = await res.json();
       setSettlements(data.settlements);
       setTransactions(data.transactions);
+      setSettlementCurrency(data.currency || selectedBill.currency);
+      setSettlementOriginal(data.original && data.original.currency !== data.currency ? data.original : null);
+      setChargeBreakdown(data.breakdown?.people || []);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function fetchLedger() {
+    if (!selectedGroup) return;
+
+    try {
+      const res = await fetch(`/api/billsplitter/groups/${selectedGroup.id}/ledger`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to load group ledger');
+      }
+      const data: GroupLedger = await res.json();
+      setLedger(data);
+      setSelectedBill(null);
+      setShowLedger(true);
+      fetchPayments({ groupId: selectedGroup.id });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function deleteItem(item: BillItem) {
+    if (!selectedBill || !confirm(`Delete "${item.description}"? The change is kept in the bill history.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/items/${item.id}`, {
+        method: 'DELETE',
+        headers: getAuthHeader()
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete item');
+      }
+      setBillItems(prev => prev.filter(i => i.id !== item.id));
     } catch (err: any) {
       setError(err.message);
     }
   }
 
-  async function exportBill() {
+  async function renameBill() {
     if (!selectedBill) return;
-    
+    const title = prompt('Bill title', selectedBill.title)?.trim();
+    if (!title || title === selectedBill.title) return;
+
+    try {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}`, {
+        method: 'PUT',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to rename bill');
+      }
+      setSelectedBill({ ...selectedBill, title });
+      setBills(prev => prev.map(b => (b.id === selectedBill.id ? { ...b, title } : b)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function deleteBill() {
+    if (!selectedBill || !confirm(`Delete the bill "${selectedBill.title}" and all of its items?`)) {
+      return;
+    }
+
     try {
-      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/export`, {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}`, {
+        method: 'DELETE',
         headers: getAuthHeader()
       });
-      
-      if (!res.ok) throw new Error('Failed to export bill');
-      
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${selectedBill.title}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete bill');
+      }
+      setBills(prev => prev.filter(b => b.id !== selectedBill.id));
+      setSelectedBill(null);
+      setBillItems([]);
     } catch (err: any) {
       setError(err.message);
     }
   }
 
-  const getUserName = (userId: string) => {
-    const user = availableUsers.find(u => u.id === userId);
-    return user?.name || userId;
-  };
+  async function openHistory(itemId: string | null) {
+    if (!selectedBill) return;
 
-  return (
-    <AppLayout title="Bill Splitter">
-      <div className="container-fluid">
-        {/* Summary Cards */}
-        <div className="row mb-4">
-          <div className="col-md-3">
-            <div className="card border-0 shadow-sm">
-              <div className="card-body text-center">
-                <i className="fas fa-users fa-2x text-primary mb-2"></i>
-                <h4 className="mb-1">{groups.length}</h4>
-                <p className="text-muted mb-0">Groups</p>
-              </div>
-            </div>
-          </div>
-          <div className="col-md-3">
-            <div className="card border-0 shadow-sm">
-              <div className="card-body text-center">
-                <i className="fas fa-receipt fa-2x text-success mb-2"></i>
-                <h4 className="mb-1">{bills.length}</h4>
-                <p className="text-muted mb-0">Total Bills</p>
-              </div>
-            </div>
-          </div>
-          <div className="col-md-3">
-            <div className="card border-0 shadow-sm">
-              <div className="card-body text-center">
-                <i className="fas fa-dollar-sign fa-2x text-warning mb-2"></i>
-                <h4 className="mb-1">${bills.reduce((sum, bill) => sum + bill.total, 0).toFixed(2)}</h4>
-                <p className="text-muted mb-0">Total Spent</p>
-              </div>
-            </div>
-          </div>
-          <div className="col-md-3">
-            <div className="card border-0 shadow-sm">
-              <div className="card-body text-center">
-                <i className="fas fa-chart-line fa-2x text-info mb-2"></i>
-                <h4 className="mb-1">{bills.length > 0 ? (bills.reduce((sum, bill) => sum + bill.total, 0) / bills.length).toFixed(2) : 0}</h4>
-                <p className="text-muted mb-0">Avg Bill</p>
-              </div>
-            </div>
-          </div>
-        </div>
+    try {
+      const query = itemId ? `?itemId=${encodeURIComponent(itemId)}` : '';
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/audit${query}`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to load history');
+      const data = await res.json();
+      setAuditEntries(data.entries || []);
+      setHistoryItemId(itemId);
+      setShowHistory(true);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
 
-        {/* Error Display */}
-        {error && (
-          <div className="alert alert-danger alert-dismissible fade show" role="alert">
-            <i className="fas fa-exclamation-triangle me-2"></i>
-            {error}
-            <button type="button" className="btn-close" onClick={() => setError(null)}></button>
-          </div>
-        )}
+  function formatAuditValue(field: string, value: unknown) {
+    if (value === null || value === undefined) return '—';
+    if (field === 'amount') return formatMoney(Number(value), selectedBill?.currency);
+    if (field === 'payerId') return getUserName(String(value));
+    if (field === 'splitMethod') return SPLIT_METHOD_LABELS[value as SplitMethod] || String(value);
+    if (field === 'splitDefinition' && Array.isArray(value)) {
+      return value.map((p: SplitParticipant) => (p.value !== undefined ? `${getUserName(p.userId)}: ${p.value}` : getUserName(p.userId))).join(', ');
+    }
+    if (field === 'charges' && Array.isArray(value)) {
+      return value.length === 0 ? 'none' : value.map((c: BillCharge) => `${c.label || CHARGE_LABELS[c.type]} ${c.mode === 'percent' ? `${c.value}%` : c.value}`).join(', ');
+    }
+    return String(value);
+  }
 
-        {/* Production UI: debug buttons removed */}
+  async function openRecurring() {
+    if (!selectedGroup) return;
 
-        <div className="row">
-          {/* Groups Section */}
-          <div className="col-md-3">
-            <div className="card vc-card">
-              <div className="card-header d-flex justify-content-between align-items-center">
-                <h5 className="mb-0">Groups</h5>
-                <button
-                  className="btn btn-sm btn-primary"
-                  onClick={() => setShowCreateGroup(true)}
-                >
-                  <i className="fas fa-plus"></i>
-                </button>
-              </div>
-              <div className="card-body p-0">
-                <div className="list-group list-group-flush">
-                  {loading ? (
+    try {
+      const res = await fetch(`/api/billsplitter/groups/${selectedGroup.id}/recurring`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to load recurring bills');
+      const data = await res.json();
+      setRecurringTemplates(data.templates || []);
+      setShowRecurring(true);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function createRecurring() {
+    if (!selectedGroup || !recurringForm.title.trim() || !recurringForm.amount || !recurringForm.payerId) return;
+
+    setLoading(true);
+    try {
+      const memberIds: string[] = groupMembers.length > 0 ? groupMembers.map(m => m.id) : selectedGroup.memberIds;
+      const res = await fetch(`/api/billsplitter/groups/${selectedGroup.id}/recurring`, {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: recurringForm.title,
+          amount: parseFloat(recurringForm.amount),
+          payerId: recurringForm.payerId,
+          frequency: recurringForm.frequency,
+          startOn: recurringForm.startOn,
+          endOn: recurringForm.endOn || undefined,
+          split: {
+            method: 'equal',
+            participants: memberIds.filter(id => !recurringExcluded.includes(id)).map(userId => ({ userId }))
+          }
+        })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to create recurring bill');
+      }
+      const data = await res.json();
+      setRecurringTemplates([...recurringTemplates, data.template]);
+      setRecurringForm({ ...recurringForm, title: '', amount: '', endOn: '' });
+      setRecurringExcluded([]);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function updateRecurring(templateId: string, action: 'pause' | 'resume' | 'skip' | 'end') {
+    if (action === 'end' && !confirm('Stop this recurring bill? Existing bills are kept.')) return;
+
+    try {
+      const res = await fetch(`/api/billsplitter/recurring/${templateId}/${action}`, {
+        method: 'POST',
+        headers: getAuthHeader()
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update recurring bill');
+      }
+      const data = await res.json();
+      setRecurringTemplates(prev => prev.map(t => (t.id === templateId ? data.template : t)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  function openCharges() {
+    setChargeDrafts(selectedBill?.charges || []);
+    setShowCharges(true);
+  }
+
+  async function saveCharges() {
+    if (!selectedBill) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/billsplitter/bills/${selectedBill.id}/charges`, {
+        method: 'PUT',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ charges: chargeDrafts.filter(c => c.value > 0) })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save charges');
+      }
+      const data = await res.json();
+      setSelectedBill({ ...selectedBill, ...data.bill });
+      setBills(prev => prev.map(b => (b.id === selectedBill.id ? { ...b, total: data.bill.total } : b)));
+      setShowCharges(false);
+      if (settlements.length > 0) await calculateSettlements();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchExchangeRates(groupId: string) {
+    try {
+      const res = await fetch(`/api/billsplitter/groups/${groupId}/exchange-rates`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setExchangeRates(data.rates || []);
+      if (data.baseCurrency) {
+        setSelectedGroup(prev => (prev && prev.id === groupId ? { ...prev, baseCurrency: data.baseCurrency } : prev));
+      }
+    } catch (err) {
+      console.error('Failed to fetch exchange rates:', err);
+    }
+  }
+
+  function openExchangeRates() {
+    setRateDrafts(exchangeRates.map(r => ({ currency: r.currency, rate: String(r.rate) })));
+    setShowExchangeRates(true);
+  }
+
+  async function saveExchangeRates() {
+    if (!selectedGroup) return;
+    const rates = rateDrafts
+      .filter(r => r.currency.trim() && r.rate)
+      .map(r => ({ currency: r.currency.trim().toUpperCase(), rate: parseFloat(r.rate) }));
+    if (rates.length === 0) {
+      setShowExchangeRates(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/billsplitter/groups/${selectedGroup.id}/exchange-rates`, {
+        method: 'PUT',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rates })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save exchange rates');
+      }
+      await fetchExchangeRates(selectedGroup.id);
+      setShowExchangeRates(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchPayments(scope: { groupId?: string; billId?: string }) {
+    try {
+      const params = new URLSearchParams(scope as Record<string, string>);
+      const res = await fetch(`/api/billsplitter/payments?${params.toString()}`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to fetch payments');
+      const data = await res.json();
+      setPayments(data.payments || []);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function refreshAfterPaymentChange() {
+    if (showLedger) {
+      await fetchLedger();
+    } else if (selectedBill) {
+      await calculateSettlements();
+      await fetchPayments({ billId: selectedBill.id });
+    }
+  }
+
+  async function markAsPaid(t: Transaction) {
+    if (!selectedGroup) return;
+
+    try {
+      const res = await fetch('/api/billsplitter/payments', {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          groupId: selectedGroup.id,
+          billId: showLedger ? undefined : selectedBill?.id,
+          fromUserId: t.from,
+          toUserId: t.to,
+          amount: t.amount
+        })
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to record payment');
+      }
+      await refreshAfterPaymentChange();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function voidPayment(paymentId: string) {
+    if (!confirm('Void this payment? It will stay in the history but no longer count towards balances.')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/billsplitter/payments/${paymentId}/void`, {
+        method: 'POST',
+        headers: getAuthHeader()
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to void payment');
+      }
+      await refreshAfterPaymentChange();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  // Settle-up statement for the selected bill, or the whole group when no bill is open
+  async function exportStatement(format: 'csv' | 'html') {
+    const target = selectedBill
+      ? { path: `bills/${selectedBill.id}`, title: selectedBill.title }
+      : selectedGroup && { path: `groups/${selectedGroup.id}`, title: selectedGroup.name };
+    if (!target) return;
+    
+    try {
+      const res = await fetch(`/api/billsplitter/${target.path}/export?format=${format}`, {
+        headers: getAuthHeader()
+      });
+      
+      if (!res.ok) throw new Error('Failed to export statement');
+      
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      if (format === 'html') {
+        // Printable statement opens in a new tab; the URL stays valid until that tab is closed
+        window.open(url, '_blank');
+        return;
+      }
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${target.title}-settle-up.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  const getUserName = (userId: string) => {
+    const user = availableUsers.find(u => u.id === userId);
+    return user?.name || userId;
+  };
+
+  const baseCurrency = selectedGroup?.baseCurrency || 'USD';
+  const billCurrencyOptions = [baseCurrency, ...exchangeRates.map(r => r.currency).filter(c => c !== baseCurrency)];
+
+  const itemSubtotal = billItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  const splitValueTotal = Object.values(splitValues).reduce((sum, v) => sum + (v || 0), 0);
+
+  const selectedImportDrafts = (importDrafts || []).filter(d => d.include);
+  const importTotal = selectedImportDrafts.reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const canCommitImport = !!importPayer && selectedImportDrafts.length > 0 &&
+    selectedImportDrafts.every(d => d.description.trim() && parseFloat(d.amount) > 0 && d.participantIds.length > 0);
+
+  const paymentHistory = (
+    <div className="mt-4">
+      <h6 className="text-muted">Payment History</h6>
+      {payments.length === 0 ? (
+        <p className="text-muted small">No payments recorded yet.</p>
+      ) : (
+        <ul className="list-group list-group-flush">
+          {payments.map(p => (
+            <li key={p.id} className={clsx('list-group-item px-0', { 'text-muted': p.voidedAt })}>
+              <div className="d-flex justify-content-between align-items-center">
+                <span className={clsx({ 'text-decoration-line-through': p.voidedAt })}>
+                  {getUserName(p.fromUserId)} paid {getUserName(p.toUserId)} {formatMoney(p.amount, baseCurrency)}
+                </span>
+                {p.voidedAt ? (
+                  <span className="badge bg-secondary">Voided</span>
+                ) : (
+                  <button
+                    className="btn btn-sm btn-outline-danger"
+                    onClick={() => voidPayment(p.id)}
+                    title="Void payment"
+                  >
+                    <i className="fas fa-undo"></i>
+                  </button>
+                )}
+              </div>
+              <small className="text-muted">
+                Recorded by {getUserName(p.recordedBy)} on {new Date(p.createdAt).toLocaleString()}
+                {p.voidedAt && p.voidedBy && ` · voided by ${getUserName(p.voidedBy)} on ${new Date(p.voidedAt).toLocaleString()}`}
+              </small>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <AppLayout title="Bill Splitter">
+      <div className="container-fluid">
+        {/* Summary Cards */}
+        <div className="row mb-4">
+          <div className="col-md-3">
+            <div className="card border-0 shadow-sm">
+              <div className="card-body text-center">
+                <i className="fas fa-users fa-2x text-primary mb-2"></i>
+                <h4 className="mb-1">{groups.length}</h4>
+                <p className="text-muted mb-0">Groups</p>
+              </div>
+            </div>
+          </div>
+          <div className="col-md-3">
+            <div className="card border-0 shadow-sm">
+              <div className="card-body text-center">
+                <i className="fas fa-receipt fa-2x text-success mb-2"></i>
+                <h4 className="mb-1">{bills.length}</h4>
+                <p className="text-muted mb-0">Total Bills</p>
+              </div>
+            </div>
+          </div>
+          <div className="col-md-3">
+            <div className="card border-0 shadow-sm">
+              <div className="card-body text-center">
+                <i className="fas fa-dollar-sign fa-2x text-warning mb-2"></i>
+                <h4 className="mb-1">${bills.reduce((sum, bill) => sum + bill.total, 0).toFixed(2)}</h4>
+                <p className="text-muted mb-0">Total Spent</p>
+              </div>
+            </div>
+          </div>
+          <div className="col-md-3">
+            <div className="card border-0 shadow-sm">
+              <div className="card-body text-center">
+                <i className="fas fa-chart-line fa-2x text-info mb-2"></i>
+                <h4 className="mb-1">{bills.length > 0 ? (bills.reduce((sum, bill) => sum + bill.total, 0) / bills.length).toFixed(2) : 0}</h4>
+                <p className="text-muted mb-0">Avg Bill</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="alert alert-danger alert-dismissible fade show" role="alert">
+            <i className="fas fa-exclamation-triangle me-2"></i>
+            {error}
+            <button type="button" className="btn-close" onClick={() => setError(null)}></button>
+          </div>
+        )}
+
+        {/* Production UI: debug buttons removed */}
+
+        <div className="row">
+          {/* Groups Section */}
+          <div className="col-md-3">
+            <div className="card vc-card">
+              <div className="card-header d-flex justify-content-between align-items-center">
+                <h5 className="mb-0">Groups</h5>
+                <button
+                  className="btn btn-sm btn-primary"
+                  onClick={() => setShowCreateGroup(true)}
+                >
+                  <i className="fas fa-plus"></i>
+                </button>
+              </div>
+              <div className="card-body p-0">
+                <div className="list-group list-group-flush">
+                  {loading ? (
                     <div className="text-center py-3">
                       <div className="spinner-border text-primary" role="status">
                         <span className="visually-hidden">Loading...</span>
@@ -597,12 +1352,34 @@ export const BillSplitterPage: React.FC = () => {
               <div className="card vc-card">
                 <div className="card-header d-flex justify-content-between align-items-center">
                   <h5 className="mb-0">Bills - {selectedGroup.name}</h5>
-                  <button
-                    className="btn btn-sm btn-primary"
-                    onClick={() => setShowCreateBill(true)}
-                  >
-                    <i className="fas fa-plus"></i> New Bill
-                  </button>
+                  <div>
+                    <button
+                      className="btn btn-sm btn-outline-secondary me-2"
+                      onClick={openExchangeRates}
+                      title={`Exchange rates (base ${baseCurrency})`}
+                    >
+                      <i className="fas fa-exchange-alt"></i> {baseCurrency}
+                    </button>
+                    <button
+                      className="btn btn-sm btn-outline-secondary me-2"
+                      onClick={openRecurring}
+                      title="Recurring bills"
+                    >
+                      <i className="fas fa-redo"></i>
+                    </button>
+                    <button
+                      className="btn btn-sm btn-outline-primary me-2"
+                      onClick={fetchLedger}
+                    >
+                      <i className="fas fa-book"></i> Ledger
+                    </button>
+                    <button
+                      className="btn btn-sm btn-primary"
+                      onClick={() => setShowCreateBill(true)}
+                    >
+                      <i className="fas fa-plus"></i> New Bill
+                    </button>
+                  </div>
                 </div>
                 <div className="card-body">
                   {loading ? (
@@ -631,7 +1408,7 @@ export const BillSplitterPage: React.FC = () => {
                               </small>
                             </div>
                             <div className="text-end">
-                              <div className="fw-bold">${(Number(bill.total) || 0).toFixed(2)}</div>
+                              <div className="fw-bold">{formatMoney(bill.total, bill.currency)}</div>
                               <small className="text-muted">{bill.itemCount || 0} items</small>
                             </div>
                           </div>
@@ -650,21 +1427,178 @@ export const BillSplitterPage: React.FC = () => {
 
           {/* Bill Details Section */}
           <div className="col-md-5">
-            {selectedBill ? (
+            {showLedger && ledger && selectedGroup ? (
+              <div className="card vc-card">
+                <div className="card-header d-flex justify-content-between align-items-center">
+                  <h5 className="mb-0">Ledger - {selectedGroup.name}</h5>
+                  <div className="d-flex align-items-center">
+                    <div className="btn-group btn-group-sm me-3">
+                      <button
+                        className="btn btn-outline-primary"
+                        onClick={() => exportStatement('csv')}
+                        title="Per-person statement for the whole group as CSV"
+                      >
+                        <i className="fas fa-download"></i> CSV
+                      </button>
+                      <button
+                        className="btn btn-outline-primary"
+                        onClick={() => exportStatement('html')}
+                        title="Printable per-person statement for the whole group"
+                      >
+                        <i className="fas fa-print"></i> Statement
+                      </button>
+                    </div>
+                    <button
+                      className="btn-close"
+                      onClick={() => setShowLedger(false)}
+                    ></button>
+                  </div>
+                </div>
+                <div className="card-body">
+                  <div className="table-responsive mb-4">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Member</th>
+                          <th>Paid</th>
+                          <th>Owes</th>
+                          <th>Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ledger.balances.map(b => (
+                          <tr key={b.userId}>
+                            <td>{getUserName(b.userId)}</td>
+                            <td>{formatMoney(b.paid, ledger.currency)}</td>
+                            <td>{formatMoney(b.owed, ledger.currency)}</td>
+                            <td className={clsx('fw-bold', {
+                              'text-success': b.balance > 0,
+                              'text-danger': b.balance < 0
+                            })}>
+                              {b.balance > 0 ? '+' : ''}{formatMoney(b.balance, ledger.currency)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <h6 className="text-muted">Running Balances ({ledger.billCount} bills, {ledger.paymentCount} payments)</h6>
+                  <div className="list-group mb-4">
+                    {ledger.entries.map(entry => (
+                      <div key={entry.paymentId || entry.billId} className="list-group-item">
+                        <div className="d-flex justify-content-between">
+                          {entry.type === 'payment' ? (
+                            <span>
+                              <i className="fas fa-check-circle text-success me-1"></i>
+                              {getUserName(entry.fromUserId || '')} paid {getUserName(entry.toUserId || '')}
+                            </span>
+                          ) : (
+                            <strong>{entry.title}</strong>
+                          )}
+                          <span>{formatMoney(entry.total, ledger.currency)}</span>
+                        </div>
+                        {entry.original && entry.original.currency !== ledger.currency && (
+                          <small className="text-muted d-block">
+                            {formatMoney(entry.original.total, entry.original.currency)} @ {entry.original.exchangeRate}
+                          </small>
+                        )}
+                        <small className="text-muted d-block mb-1">
+                          {new Date(entry.createdAt).toLocaleDateString()}
+                        </small>
+                        {entry.runningBalances.filter(b => b.balance !== 0).map(b => (
+                          <small key={b.userId} className="d-flex justify-content-between">
+                            <span>{getUserName(b.userId)}</span>
+                            <span className={clsx({ 'text-success': b.balance > 0, 'text-danger': b.balance < 0 })}>
+                              {b.balance > 0 ? '+' : ''}{formatMoney(b.balance, ledger.currency)}
+                            </span>
+                          </small>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  <h6 className="text-muted">Transfers to Settle the Group</h6>
+                  {ledger.transactions.length === 0 ? (
+                    <p className="text-muted">Everyone is settled up.</p>
+                  ) : ledger.transactions.map((t, i) => (
+                    <div key={i} className="alert alert-info py-2 d-flex justify-content-between align-items-center">
+                      <span>
+                        <i className="fas fa-arrow-right me-2"></i>
+                        {getUserName(t.from)} owes {getUserName(t.to)} {formatMoney(t.amount, ledger.currency)}
+                      </span>
+                      <button className="btn btn-sm btn-success" onClick={() => markAsPaid(t)}>
+                        Mark as paid
+                      </button>
+                    </div>
+                  ))}
+
+                  {paymentHistory}
+                </div>
+              </div>
+            ) : selectedBill ? (
               <div className="card vc-card">
                 <div className="card-header">
                   <div className="d-flex justify-content-between align-items-center">
-                    <h5 className="mb-0">{selectedBill.title}</h5>
+                    <h5 className="mb-0">
+                      {selectedBill.title}
+                      <button
+                        className="btn btn-sm btn-link p-0 ms-2"
+                        onClick={renameBill}
+                        title="Rename bill"
+                      >
+                        <i className="fas fa-pen"></i>
+                      </button>
+                    </h5>
                     <div>
+                      <button
+                        className="btn btn-sm btn-outline-secondary me-2"
+                        onClick={() => openHistory(null)}
+                        title="Bill history"
+                      >
+                        <i className="fas fa-history"></i>
+                      </button>
+                      <button
+                        className="btn btn-sm btn-outline-danger me-2"
+                        onClick={deleteBill}
+                        title="Delete bill"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                      <button
+                        className="btn btn-sm btn-outline-secondary me-2"
+                        onClick={openCharges}
+                      >
+                        <i className="fas fa-percent"></i> Tax &amp; Tip
+                      </button>
+                      <div className="btn-group btn-group-sm me-2">
+                        <button
+                          className="btn btn-outline-primary"
+                          onClick={() => exportStatement('csv')}
+                          title="Per-person statement as CSV"
+                        >
+                          <i className="fas fa-download"></i> CSV
+                        </button>
+                        <button
+                          className="btn btn-outline-primary"
+                          onClick={() => exportStatement('html')}
+                          title="Printable per-person statement"
+                        >
+                          <i className="fas fa-print"></i> Statement
+                        </button>
+                      </div>
                       <button
                         className="btn btn-sm btn-outline-primary me-2"
-                        onClick={exportBill}
+                        onClick={openImport}
                       >
-                        <i className="fas fa-download"></i> Export
+                        <i className="fas fa-receipt"></i> Import Receipt
                       </button>
                       <button
                         className="btn btn-sm btn-primary"
-                        onClick={() => setShowAddItem(true)}
+                        onClick={() => {
+                          resetItemForm();
+                          setShowAddItem(true);
+                        }}
                       >
                         <i className="fas fa-plus"></i> Add Item ({groupMembers.length} members)
                       </button>
@@ -680,22 +1614,60 @@ export const BillSplitterPage: React.FC = () => {
                           <th>Description</th>
                           <th>Amount</th>
                           <th>Paid By</th>
+                          <th>Split</th>
+                          <th></th>
                         </tr>
                       </thead>
                       <tbody>
                         {billItems.map(item => (
                           <tr key={item.id}>
                             <td>{item.description}</td>
-                            <td>${(Number(item.amount) || 0).toFixed(2)}</td>
+                            <td>{formatMoney(item.amount, selectedBill.currency)}</td>
                             <td>{getUserName(item.payerId)}</td>
+                            <td>
+                              <span
+                                className="badge bg-light text-dark"
+                                title={(item.splits || []).map(sp => `${getUserName(sp.userId)}: ${formatMoney(sp.amount, selectedBill.currency)}`).join('\n')}
+                              >
+                                {SPLIT_METHOD_LABELS[item.splitMethod] || 'Exact Amounts'}
+                              </span>
+                            </td>
+                            <td className="text-end text-nowrap">
+                              <button className="btn btn-sm btn-link p-0 me-2" onClick={() => openEditItem(item)} title="Edit item">
+                                <i className="fas fa-pen"></i>
+                              </button>
+                              <button className="btn btn-sm btn-link p-0 me-2" onClick={() => openHistory(item.id)} title="Item history">
+                                <i className="fas fa-history"></i>
+                              </button>
+                              <button className="btn btn-sm btn-link text-danger p-0" onClick={() => deleteItem(item)} title="Delete item">
+                                <i className="fas fa-trash"></i>
+                              </button>
+                            </td>
                           </tr>
                         ))}
                       </tbody>
                       <tfoot>
+                        {(selectedBill.charges || []).length > 0 && (
+                          <>
+                            <tr>
+                              <td>Subtotal</td>
+                              <td colSpan={4}>{formatMoney(itemSubtotal, selectedBill.currency)}</td>
+                            </tr>
+                            {(selectedBill.charges || []).map((charge, i) => (
+                              <tr key={i} className="text-muted">
+                                <td>
+                                  {charge.label || CHARGE_LABELS[charge.type]}
+                                  {charge.mode === 'percent' && ` (${charge.value}%)`}
+                                </td>
+                                <td colSpan={4}>{formatMoney(chargeAmount(charge, itemSubtotal), selectedBill.currency)}</td>
+                              </tr>
+                            ))}
+                          </>
+                        )}
                         <tr>
                           <th>Total</th>
-                          <th colSpan={2}>
-                            ${billItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0).toFixed(2)}
+                          <th colSpan={4}>
+                            {formatMoney(itemSubtotal + (selectedBill.charges || []).reduce((sum, c) => sum + chargeAmount(c, itemSubtotal), 0), selectedBill.currency)}
                           </th>
                         </tr>
                       </tfoot>
@@ -722,8 +1694,43 @@ export const BillSplitterPage: React.FC = () => {
                       </div>
                     ) : settlements.length > 0 && (
                       <>
+                        {(selectedBill.charges || []).length > 0 && chargeBreakdown.length > 0 && (
+                          <div className="table-responsive mb-3">
+                            <h6 className="text-muted">Per-person Breakdown</h6>
+                            <table className="table table-sm">
+                              <thead>
+                                <tr>
+                                  <th>Member</th>
+                                  <th>Items</th>
+                                  <th>Tax</th>
+                                  <th>Tip</th>
+                                  <th>Service</th>
+                                  <th>Total</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {chargeBreakdown.map(p => (
+                                  <tr key={p.userId}>
+                                    <td>{getUserName(p.userId)}</td>
+                                    <td>{formatMoney(p.subtotal, selectedBill.currency)}</td>
+                                    <td>{formatMoney(p.tax, selectedBill.currency)}</td>
+                                    <td>{formatMoney(p.tip, selectedBill.currency)}</td>
+                                    <td>{formatMoney(p.service, selectedBill.currency)}</td>
+                                    <td className="fw-bold">{formatMoney(p.total, selectedBill.currency)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+
                         <div className="mb-3">
-                          <h6 className="text-muted">Balances</h6>
+                          <h6 className="text-muted">Balances ({settlementCurrency})</h6>
+                          {settlementOriginal && (
+                            <small className="text-muted d-block mb-2">
+                              Converted from {formatMoney(settlementOriginal.total, settlementOriginal.currency)} at 1 {settlementOriginal.currency} = {settlementOriginal.exchangeRate} {settlementCurrency}
+                            </small>
+                          )}
                           {settlements.map(s => (
                             <div key={s.userId} className="d-flex justify-content-between mb-2">
                               <span>{getUserName(s.userId)}</span>
@@ -731,7 +1738,7 @@ export const BillSplitterPage: React.FC = () => {
                                 'text-success': s.balance > 0,
                                 'text-danger': s.balance < 0
                               })}>
-                                {s.balance > 0 ? '+' : ''}{(Number(s.balance) || 0).toFixed(2)}
+                                {s.balance > 0 ? '+' : ''}{formatMoney(s.balance, settlementCurrency)}
                               </span>
                             </div>
                           ))}
@@ -740,14 +1747,21 @@ export const BillSplitterPage: React.FC = () => {
                         <div>
                           <h6 className="text-muted">Transactions Needed</h6>
                           {transactions.map((t, i) => (
-                            <div key={i} className="alert alert-info py-2">
-                              <i className="fas fa-arrow-right me-2"></i>
-                              {getUserName(t.from)} owes {getUserName(t.to)} ${(Number(t.amount) || 0).toFixed(2)}
+                            <div key={i} className="alert alert-info py-2 d-flex justify-content-between align-items-center">
+                              <span>
+                                <i className="fas fa-arrow-right me-2"></i>
+                                {getUserName(t.from)} owes {getUserName(t.to)} {formatMoney(t.amount, settlementCurrency)}
+                              </span>
+                              <button className="btn btn-sm btn-success" onClick={() => markAsPaid(t)}>
+                                Mark as paid
+                              </button>
                             </div>
                           ))}
                         </div>
                       </>
                     )}
+
+                    {paymentHistory}
                   </div>
                 </div>
               </div>
@@ -782,6 +1796,19 @@ export const BillSplitterPage: React.FC = () => {
                       placeholder="Weekend Trip"
                     />
                   </div>
+                  <div className="mb-3">
+                    <label className="form-label">Base Currency</label>
+                    <select
+                      className="form-select"
+                      value={groupBaseCurrency}
+                      onChange={(e) => setGroupBaseCurrency(e.target.value)}
+                    >
+                      {COMMON_CURRENCIES.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                    <div className="form-text">Balances and settlements for this group are shown in this currency.</div>
+                  </div>
                   <div className="mb-3">
                     <label className="form-label">Participants</label>
                     <div className="text-muted small mb-2">Select at least one participant to create a group</div>
@@ -857,6 +1884,21 @@ export const BillSplitterPage: React.FC = () => {
                       placeholder="Dinner at Restaurant"
                     />
                   </div>
+                  <div className="mb-3">
+                    <label className="form-label">Currency</label>
+                    <select
+                      className="form-select"
+                      value={billCurrency || baseCurrency}
+                      onChange={(e) => setBillCurrency(e.target.value)}
+                    >
+                      {billCurrencyOptions.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                    <div className="form-text">
+                      Add an exchange rate for the group to use another currency. The rate is locked in when the bill is created.
+                    </div>
+                  </div>
                 </div>
                 <div className="modal-footer">
                   <button
@@ -878,16 +1920,182 @@ export const BillSplitterPage: React.FC = () => {
           </div>
         )}
 
+        {/* Tax & Tip Modal */}
+        {showCharges && selectedBill && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog modal-lg">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Tax, Tip &amp; Service Charges</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowCharges(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  <p className="text-muted small">
+                    Charges are shared in proportion to what each person ordered.
+                  </p>
+                  {chargeDrafts.map((charge, index) => (
+                    <div key={index} className="row g-2 mb-2 align-items-center">
+                      <div className="col-md-3">
+                        <select
+                          className="form-select"
+                          value={charge.type}
+                          onChange={(e) => setChargeDrafts(chargeDrafts.map((c, i) => i === index ? { ...c, type: e.target.value as ChargeType } : c))}
+                        >
+                          {(Object.keys(CHARGE_LABELS) as ChargeType[]).map(t => (
+                            <option key={t} value={t}>{CHARGE_LABELS[t]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="col-md-3">
+                        <select
+                          className="form-select"
+                          value={charge.mode}
+                          onChange={(e) => setChargeDrafts(chargeDrafts.map((c, i) => i === index ? { ...c, mode: e.target.value as BillCharge['mode'] } : c))}
+                        >
+                          <option value="percent">Percent</option>
+                          <option value="fixed">Fixed amount</option>
+                        </select>
+                      </div>
+                      <div className="col-md-2">
+                        <input
+                          type="number"
+                          className="form-control"
+                          value={charge.value || ''}
+                          onChange={(e) => setChargeDrafts(chargeDrafts.map((c, i) => i === index ? { ...c, value: parseFloat(e.target.value) || 0 } : c))}
+                          placeholder={charge.mode === 'percent' ? '8.5' : '10.00'}
+                          step="0.01"
+                          min="0"
+                        />
+                      </div>
+                      <div className="col-md-3">
+                        <select
+                          className="form-select"
+                          value={charge.payerId || ''}
+                          onChange={(e) => setChargeDrafts(chargeDrafts.map((c, i) => i === index ? { ...c, payerId: e.target.value || undefined } : c))}
+                        >
+                          <option value="">Paid by main payer</option>
+                          {groupMembers.map(member => (
+                            <option key={member.id} value={member.id}>{member.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="col-md-1">
+                        <button
+                          className="btn btn-sm btn-outline-danger"
+                          onClick={() => setChargeDrafts(chargeDrafts.filter((_, i) => i !== index))}
+                          title="Remove charge"
+                        >
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    className="btn btn-sm btn-outline-primary"
+                    onClick={() => setChargeDrafts([...chargeDrafts, { type: 'tip', mode: 'percent', value: 0 }])}
+                  >
+                    <i className="fas fa-plus"></i> Add Charge
+                  </button>
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowCharges(false)}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={saveCharges}
+                    disabled={loading}
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Exchange Rates Modal */}
+        {showExchangeRates && selectedGroup && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Exchange Rates</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowExchangeRates(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  <p className="text-muted small">
+                    Value of one unit of each currency in {baseCurrency}. New bills snapshot the rate when they are created.
+                  </p>
+                  {rateDrafts.map((draft, index) => (
+                    <div key={index} className="input-group mb-2">
+                      <span className="input-group-text">1</span>
+                      <input
+                        type="text"
+                        className="form-control"
+                        value={draft.currency}
+                        maxLength={3}
+                        onChange={(e) => setRateDrafts(rateDrafts.map((r, i) => i === index ? { ...r, currency: e.target.value.toUpperCase() } : r))}
+                        placeholder="EUR"
+                      />
+                      <span className="input-group-text">=</span>
+                      <input
+                        type="number"
+                        className="form-control"
+                        value={draft.rate}
+                        onChange={(e) => setRateDrafts(rateDrafts.map((r, i) => i === index ? { ...r, rate: e.target.value } : r))}
+                        placeholder="1.08"
+                        step="0.0001"
+                      />
+                      <span className="input-group-text">{baseCurrency}</span>
+                    </div>
+                  ))}
+                  <button
+                    className="btn btn-sm btn-outline-primary"
+                    onClick={() => setRateDrafts([...rateDrafts, { currency: '', rate: '' }])}
+                  >
+                    <i className="fas fa-plus"></i> Add Currency
+                  </button>
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowExchangeRates(false)}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={saveExchangeRates}
+                    disabled={loading}
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Add Item Modal */}
         {showAddItem && selectedGroup && (
           <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
             <div className="modal-dialog modal-lg">
               <div className="modal-content">
                 <div className="modal-header">
-                  <h5 className="modal-title">Add Item</h5>
+                  <h5 className="modal-title">{editingItem ? 'Edit Item' : 'Add Item'}</h5>
                   <button
                     className="btn-close"
-                    onClick={() => setShowAddItem(false)}
+                    onClick={resetItemForm}
                   ></button>
                 </div>
                 <div className="modal-body">
@@ -936,49 +2144,77 @@ export const BillSplitterPage: React.FC = () => {
                   <div className="mb-3">
                     <label className="form-label">Split Method</label>
                     <div className="btn-group w-100" role="group">
-                      <button
-                        type="button"
-                        className={clsx('btn', splitMethod === 'equal' ? 'btn-primary' : 'btn-outline-primary')}
-                        onClick={() => setSplitMethod('equal')}
-                      >
-                        Equal Split
-                      </button>
-                      <button
-                        type="button"
-                        className={clsx('btn', splitMethod === 'custom' ? 'btn-primary' : 'btn-outline-primary')}
-                        onClick={() => setSplitMethod('custom')}
-                      >
-                        Custom Split
-                      </button>
+                      {(Object.keys(SPLIT_METHOD_LABELS) as SplitMethod[]).map(method => (
+                        <button
+                          key={method}
+                          type="button"
+                          className={clsx('btn', splitMethod === method ? 'btn-primary' : 'btn-outline-primary')}
+                          onClick={() => {
+                            setSplitMethod(method);
+                            setSplitValues({});
+                          }}
+                        >
+                          {SPLIT_METHOD_LABELS[method]}
+                        </button>
+                      ))}
                     </div>
                   </div>
 
-                  {splitMethod === 'custom' && (
+                  {splitMethod === 'equal' ? (
+                    <div>
+                      <label className="form-label">Shared By</label>
+                      {groupMembers.map(member => (
+                        <div key={member.id} className="form-check">
+                          <input
+                            className="form-check-input"
+                            type="checkbox"
+                            id={`split-${member.id}`}
+                            checked={!excludedFromSplit.includes(member.id)}
+                            onChange={(e) => setExcludedFromSplit(e.target.checked
+                              ? excludedFromSplit.filter(id => id !== member.id)
+                              : [...excludedFromSplit, member.id])}
+                          />
+                          <label className="form-check-label" htmlFor={`split-${member.id}`}>
+                            {member.name}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
                     <div>
-                      <label className="form-label">Custom Splits</label>
+                      <label className="form-label">
+                        {splitMethod === 'percentage' ? 'Percent per person' : splitMethod === 'shares' ? 'Shares per person' : 'Amount per person'}
+                      </label>
                       {groupMembers.map(member => (
                         <div key={member.id} className="input-group mb-2">
                           <span className="input-group-text">{member.name}</span>
                           <input
                             type="number"
                             className="form-control"
-                            value={customSplits[member.id] || ''}
-                            onChange={(e) => setCustomSplits({
-                              ...customSplits,
+                            value={splitValues[member.id] || ''}
+                            onChange={(e) => setSplitValues({
+                              ...splitValues,
                               [member.id]: parseFloat(e.target.value) || 0
                             })}
-                            placeholder="0.00"
-                            step="0.01"
+                            placeholder={splitMethod === 'shares' ? '1' : '0.00'}
+                            step={splitMethod === 'shares' ? '1' : '0.01'}
+                            min="0"
                           />
+                          {splitMethod === 'percentage' && <span className="input-group-text">%</span>}
                         </div>
                       ))}
+                      <small className="text-muted">
+                        {splitMethod === 'percentage' && `Total: ${splitValueTotal.toFixed(2)}% of 100%`}
+                        {splitMethod === 'shares' && `Total: ${splitValueTotal} shares`}
+                        {splitMethod === 'exact' && `Total: ${splitValueTotal.toFixed(2)} of ${(parseFloat(itemAmount) || 0).toFixed(2)}`}
+                      </small>
                     </div>
                   )}
                 </div>
                 <div className="modal-footer">
                   <button
                     className="btn btn-secondary"
-                    onClick={() => setShowAddItem(false)}
+                    onClick={resetItemForm}
                   >
                     Cancel
                   </button>
@@ -987,7 +2223,424 @@ export const BillSplitterPage: React.FC = () => {
                     onClick={addItem}
                     disabled={loading || !itemDescription.trim() || !itemAmount || !itemPayer}
                   >
-                    Add Item
+                    {editingItem ? 'Save Changes' : 'Add Item'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Import Receipt Modal */}
+        {showImport && selectedBill && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog modal-xl modal-dialog-scrollable">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Import Receipt - {selectedBill.title}</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowImport(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  {!importDrafts ? (
+                    <>
+                      <div className="btn-group btn-group-sm mb-3">
+                        <button
+                          className={clsx('btn', importFormat === 'text' ? 'btn-primary' : 'btn-outline-primary')}
+                          onClick={() => setImportFormat('text')}
+                        >
+                          Receipt text
+                        </button>
+                        <button
+                          className={clsx('btn', importFormat === 'csv' ? 'btn-primary' : 'btn-outline-primary')}
+                          onClick={() => setImportFormat('csv')}
+                        >
+                          CSV
+                        </button>
+                      </div>
+                      <textarea
+                        className="form-control font-monospace mb-2"
+                        rows={12}
+                        value={importContent}
+                        onChange={(e) => setImportContent(e.target.value)}
+                        placeholder={importFormat === 'csv'
+                          ? 'description,amount,assignee\nMargherita pizza,14.50,Alice\nNachos,9.00,Alice; Bob'
+                          : 'Margherita pizza   14.50\nNachos             9.00\nHouse red (btl)   32.00'}
+                      />
+                      <input
+                        type="file"
+                        className="form-control form-control-sm"
+                        accept=".csv,.tsv,.txt,text/plain,text/csv"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) loadImportFile(file);
+                        }}
+                      />
+                      <small className="text-muted">
+                        Totals, tax, tip and payment lines are skipped; add tax and tip under Tax &amp; Tip.
+                      </small>
+                    </>
+                  ) : (
+                    <>
+                      <div className="d-flex justify-content-between align-items-center mb-3">
+                        <div className="d-flex align-items-center">
+                          <label className="form-label small mb-0 me-2">Paid By</label>
+                          <select
+                            className="form-select form-select-sm"
+                            value={importPayer}
+                            onChange={(e) => setImportPayer(e.target.value)}
+                          >
+                            <option value="">Select who paid</option>
+                            {groupMembers.map(member => (
+                              <option key={member.id} value={member.id}>{member.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <small className={clsx(importReceiptTotal !== null && Math.abs(importReceiptTotal - importTotal) > 0.005 ? 'text-warning' : 'text-muted')}>
+                          Importing {formatMoney(importTotal, selectedBill.currency)}
+                          {importReceiptTotal !== null && ` · receipt total ${formatMoney(importReceiptTotal, selectedBill.currency)}`}
+                        </small>
+                      </div>
+                      {importDrafts.length === 0 ? (
+                        <p className="text-muted">No items were found on this receipt.</p>
+                      ) : (
+                        <div className="table-responsive">
+                          <table className="table table-sm align-middle">
+                            <thead>
+                              <tr>
+                                <th></th>
+                                <th>Description</th>
+                                <th style={{ width: '8rem' }}>Amount</th>
+                                <th>Shared By</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {importDrafts.map((draft, index) => (
+                                <tr key={draft.lineNumber} className={clsx({ 'text-muted': !draft.include })}>
+                                  <td>
+                                    <input
+                                      className="form-check-input"
+                                      type="checkbox"
+                                      checked={draft.include}
+                                      onChange={(e) => updateImportDraft(index, { include: e.target.checked })}
+                                    />
+                                  </td>
+                                  <td>
+                                    <input
+                                      type="text"
+                                      className="form-control form-control-sm"
+                                      value={draft.description}
+                                      disabled={!draft.include}
+                                      onChange={(e) => updateImportDraft(index, { description: e.target.value })}
+                                    />
+                                    {draft.unmatchedAssignees.length > 0 && (
+                                      <small className="text-warning">
+                                        Not in this group: {draft.unmatchedAssignees.join(', ')}
+                                      </small>
+                                    )}
+                                    {draft.ambiguousAssignees.length > 0 && (
+                                      <small className="text-warning d-block">
+                                        Matches more than one member: {draft.ambiguousAssignees.join(', ')}
+                                      </small>
+                                    )}
+                                  </td>
+                                  <td>
+                                    <input
+                                      type="number"
+                                      className="form-control form-control-sm"
+                                      value={draft.amount}
+                                      step="0.01"
+                                      disabled={!draft.include}
+                                      onChange={(e) => updateImportDraft(index, { amount: e.target.value })}
+                                    />
+                                  </td>
+                                  <td>
+                                    {groupMembers.map(member => (
+                                      <div key={member.id} className="form-check form-check-inline">
+                                        <input
+                                          className="form-check-input"
+                                          type="checkbox"
+                                          id={`import-${draft.lineNumber}-${member.id}`}
+                                          checked={draft.participantIds.includes(member.id)}
+                                          disabled={!draft.include}
+                                          onChange={(e) => updateImportDraft(index, {
+                                            participantIds: e.target.checked
+                                              ? [...draft.participantIds, member.id]
+                                              : draft.participantIds.filter(id => id !== member.id)
+                                          })}
+                                        />
+                                        <label className="form-check-label small" htmlFor={`import-${draft.lineNumber}-${member.id}`}>
+                                          {member.name}
+                                        </label>
+                                      </div>
+                                    ))}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                      {importSkipped.length > 0 && (
+                        <details className="small">
+                          <summary>{importSkipped.length} line(s) skipped</summary>
+                          <ul className="list-unstyled mt-2 mb-0">
+                            {importSkipped.map(line => (
+                              <li key={line.lineNumber}>
+                                <span className="text-muted">Line {line.lineNumber}:</span> <code>{line.text}</code> – {line.reason}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </>
+                  )}
+                </div>
+                <div className="modal-footer">
+                  {importDrafts ? (
+                    <>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => setImportDrafts(null)}
+                      >
+                        Back
+                      </button>
+                      <button
+                        className="btn btn-primary"
+                        onClick={commitImport}
+                        disabled={loading || !canCommitImport}
+                      >
+                        Add {selectedImportDrafts.length} Item(s)
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => setShowImport(false)}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        className="btn btn-primary"
+                        onClick={previewImport}
+                        disabled={loading || !importContent.trim()}
+                      >
+                        Review Items
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Recurring Bills Modal */}
+        {showRecurring && selectedGroup && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog modal-lg modal-dialog-scrollable">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Recurring Bills - {selectedGroup.name}</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowRecurring(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  {recurringTemplates.length === 0 ? (
+                    <p className="text-muted">No recurring bills yet.</p>
+                  ) : (
+                    <ul className="list-group mb-4">
+                      {recurringTemplates.map(t => (
+                        <li key={t.id} className="list-group-item">
+                          <div className="d-flex justify-content-between align-items-center">
+                            <div>
+                              <strong>{t.title}</strong>{' '}
+                              <span className={clsx('badge', {
+                                'bg-success': t.status === 'active',
+                                'bg-warning text-dark': t.status === 'paused',
+                                'bg-secondary': t.status === 'ended'
+                              })}>
+                                {t.status}
+                              </span>
+                              <small className="d-block text-muted">
+                                {formatMoney(t.amount, t.currency || baseCurrency)} · {FREQUENCY_LABELS[t.frequency]} · paid by {getUserName(t.payerId)}
+                                {t.status !== 'ended' && ` · next on ${t.nextRunOn}`}
+                                {t.endOn && ` · until ${t.endOn}`}
+                              </small>
+                              {t.lastError && <small className="d-block text-danger">Last run failed: {t.lastError}</small>}
+                            </div>
+                            {t.status !== 'ended' && (
+                              <div className="btn-group btn-group-sm">
+                                {t.status === 'active' ? (
+                                  <button className="btn btn-outline-secondary" onClick={() => updateRecurring(t.id, 'pause')}>Pause</button>
+                                ) : (
+                                  <button className="btn btn-outline-success" onClick={() => updateRecurring(t.id, 'resume')}>Resume</button>
+                                )}
+                                <button className="btn btn-outline-secondary" onClick={() => updateRecurring(t.id, 'skip')}>Skip next</button>
+                                <button className="btn btn-outline-danger" onClick={() => updateRecurring(t.id, 'end')}>End</button>
+                              </div>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <h6>New Recurring Bill</h6>
+                  <div className="row g-2 mb-2">
+                    <div className="col-md-6">
+                      <input
+                        type="text"
+                        className="form-control"
+                        value={recurringForm.title}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, title: e.target.value })}
+                        placeholder="Coffee subscription"
+                      />
+                    </div>
+                    <div className="col-md-3">
+                      <input
+                        type="number"
+                        className="form-control"
+                        value={recurringForm.amount}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, amount: e.target.value })}
+                        placeholder="60.00"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="col-md-3">
+                      <select
+                        className="form-select"
+                        value={recurringForm.frequency}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, frequency: e.target.value as RecurringFrequency })}
+                      >
+                        {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map(f => (
+                          <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="row g-2 mb-2">
+                    <div className="col-md-4">
+                      <label className="form-label small">Paid By</label>
+                      <select
+                        className="form-select"
+                        value={recurringForm.payerId}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, payerId: e.target.value })}
+                      >
+                        <option value="">Select who pays</option>
+                        {groupMembers.map(member => (
+                          <option key={member.id} value={member.id}>{member.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label small">First Bill On</label>
+                      <input
+                        type="date"
+                        className="form-control"
+                        value={recurringForm.startOn}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, startOn: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-md-4">
+                      <label className="form-label small">Ends On (optional)</label>
+                      <input
+                        type="date"
+                        className="form-control"
+                        value={recurringForm.endOn}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, endOn: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <label className="form-label small">Split equally between</label>
+                  <div className="mb-2">
+                    {groupMembers.map(member => (
+                      <div key={member.id} className="form-check form-check-inline">
+                        <input
+                          className="form-check-input"
+                          type="checkbox"
+                          id={`recurring-${member.id}`}
+                          checked={!recurringExcluded.includes(member.id)}
+                          onChange={(e) => setRecurringExcluded(e.target.checked
+                            ? recurringExcluded.filter(id => id !== member.id)
+                            : [...recurringExcluded, member.id])}
+                        />
+                        <label className="form-check-label" htmlFor={`recurring-${member.id}`}>
+                          {member.name}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowRecurring(false)}
+                  >
+                    Close
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={createRecurring}
+                    disabled={loading || !recurringForm.title.trim() || !recurringForm.amount || !recurringForm.payerId}
+                  >
+                    Add Recurring Bill
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* History Modal */}
+        {showHistory && selectedBill && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog modal-lg modal-dialog-scrollable">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">
+                    {historyItemId ? 'Item History' : `History - ${selectedBill.title}`}
+                  </h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowHistory(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  {auditEntries.length === 0 ? (
+                    <p className="text-muted">No changes recorded yet.</p>
+                  ) : (
+                    <ul className="list-group list-group-flush">
+                      {auditEntries.map(entry => (
+                        <li key={entry.id} className="list-group-item px-0">
+                          <div className="d-flex justify-content-between">
+                            <span>
+                              <strong>{getUserName(entry.actorId)}</strong> {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                              {(entry.after?.description || entry.before?.description) && ` "${entry.after?.description || entry.before?.description}"`}
+                            </span>
+                            <small className="text-muted">{new Date(entry.createdAt).toLocaleString()}</small>
+                          </div>
+                          {entry.changes.map(change => (
+                            <small key={change.field} className="d-block text-muted">
+                              {change.field}: {formatAuditValue(change.field, change.before)} → {formatAuditValue(change.field, change.after)}
+                            </small>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowHistory(false)}
+                  >
+                    Close
                   </button>
                 </div>
               </div>
@@ -0,0 +1,80 @@
+import React from 'react';
+import clsx from 'clsx';
+
+interface ComparisonCell {
+  limit: number;
+  spent: number;
+  delta: { spent: number; spentPct: number | null; limit: number } | null;
+}
+
+export interface BudgetComparisonData {
+  periods: { budgetId: string; name: string; label: string }[];
+  rows: { name: string; cells: (ComparisonCell | null)[] }[];
+  totals: (ComparisonCell | null)[];
+}
+
+interface BudgetComparisonProps {
+  comparison: BudgetComparisonData;
+  formatCurrency: (amount: number) => string;
+}
+
+// Spending more than the previous period is shown in red, less in green
+const Delta: React.FC<{ delta: ComparisonCell['delta']; formatCurrency: (amount: number) => string }> = ({ delta, formatCurrency }) => {
+  if (!delta || delta.spent === 0) return null;
+  return (
+    <div className={clsx('small', delta.spent > 0 ? 'text-danger' : 'text-success')}>
+      <i className={clsx('fas me-1', delta.spent > 0 ? 'fa-arrow-up' : 'fa-arrow-down')}></i>
+      {formatCurrency(Math.abs(delta.spent))}
+      {delta.spentPct !== null && ` (${delta.spentPct > 0 ? '+' : ''}${Math.round(delta.spentPct)}%)`}
+    </div>
+  );
+};
+
+const Cell: React.FC<{ cell: ComparisonCell | null; formatCurrency: (amount: number) => string; bold?: boolean }> = ({ cell, formatCurrency, bold }) => {
+  if (!cell) return <td className="text-muted">—</td>;
+  return (
+    <td>
+      <div className={clsx({ 'fw-bold': bold })}>{formatCurrency(cell.spent)}</div>
+      <div className="small text-muted">of {formatCurrency(cell.limit)}</div>
+      <Delta delta={cell.delta} formatCurrency={formatCurrency} />
+    </td>
+  );
+};
+
+// Category spend side by side across periods, oldest first
+export const BudgetComparison: React.FC<BudgetComparisonProps> = ({ comparison, formatCurrency }) => {
+  if (comparison.periods.length < 2) {
+    return <p className="text-muted mb-0">No earlier budget for this team to compare with.</p>;
+  }
+
+  return (
+    <div className="table-responsive">
+      <table className="table align-middle">
+        <thead>
+          <tr>
+            <th>Category</th>
+            {comparison.periods.map(period => (
+              <th key={period.budgetId} title={period.name}>{period.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.rows.map(row => (
+            <tr key={row.name}>
+              <td>{row.name}</td>
+              {row.cells.map((cell, i) => (
+                <Cell key={comparison.periods[i].budgetId} cell={cell} formatCurrency={formatCurrency} />
+              ))}
+            </tr>
+          ))}
+          <tr className="table-light">
+            <td className="fw-bold">Total</td>
+            {comparison.totals.map((cell, i) => (
+              <Cell key={comparison.periods[i].budgetId} cell={cell} formatCurrency={formatCurrency} bold />
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { AppLayout } from '../layout/AppLayout';
 import { useAuth } from '../auth/AuthContext';
 import clsx from 'clsx';
+import { ForecastChart, ForecastPoint } from './ForecastChart';
+import { BudgetComparison, BudgetComparisonData } from './BudgetComparison';
+import { RECEIPT_ACCEPT, Receipt, ReceiptStrip, ReceiptViewer } from './ReceiptGallery';
 
 interface Budget {
   id: string;
@@ -26,6 +29,9 @@ interface Category {
   spent: number;
   utilization: number;
   remaining: number;
+  rolledOver?: number;
+  alertThresholds: number[];
+  alertLevel: number | null;
 }
 
 interface Expense {
@@ -36,7 +42,9 @@ interface Expense {
   description: string;
   date: string;
   createdBy: string;
-  receipts?: string[];
+  receipts?: Receipt[];
+  status: 'approved' | 'pending' | 'rejected';
+  reviewNote?: string;
 }
 
 interface BudgetSummary {
@@ -44,8 +52,47 @@ interface BudgetSummary {
   totalSpent: number;
   utilization: number;
   categoriesOverBudget: number;
+  categoriesOverThreshold: number;
+  pendingCount: number;
 }
 
+interface BudgetNotification {
+  id: string;
+  budgetId: string;
+  type: 'threshold' | 'approval_requested' | 'expense_approved' | 'expense_rejected';
+  threshold?: number;
+  message: string;
+  read: boolean;
+  createdAt: string;
+}
+
+type ForecastStatus = 'on_track' | 'at_risk' | 'over';
+
+interface Projection {
+  limit: number;
+  spent: number;
+  dailyRate: number;
+  projected: number;
+  projectedUtilization: number;
+  projectedOverBy: number;
+  status: ForecastStatus;
+  exceedsOn: string | null;
+}
+
+interface BudgetForecast {
+  period: { start: string; end: string; totalDays: number; asOf: string; elapsedDays: number };
+  categories: (Projection & { id: string; name: string })[];
+  total: Projection;
+  atRiskCount: number;
+  series: ForecastPoint[];
+}
+
+const FORECAST_BADGES: Record<ForecastStatus, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-success' },
+  at_risk: { label: 'At risk', className: 'bg-warning text-dark' },
+  over: { label: 'Over', className: 'bg-danger' }
+};
+
 export const BudgetPage: React.FC = () => {
   const { getAuthHeader, user } = useAuth();
   const [budgets, setBudgets] = useState<Budget[]>([]);
@@ -53,6 +100,15 @@ export const BudgetPage: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [summary, setSummary] = useState<BudgetSummary | null>(null);
+  const [forecast, setForecast] = useState<BudgetForecast | null>(null);
+  const [pendingExpenses, setPendingExpenses] = useState<Expense[]>([]);
+  const [approvalRequired, setApprovalRequired] = useState(false);
+  const [canManage, setCanManage] = useState(false);
+  const [notifications, setNotifications] = useState<BudgetNotification[]>([]);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<BudgetComparisonData | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<'previous' | 'last_year'>('previous');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -60,16 +116,27 @@ export const BudgetPage: React.FC = () => {
   const [showCreateBudget, setShowCreateBudget] = useState(false);
   const [showAddCategory, setShowAddCategory] = useState(false);
   const [showAddExpense, setShowAddExpense] = useState(false);
+  const [showClone, setShowClone] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [rolloverIds, setRolloverIds] = useState<string[]>([]);
   const [budgetName, setBudgetName] = useState('');
   const [budgetPeriod, setBudgetPeriod] = useState<'month' | 'quarter' | 'year'>('month');
   const [budgetYear, setBudgetYear] = useState(new Date().getFullYear());
   const [budgetMonth, setBudgetMonth] = useState(new Date().getMonth() + 1);
   const [categoryName, setCategoryName] = useState('');
   const [categoryLimit, setCategoryLimit] = useState('');
+  const [thresholdCategory, setThresholdCategory] = useState<Category | null>(null);
+  const [thresholdInput, setThresholdInput] = useState('');
   const [expenseCategory, setExpenseCategory] = useState('');
   const [expenseAmount, setExpenseAmount] = useState('');
   const [expenseDescription, setExpenseDescription] = useState('');
   const [expenseDate, setExpenseDate] = useState(new Date().toISOString().split('T')[0]);
+  const [expenseFiles, setExpenseFiles] = useState<File[]>([]);
+  const [viewingReceipt, setViewingReceipt] = useState<{ expense: Expense; receipt: Receipt } | null>(null);
+  const [uploadingFor, setUploadingFor] = useState<string | null>(null);
 
   // Filters
   const [filterPeriod, setFilterPeriod] = useState('');
@@ -87,6 +154,7 @@ export const BudgetPage: React.FC = () => {
         });
       } catch {}
       await fetchBudgets();
+      fetchNotifications();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filterPeriod, filterYear, user]);
@@ -147,19 +215,120 @@ export const BudgetPage: React.FC = () => {
     }
   }
 
+  // The forecast is supplementary, so a failure only hides it
+  async function fetchForecast(budgetId: string) {
+    try {
+      const res = await fetch(`/api/budget/budgets/${budgetId}/forecast`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to fetch forecast');
+      const data = await res.json();
+      setForecast(data.forecast);
+    } catch (err) {
+      console.error('Error fetching forecast:', err);
+      setForecast(null);
+    }
+  }
+
+  async function fetchComparison(budgetId: string, mode: 'previous' | 'last_year') {
+    try {
+      const res = await fetch(`/api/budget/budgets/${budgetId}/compare?mode=${mode}&count=3`, {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to fetch comparison');
+      const data = await res.json();
+      setComparison(data.comparison);
+    } catch (err) {
+      console.error('Error fetching comparison:', err);
+      setComparison(null);
+    }
+  }
+
+  async function fetchNotifications() {
+    try {
+      const res = await fetch('/api/budget/notifications', {
+        headers: getAuthHeader()
+      });
+      if (!res.ok) throw new Error('Failed to fetch notifications');
+      const data = await res.json();
+      setNotifications(data.notifications || []);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    }
+  }
+
+  async function markNotificationsRead() {
+    try {
+      const res = await fetch('/api/budget/notifications/read', {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      if (!res.ok) throw new Error('Failed to update notifications');
+      setNotifications(notifications.map(n => ({ ...n, read: true })));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function loadBudgetDetails(budgetId: string) {
+    const res = await fetch(`/api/budget/budgets/${budgetId}`, {
+      headers: getAuthHeader()
+    });
+    if (!res.ok) throw new Error('Failed to fetch budget details');
+    const data = await res.json();
+    setCategories(data.categories);
+    setExpenses(data.recentExpenses);
+    setPendingExpenses(data.pendingExpenses || []);
+    setSummary(data.summary);
+    setApprovalRequired(Boolean(data.approvalRequired));
+    setCanManage(Boolean(data.canManage));
+  }
+
   async function selectBudget(budget: Budget) {
     setSelectedBudget(budget);
     setLoading(true);
+    setForecast(null);
+    setComparison(null);
+    setNotice(null);
+    fetchForecast(budget.id);
+    fetchComparison(budget.id, comparisonMode);
     
     try {
-      const res = await fetch(`/api/budget/budgets/${budget.id}`, {
-        headers: getAuthHeader()
+      await loadBudgetDetails(budget.id);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function changeComparisonMode(mode: 'previous' | 'last_year') {
+    setComparisonMode(mode);
+    if (selectedBudget) fetchComparison(selectedBudget.id, mode);
+  }
+
+  function openClone() {
+    setRolloverIds([]);
+    setShowClone(true);
+  }
+
+  async function cloneBudget() {
+    if (!selectedBudget) return;
+    
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}/clone`, {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rolloverCategoryIds: rolloverIds })
       });
-      if (!res.ok) throw new Error('Failed to fetch budget details');
       const data = await res.json();
-      setCategories(data.categories);
-      setExpenses(data.recentExpenses);
-      setSummary(data.summary);
+      if (!res.ok) throw new Error(data.error || 'Failed to clone budget');
+      const created = { ...data.budget, teamName: selectedBudget.teamName };
+      setBudgets([created, ...budgets]);
+      setShowClone(false);
+      await selectBudget(created);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -167,6 +336,64 @@ export const BudgetPage: React.FC = () => {
     }
   }
 
+  async function toggleApprovalRequired(enabled: boolean) {
+    if (!selectedBudget) return;
+    try {
+      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}`, {
+        method: 'PATCH',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approvalRequired: enabled })
+      });
+      if (!res.ok) throw new Error('Failed to update approval setting');
+      setApprovalRequired(enabled);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  function openThresholds(category: Category) {
+    setThresholdCategory(category);
+    setThresholdInput(category.alertThresholds.join(', '));
+  }
+
+  async function saveThresholds() {
+    if (!thresholdCategory || !selectedBudget) return;
+    const alertThresholds = thresholdInput.split(',').map(v => v.trim()).filter(Boolean).map(Number);
+    try {
+      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}/categories/${thresholdCategory.id}`, {
+        method: 'PATCH',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alertThresholds })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update alert thresholds');
+      await loadBudgetDetails(selectedBudget.id);
+      setThresholdCategory(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function reviewExpense(expense: Expense, decision: 'approve' | 'reject') {
+    if (!selectedBudget) return;
+    const note = decision === 'reject' ? window.prompt('Reason for rejecting (optional)') : null;
+    if (note === null && decision === 'reject') return;
+    try {
+      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}/expenses/${expense.id}/${decision}`, {
+        method: 'POST',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: note || undefined })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to review expense');
+      await loadBudgetDetails(selectedBudget.id);
+      fetchForecast(selectedBudget.id);
+      fetchNotifications();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
   async function createBudget() {
     if (!budgetName.trim()) return;
     
@@ -216,7 +443,8 @@ export const BudgetPage: React.FC = () => {
       
       if (!res.ok) throw new Error('Failed to add category');
       const data = await res.json();
-      setCategories([...categories, { ...data.category, utilization: 0, remaining: data.category.limit }]);
+      setCategories([...categories, { ...data.category, spent: 0, utilization: 0, remaining: data.category.limit }]);
+      fetchForecast(selectedBudget.id);
       setShowAddCategory(false);
       setCategoryName('');
       setCategoryLimit('');
@@ -245,26 +473,24 @@ export const BudgetPage: React.FC = () => {
       
       if (!res.ok) throw new Error('Failed to add expense');
       const data = await res.json();
-      setExpenses([data.expense, ...expenses]);
-      
-      // Update category spent amount
-      setCategories(categories.map(cat => {
-        if (cat.id === expenseCategory) {
-          const newSpent = cat.spent + parseFloat(expenseAmount);
-          return {
-            ...cat,
-            spent: newSpent,
-            utilization: (newSpent / cat.limit) * 100,
-            remaining: cat.limit - newSpent
-          };
+      if (expenseFiles.length > 0) {
+        try {
+          await uploadReceipts(data.expense, expenseFiles);
+        } catch (err: any) {
+          setError(`Expense saved, but its receipts were not: ${err.message}`);
         }
-        return cat;
-      }));
+      }
+      // 202: the expense would take its category over the limit and waits for a manager
+      setNotice(res.status === 202 ? 'This expense would take the category over its limit, so it was sent to a budget manager for approval.' : null);
+      await loadBudgetDetails(selectedBudget.id);
+      fetchForecast(selectedBudget.id);
+      fetchNotifications();
       
       setShowAddExpense(false);
       setExpenseDescription('');
       setExpenseAmount('');
       setExpenseCategory('');
+      setExpenseFiles([]);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -272,25 +498,92 @@ export const BudgetPage: React.FC = () => {
     }
   }
 
+  function receiptsUrl(expense: Expense) {
+    return `/api/budget/budgets/${expense.budgetId}/expenses/${expense.id}/receipts`;
+  }
+
+  // Receipts are only served to their submitter and budget managers
+  function canEditReceipts(expense: Expense) {
+    return canManage || expense.createdBy === user?.id;
+  }
+
+  function setExpenseReceipts(expenseId: string, receipts: Receipt[]) {
+    const update = (list: Expense[]) => list.map(e => (e.id === expenseId ? { ...e, receipts } : e));
+    setExpenses(update);
+    setPendingExpenses(update);
+  }
+
+  async function uploadReceipts(expense: Expense, files: File[]) {
+    const form = new FormData();
+    files.forEach(file => form.append('receipts', file));
+    setUploadingFor(expense.id);
+    try {
+      const res = await fetch(receiptsUrl(expense), {
+        method: 'POST',
+        headers: getAuthHeader(),
+        body: form
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to upload receipts');
+      setExpenseReceipts(expense.id, data.receipts);
+    } finally {
+      setUploadingFor(null);
+    }
+  }
+
+  async function attachReceipts(expense: Expense, files: FileList | null) {
+    if (!files || files.length === 0) return;
+    try {
+      await uploadReceipts(expense, Array.from(files));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function deleteReceipt(expense: Expense, receipt: Receipt) {
+    if (!window.confirm(`Remove ${receipt.name}?`)) return;
+    try {
+      const res = await fetch(`${receiptsUrl(expense)}/${receipt.id}`, {
+        method: 'DELETE',
+        headers: getAuthHeader()
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to remove receipt');
+      setExpenseReceipts(expense.id, data.receipts);
+      setViewingReceipt(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
   async function exportBudget() {
     if (!selectedBudget) return;
     
     try {
-      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}/export`, {
+      const params = new URLSearchParams({ format: exportFormat });
+      if (exportFrom) params.append('from', exportFrom);
+      if (exportTo) params.append('to', exportTo);
+      const res = await fetch(`/api/budget/budgets/${selectedBudget.id}/export?${params}`, {
         headers: getAuthHeader()
       });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export budget');
+      }
       
-      if (!res.ok) throw new Error('Failed to export budget');
-      
+      // Use the server's file name, which reflects the format and date range
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${selectedBudget.name}.${exportFormat}`;
       const blob = await res.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${selectedBudget.name}-expenses.csv`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       window.URL.revokeObjectURL(url);
+      setShowExport(false);
     } catch (err: any) {
       setError(err.message);
     }
@@ -368,16 +661,58 @@ export const BudgetPage: React.FC = () => {
             <div className="card vc-card">
               <div className="card-header d-flex justify-content-between align-items-center">
                 <h5 className="mb-0">Budgets</h5>
-                {user?.role !== 'user' && (
+                <div className="d-flex gap-2">
                   <button
-                    className="btn btn-sm btn-primary"
-                    onClick={() => setShowCreateBudget(true)}
+                    className="btn btn-sm btn-outline-secondary position-relative"
+                    onClick={() => setShowNotifications(!showNotifications)}
+                    title="Budget alerts"
                   >
-                    <i className="fas fa-plus"></i>
+                    <i className="fas fa-bell"></i>
+                    {notifications.some(n => !n.read) && (
+                      <span className="position-absolute top-0 start-100 translate-middle badge rounded-pill bg-danger">
+                        {notifications.filter(n => !n.read).length}
+                      </span>
+                    )}
                   </button>
-                )}
+                  {user?.role !== 'user' && (
+                    <button
+                      className="btn btn-sm btn-primary"
+                      onClick={() => setShowCreateBudget(true)}
+                    >
+                      <i className="fas fa-plus"></i>
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="card-body">
+                {/* Notifications */}
+                {showNotifications && (
+                  <div className="border rounded mb-3">
+                    <div className="d-flex justify-content-between align-items-center px-2 py-1 border-bottom">
+                      <span className="small fw-semibold">Alerts</span>
+                      {notifications.some(n => !n.read) && (
+                        <button className="btn btn-link btn-sm p-0" onClick={markNotificationsRead}>Mark all read</button>
+                      )}
+                    </div>
+                    <div className="notification-list">
+                      {notifications.length === 0 ? (
+                        <div className="small text-muted p-2">No alerts yet</div>
+                      ) : notifications.map(n => (
+                        <div key={n.id} className={clsx('small p-2 border-bottom', { 'fw-semibold': !n.read })}>
+                          <i className={clsx('fas me-2', {
+                            'fa-exclamation-circle text-warning': n.type === 'threshold',
+                            'fa-hourglass-half text-info': n.type === 'approval_requested',
+                            'fa-check-circle text-success': n.type === 'expense_approved',
+                            'fa-times-circle text-danger': n.type === 'expense_rejected'
+                          })}></i>
+                          {n.message}
+                          <div className="text-muted fw-normal">{new Date(n.createdAt).toLocaleString()}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Filters */}
                 <div className="mb-3">
                   <select
@@ -449,6 +784,29 @@ export const BudgetPage: React.FC = () => {
           <div className="col-md-9">
             {selectedBudget && summary ? (
               <>
+                {notice && (
+                  <div className="alert alert-info alert-dismissible fade show" role="alert">
+                    <i className="fas fa-hourglass-half me-2"></i>
+                    {notice}
+                    <button type="button" className="btn-close" onClick={() => setNotice(null)}></button>
+                  </div>
+                )}
+
+                {canManage && (
+                  <div className="form-check form-switch mb-3">
+                    <input
+                      className="form-check-input"
+                      type="checkbox"
+                      id="approvalRequired"
+                      checked={approvalRequired}
+                      onChange={(e) => toggleApprovalRequired(e.target.checked)}
+                    />
+                    <label className="form-check-label" htmlFor="approvalRequired">
+                      Require manager approval for expenses that would go over a category limit
+                    </label>
+                  </div>
+                )}
+
                 {/* Summary Cards */}
                 <div className="row mb-4">
                   <div className="col-md-3">
@@ -489,14 +847,47 @@ export const BudgetPage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Forecast */}
+                {forecast && (
+                  <div className="card vc-card mb-4">
+                    <div className="card-header d-flex justify-content-between align-items-center">
+                      <h5 className="mb-0">Forecast</h5>
+                      <span className="small text-muted">
+                        Day {forecast.period.elapsedDays} of {forecast.period.totalDays} • projected {formatCurrency(forecast.total.projected)} of {formatCurrency(forecast.total.limit)}
+                      </span>
+                    </div>
+                    <div className="card-body">
+                      {forecast.atRiskCount > 0 && (
+                        <div className="alert alert-warning py-2 small">
+                          <i className="fas fa-exclamation-triangle me-2"></i>
+                          {forecast.categories.filter(c => c.status !== 'on_track').map(c => (
+                            c.status === 'over'
+                              ? `${c.name} is already over its limit`
+                              : `${c.name} is projected to exceed its limit${c.exceedsOn ? ` around ${new Date(`${c.exceedsOn}T00:00:00`).toLocaleDateString()}` : ''}`
+                          )).join(' • ')}
+                        </div>
+                      )}
+                      <ForecastChart series={forecast.series} limit={forecast.total.limit} formatCurrency={formatCurrency} />
+                    </div>
+                  </div>
+                )}
+
                 {/* Categories */}
                 <div className="card vc-card mb-4">
                   <div className="card-header d-flex justify-content-between align-items-center">
                     <h5 className="mb-0">Categories</h5>
                     <div>
+                      {canManage && (
+                        <button
+                          className="btn btn-sm btn-outline-secondary me-2"
+                          onClick={openClone}
+                        >
+                          <i className="fas fa-copy"></i> Next Period
+                        </button>
+                      )}
                       <button
                         className="btn btn-sm btn-outline-primary me-2"
-                        onClick={exportBudget}
+                        onClick={() => setShowExport(true)}
                       >
                         <i className="fas fa-download"></i> Export
                       </button>
@@ -520,13 +911,38 @@ export const BudgetPage: React.FC = () => {
                             <th>Spent</th>
                             <th>Remaining</th>
                             <th>Utilization</th>
+                            <th>Projected</th>
                           </tr>
                         </thead>
                         <tbody>
                           {categories.map(category => (
                             <tr key={category.id}>
-                              <td>{category.name}</td>
-                              <td>{formatCurrency(category.limit)}</td>
+                              <td>
+                                {category.name}
+                                {category.alertLevel !== null && (
+                                  <span
+                                    className={clsx('badge ms-2', category.alertLevel >= 100 ? 'bg-danger' : 'bg-warning text-dark')}
+                                    title={`Alerts at ${category.alertThresholds.join('%, ')}%`}
+                                  >
+                                    <i className="fas fa-bell me-1"></i>{category.alertLevel}%
+                                  </span>
+                                )}
+                                {canManage && (
+                                  <button
+                                    className="btn btn-link btn-sm p-0 ms-2 text-muted"
+                                    onClick={() => openThresholds(category)}
+                                    title="Alert thresholds"
+                                  >
+                                    <i className="fas fa-sliders-h"></i>
+                                  </button>
+                                )}
+                              </td>
+                              <td>
+                                {formatCurrency(category.limit)}
+                                {!!category.rolledOver && (
+                                  <div className="small text-muted">incl. {formatCurrency(category.rolledOver)} rolled over</div>
+                                )}
+                              </td>
                               <td>{formatCurrency(category.spent)}</td>
                               <td className={category.remaining < 0 ? 'text-danger' : 'text-success'}>
                                 {formatCurrency(category.remaining)}
@@ -544,6 +960,19 @@ export const BudgetPage: React.FC = () => {
                                   </span>
                                 </div>
                               </td>
+                              <td>
+                                {(() => {
+                                  const projection = forecast?.categories.find(c => c.id === category.id);
+                                  if (!projection) return <span className="text-muted">—</span>;
+                                  const badge = FORECAST_BADGES[projection.status];
+                                  return (
+                                    <div className="d-flex align-items-center gap-2">
+                                      <span>{formatCurrency(projection.projected)}</span>
+                                      <span className={clsx('badge', badge.className)}>{badge.label}</span>
+                                    </div>
+                                  );
+                                })()}
+                              </td>
                             </tr>
                           ))}
                         </tbody>
@@ -552,6 +981,84 @@ export const BudgetPage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Period Comparison */}
+                {comparison && (
+                  <div className="card vc-card mb-4">
+                    <div className="card-header d-flex justify-content-between align-items-center">
+                      <h5 className="mb-0">Compare Periods</h5>
+                      <div className="btn-group btn-group-sm">
+                        <button
+                          className={clsx('btn', comparisonMode === 'previous' ? 'btn-primary' : 'btn-outline-primary')}
+                          onClick={() => changeComparisonMode('previous')}
+                        >
+                          Previous {selectedBudget.period}s
+                        </button>
+                        <button
+                          className={clsx('btn', comparisonMode === 'last_year' ? 'btn-primary' : 'btn-outline-primary')}
+                          onClick={() => changeComparisonMode('last_year')}
+                        >
+                          Same {selectedBudget.period}, past years
+                        </button>
+                      </div>
+                    </div>
+                    <div className="card-body">
+                      <BudgetComparison comparison={comparison} formatCurrency={formatCurrency} />
+                    </div>
+                  </div>
+                )}
+
+                {/* Pending Approvals */}
+                {pendingExpenses.length > 0 && (
+                  <div className="card vc-card mb-4">
+                    <div className="card-header">
+                      <h5 className="mb-0">
+                        Awaiting Approval <span className="badge bg-info ms-1">{pendingExpenses.length}</span>
+                      </h5>
+                    </div>
+                    <div className="card-body">
+                      <div className="expense-list">
+                        {pendingExpenses.map(expense => {
+                          const category = categories.find(c => c.id === expense.categoryId);
+                          return (
+                            <div key={expense.id} className="expense-item d-flex justify-content-between align-items-center">
+                              <div>
+                                <div className="fw-semibold">{expense.description}</div>
+                                <div className="small text-muted">
+                                  {category?.name} • {new Date(expense.date).toLocaleDateString()}
+                                  {category && ` • ${formatCurrency(category.remaining)} left in category`}
+                                </div>
+                                {canEditReceipts(expense) && expense.receipts && expense.receipts.length > 0 && (
+                                  <ReceiptStrip
+                                    receipts={expense.receipts}
+                                    baseUrl={receiptsUrl(expense)}
+                                    getAuthHeader={getAuthHeader}
+                                    onOpen={(receipt) => setViewingReceipt({ expense, receipt })}
+                                  />
+                                )}
+                              </div>
+                              <div className="d-flex align-items-center gap-2">
+                                <span className="fw-bold">{formatCurrency(expense.amount)}</span>
+                                {canManage ? (
+                                  <>
+                                    <button className="btn btn-sm btn-success" onClick={() => reviewExpense(expense, 'approve')}>
+                                      <i className="fas fa-check"></i> Approve
+                                    </button>
+                                    <button className="btn btn-sm btn-outline-danger" onClick={() => reviewExpense(expense, 'reject')}>
+                                      <i className="fas fa-times"></i> Reject
+                                    </button>
+                                  </>
+                                ) : (
+                                  <span className="badge bg-info">Pending</span>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Recent Expenses */}
                 <div className="card vc-card">
                   <div className="card-header d-flex justify-content-between align-items-center">
@@ -571,18 +1078,51 @@ export const BudgetPage: React.FC = () => {
                           <div key={expense.id} className="expense-item">
                             <div className="d-flex justify-content-between align-items-start">
                               <div>
-                                <div className="fw-semibold">{expense.description}</div>
+                                <div className="fw-semibold">
+                                  {expense.description}
+                                  {expense.status === 'pending' && <span className="badge bg-info ms-2">Pending</span>}
+                                  {expense.status === 'rejected' && (
+                                    <span className="badge bg-secondary ms-2" title={expense.reviewNote}>Rejected</span>
+                                  )}
+                                </div>
                                 <div className="small text-muted">
                                   {category?.name} • {new Date(expense.date).toLocaleDateString()}
                                 </div>
                               </div>
                               <div className="text-end">
-                                <div className="fw-bold">{formatCurrency(expense.amount)}</div>
-                                {expense.receipts && expense.receipts.length > 0 && (
-                                  <i className="fas fa-paperclip text-muted small"></i>
+                                <div className={clsx('fw-bold', { 'text-muted text-decoration-line-through': expense.status === 'rejected' })}>
+                                  {formatCurrency(expense.amount)}
+                                </div>
+                                {canEditReceipts(expense) && (
+                                  <label className="btn btn-link btn-sm p-0 text-muted" title="Attach receipts">
+                                    {uploadingFor === expense.id ? (
+                                      <span className="spinner-border spinner-border-sm"></span>
+                                    ) : (
+                                      <i className="fas fa-paperclip"></i>
+                                    )}
+                                    <input
+                                      type="file"
+                                      className="d-none"
+                                      accept={RECEIPT_ACCEPT}
+                                      multiple
+                                      disabled={uploadingFor !== null}
+                                      onChange={(e) => {
+                                        attachReceipts(expense, e.target.files);
+                                        e.target.value = '';
+                                      }}
+                                    />
+                                  </label>
                                 )}
                               </div>
                             </div>
+                            {canEditReceipts(expense) && expense.receipts && expense.receipts.length > 0 && (
+                              <ReceiptStrip
+                                receipts={expense.receipts}
+                                baseUrl={receiptsUrl(expense)}
+                                getAuthHeader={getAuthHeader}
+                                onOpen={(receipt) => setViewingReceipt({ expense, receipt })}
+                              />
+                            )}
                           </div>
                         );
                       })}
@@ -742,6 +1282,194 @@ export const BudgetPage: React.FC = () => {
           </div>
         )}
 
+        {/* Export Modal */}
+        {showExport && selectedBudget && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Export {selectedBudget.name}</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowExport(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  <div className="mb-3">
+                    <label className="form-label">Format</label>
+                    <select
+                      className="form-select"
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')}
+                    >
+                      <option value="csv">CSV (opens in Excel)</option>
+                      <option value="json">JSON</option>
+                    </select>
+                  </div>
+                  <div className="row">
+                    <div className="col">
+                      <label className="form-label">From</label>
+                      <input
+                        type="date"
+                        className="form-control"
+                        value={exportFrom}
+                        max={exportTo || undefined}
+                        onChange={(e) => setExportFrom(e.target.value)}
+                      />
+                    </div>
+                    <div className="col">
+                      <label className="form-label">To</label>
+                      <input
+                        type="date"
+                        className="form-control"
+                        value={exportTo}
+                        min={exportFrom || undefined}
+                        onChange={(e) => setExportTo(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="form-text">
+                    Includes a per-category summary and every expense in the range. Leave the dates empty to export the whole budget.
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowExport(false)}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={exportBudget}
+                    disabled={!!exportFrom && !!exportTo && exportFrom > exportTo}
+                  >
+                    <i className="fas fa-download"></i> Export
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Receipt Viewer */}
+        {viewingReceipt && (
+          <ReceiptViewer
+            receipt={viewingReceipt.receipt}
+            baseUrl={receiptsUrl(viewingReceipt.expense)}
+            getAuthHeader={getAuthHeader}
+            onClose={() => setViewingReceipt(null)}
+            onDelete={canEditReceipts(viewingReceipt.expense) ? (receipt) => deleteReceipt(viewingReceipt.expense, receipt) : undefined}
+          />
+        )}
+
+        {/* Clone Budget Modal */}
+        {showClone && selectedBudget && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Start Next Period</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setShowClone(false)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  <p className="text-muted small">
+                    Creates the next {selectedBudget.period}'s budget with the same categories, limits and alerts.
+                    Tick a category to add its unspent amount to next period's limit.
+                  </p>
+                  {categories.map(category => {
+                    const unspent = Math.max(0, category.remaining);
+                    return (
+                      <div key={category.id} className="form-check">
+                        <input
+                          className="form-check-input"
+                          type="checkbox"
+                          id={`rollover-${category.id}`}
+                          checked={rolloverIds.includes(category.id)}
+                          disabled={unspent === 0}
+                          onChange={(e) => setRolloverIds(e.target.checked
+                            ? [...rolloverIds, category.id]
+                            : rolloverIds.filter(id => id !== category.id))}
+                        />
+                        <label className="form-check-label d-flex justify-content-between" htmlFor={`rollover-${category.id}`}>
+                          <span>{category.name}</span>
+                          <span className="small text-muted ms-3">
+                            {formatCurrency(category.limit)}
+                            {rolloverIds.includes(category.id) && ` + ${formatCurrency(unspent)}`}
+                          </span>
+                        </label>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setShowClone(false)}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={cloneBudget}
+                    disabled={loading}
+                  >
+                    Create
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Alert Thresholds Modal */}
+        {thresholdCategory && (
+          <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+            <div className="modal-dialog">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h5 className="modal-title">Alerts for {thresholdCategory.name}</h5>
+                  <button
+                    className="btn-close"
+                    onClick={() => setThresholdCategory(null)}
+                  ></button>
+                </div>
+                <div className="modal-body">
+                  <label className="form-label">Notify budget owners at (% of limit)</label>
+                  <input
+                    type="text"
+                    className="form-control"
+                    value={thresholdInput}
+                    onChange={(e) => setThresholdInput(e.target.value)}
+                    placeholder="75, 90, 100"
+                  />
+                  <div className="form-text">
+                    Comma-separated percentages of {formatCurrency(thresholdCategory.limit)}. Each alert fires once, when spending first reaches it.
+                  </div>
+                </div>
+                <div className="modal-footer">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setThresholdCategory(null)}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={saveThresholds}
+                    disabled={!thresholdInput.trim()}
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Add Expense Modal */}
         {showAddExpense && categories.length > 0 && (
           <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
@@ -800,6 +1528,17 @@ export const BudgetPage: React.FC = () => {
                       />
                     </div>
                   </div>
+                  <div className="mt-3">
+                    <label className="form-label">Receipts</label>
+                    <input
+                      type="file"
+                      className="form-control"
+                      accept={RECEIPT_ACCEPT}
+                      multiple
+                      onChange={(e) => setExpenseFiles(Array.from(e.target.files || []))}
+                    />
+                    <div className="form-text">Images or PDFs, up to 10 MB each</div>
+                  </div>
                 </div>
                 <div className="modal-footer">
                   <button
@@ -863,6 +1602,11 @@ export const BudgetPage: React.FC = () => {
           border-bottom: 1px solid #e0e0e0;
         }
 
+        .notification-list {
+          max-height: 240px;
+          overflow-y: auto;
+        }
+
         .expense-item:last-child {
           border-bottom: none;
         }
@@ -874,6 +1618,26 @@ export const BudgetPage: React.FC = () => {
         .progress {
           background-color: #e0e0e0;
         }
+
+        .receipt-thumb {
+          width: 56px;
+          height: 56px;
+          padding: 0;
+          border: 1px solid #dee2e6;
+          border-radius: 6px;
+          background: #f8f9fa;
+          overflow: hidden;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          font-size: 1.4rem;
+        }
+
+        .receipt-thumb img {
+          width: 100%;
+          height: 100%;
+          object-fit: cover;
+        }
       `}</style>
     </AppLayout>
   );
@@ -0,0 +1,66 @@
+import React from 'react';
+
+export interface ForecastPoint {
+  date: string;
+  actual: number | null;
+  projected: number | null;
+}
+
+interface ForecastChartProps {
+  series: ForecastPoint[];
+  limit: number;
+  formatCurrency: (amount: number) => string;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+
+// Running spend over the budget period: actual (solid), projected (dashed) and the limit
+export const ForecastChart: React.FC<ForecastChartProps> = ({ series, limit, formatCurrency, height = 220 }) => {
+  if (series.length === 0) return null;
+
+  const maxValue = Math.max(limit, ...series.map(p => Math.max(p.actual ?? 0, p.projected ?? 0)), 1) * 1.1;
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = height - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (series.length > 1 ? (index / (series.length - 1)) * innerWidth : 0);
+  const y = (value: number) => PADDING.top + innerHeight - (value / maxValue) * innerHeight;
+
+  const path = (key: 'actual' | 'projected') => series
+    .map((p, i) => (p[key] === null ? null : `${x(i)},${y(p[key] as number)}`))
+    .filter(Boolean)
+    .map((point, i) => `${i === 0 ? 'M' : 'L'}${point}`)
+    .join(' ');
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(share => share * maxValue);
+  const labelEvery = Math.max(1, Math.ceil(series.length / 6));
+  const label = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-100" role="img" aria-label="Actual and projected spend against the budget limit">
+        {ticks.map(value => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e9ecef" />
+            <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6c757d">
+              {formatCurrency(Math.round(value))}
+            </text>
+          </g>
+        ))}
+        {series.map((p, i) => (i % labelEvery === 0 ? (
+          <text key={p.date} x={x(i)} y={height - 8} textAnchor="middle" fontSize="10" fill="#6c757d">{label(p.date)}</text>
+        ) : null))}
+        {limit > 0 && (
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(limit)} y2={y(limit)} stroke="#dc3545" strokeDasharray="2 3" />
+        )}
+        <path d={path('projected')} fill="none" stroke="#fd7e14" strokeWidth="2" strokeDasharray="6 4" />
+        <path d={path('actual')} fill="none" stroke="#0d6efd" strokeWidth="2.5" />
+      </svg>
+      <div className="d-flex gap-3 small text-muted justify-content-center">
+        <span><span className="d-inline-block me-1" style={{ width: 16, height: 3, background: '#0d6efd', verticalAlign: 'middle' }}></span>Actual</span>
+        <span><span className="d-inline-block me-1" style={{ width: 16, height: 0, borderTop: '2px dashed #fd7e14', verticalAlign: 'middle' }}></span>Projected</span>
+        <span><span className="d-inline-block me-1" style={{ width: 16, height: 0, borderTop: '2px dotted #dc3545', verticalAlign: 'middle' }}></span>Limit</span>
+      </div>
+    </div>
+  );
+};
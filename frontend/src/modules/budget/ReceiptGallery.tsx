@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+
+export interface Receipt {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export const RECEIPT_ACCEPT = 'image/jpeg,image/png,image/gif,image/webp,application/pdf';
+
+// Receipt files sit behind the API's bearer auth, so they are fetched into object URLs
+// instead of being linked to directly
+function useReceiptUrl(url: string | null, getAuthHeader: () => HeadersInit) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!url) return;
+    let revoked = false;
+    let created: string | null = null;
+    setFailed(false);
+    fetch(url, { headers: getAuthHeader() })
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to load receipt');
+        return res.blob();
+      })
+      .then(blob => {
+        if (revoked) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      .catch(() => !revoked && setFailed(true));
+    return () => {
+      revoked = true;
+      if (created) URL.revokeObjectURL(created);
+      setObjectUrl(null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url]);
+
+  return { objectUrl, failed };
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface ReceiptThumbnailProps {
+  receipt: Receipt;
+  baseUrl: string;
+  getAuthHeader: () => HeadersInit;
+  onOpen: (receipt: Receipt) => void;
+}
+
+const ReceiptThumbnail: React.FC<ReceiptThumbnailProps> = ({ receipt, baseUrl, getAuthHeader, onOpen }) => {
+  const { objectUrl } = useReceiptUrl(receipt.hasThumbnail ? `${baseUrl}/${receipt.id}?thumbnail=true` : null, getAuthHeader);
+
+  return (
+    <button type="button" className="receipt-thumb" onClick={() => onOpen(receipt)} title={receipt.name}>
+      {objectUrl ? (
+        <img src={objectUrl} alt={receipt.name} />
+      ) : (
+        <i className={receipt.contentType === 'application/pdf' ? 'fas fa-file-pdf text-danger' : 'fas fa-image text-muted'}></i>
+      )}
+    </button>
+  );
+};
+
+interface ReceiptStripProps {
+  receipts: Receipt[];
+  baseUrl: string;
+  getAuthHeader: () => HeadersInit;
+  onOpen: (receipt: Receipt) => void;
+}
+
+// Row of receipt thumbnails for one expense; baseUrl is the expense's receipts endpoint
+export const ReceiptStrip: React.FC<ReceiptStripProps> = ({ receipts, baseUrl, getAuthHeader, onOpen }) => (
+  <div className="d-flex flex-wrap gap-2 mt-2">
+    {receipts.map(receipt => (
+      <ReceiptThumbnail key={receipt.id} receipt={receipt} baseUrl={baseUrl} getAuthHeader={getAuthHeader} onOpen={onOpen} />
+    ))}
+  </div>
+);
+
+interface ReceiptViewerProps {
+  receipt: Receipt;
+  baseUrl: string;
+  getAuthHeader: () => HeadersInit;
+  onClose: () => void;
+  onDelete?: (receipt: Receipt) => void;
+}
+
+// Full-size receipt in a modal: images inline, PDFs in an embedded viewer
+export const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ receipt, baseUrl, getAuthHeader, onClose, onDelete }) => {
+  const { objectUrl, failed } = useReceiptUrl(`${baseUrl}/${receipt.id}`, getAuthHeader);
+  const isPdf = receipt.contentType === 'application/pdf';
+
+  return (
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+      <div className="modal-dialog modal-lg">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title text-truncate">{receipt.name}</h5>
+            <button className="btn-close" onClick={onClose}></button>
+          </div>
+          <div className="modal-body text-center">
+            {failed ? (
+              <p className="text-danger mb-0">This receipt could not be loaded.</p>
+            ) : !objectUrl ? (
+              <div className="spinner-border text-primary" role="status">
+                <span className="visually-hidden">Loading...</span>
+              </div>
+            ) : isPdf ? (
+              <iframe src={objectUrl} title={receipt.name} style={{ width: '100%', height: '70vh', border: 0 }}></iframe>
+            ) : (
+              <img src={objectUrl} alt={receipt.name} className="img-fluid" />
+            )}
+          </div>
+          <div className="modal-footer justify-content-between">
+            <span className="small text-muted">
+              {formatSize(receipt.size)} • uploaded {new Date(receipt.uploadedAt).toLocaleString()}
+            </span>
+            <div>
+              {onDelete && (
+                <button className="btn btn-outline-danger me-2" onClick={() => onDelete(receipt)}>
+                  <i className="fas fa-trash"></i> Remove
+                </button>
+              )}
+              {objectUrl && (
+                <a className="btn btn-primary" href={objectUrl} download={receipt.name}>
+                  <i className="fas fa-download"></i> Download
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,184 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuth } from '../auth/AuthContext';
 
-interface Participant {
+export type PresenceState = 'active' | 'idle' | 'away' | 'offline';
+
+export interface Participant {
   id: string;
   name: string;
-  presence: string;
+  presence: PresenceState;
+  joinedAt?: string;
+  lastSeenAt?: string | null;
+  disconnectedAt?: string | null;
   cursor?: { x: number; y: number };
 }
 
+// Strongest first, as on the server
+export type SessionRole = 'owner' | 'editor' | 'voter' | 'viewer';
+
+export interface SessionInvite {
+  token: string;
+  role: SessionRole;
+  createdAt: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  uses: number;
+  link: string;
+}
+
+export type VotingMode = 'updown' | 'approval' | 'ranked' | 'dot';
+
+// 'up' | 'down' for updown, 'approve' for approval, points for dot voting
+export type VoteValue = 'up' | 'down' | 'approve' | number;
+
+// Per-item tally; which counters are present depends on the voting mode.
+// voters and allocations are omitted when the session votes anonymously.
 interface Vote {
-  upvotes: number;
-  downvotes: number;
   total: number;
-  voters: string[];
+  voterCount?: number;
+  upvotes?: number;
+  downvotes?: number;
+  approvals?: number;
+  points?: number;
+  firstChoices?: number;
+  voters?: string[];
+  allocations?: { userId: string; points: number }[];
+}
+
+export interface RunoffRound {
+  round: number;
+  counts: Record<string, number>;
+  exhausted: number;
+  eliminated: string[];
+  tied?: string[];
+}
+
+export interface VoteResults {
+  mode: VotingMode;
+  anonymous: boolean;
+  dotBudget?: number;
+  ranking: { itemId: string; score: number }[];
+  leader: string | null;
+  winner: string | null;
+  consensus: { required: boolean; reached: boolean };
+  voterCount: number;
+  participantCount: number;
+  voters?: string[];
+  rounds?: RunoffRound[];
+  ballotCount?: number;
+}
+
+export interface MyVotes {
+  items: Record<string, VoteValue>;
+  ranking: string[];
+}
+
+export interface SessionSettings {
+  votingEnabled: boolean;
+  anonymousVoting: boolean;
+  requireConsensus: boolean;
+  autoSchedule: boolean;
+  votingMode?: VotingMode;
+  dotBudget?: number;
+  votingDeadline?: string | null;
+}
+
+// Written when the voting deadline passes; winners is empty when consensus was required but not reached
+export interface VotingDecision {
+  decidedAt: string;
+  closedBy: string | null;
+  winners: string[];
+  mode: VotingMode;
+  consensus: { required: boolean; reached: boolean };
+  ranking: { itemId: string; score: number }[];
+  voterCount: number;
+  participantCount: number;
+}
+
+// Granular itinerary edits; positions refer to the items array as this client sees it
+export type ItineraryOp =
+  | { type: 'add'; item: any; index?: number }
+  | { type: 'remove'; itemId: string }
+  | { type: 'move'; itemId: string; toIndex: number }
+  | { type: 'update'; itemId: string; field: string; value: unknown };
+
+interface Itinerary {
+  items: any[];
+  startDate: string | null;
+  endDate: string | null;
+  version?: number;
+  schedulePreferences?: { dayStart?: string; dayEnd?: string; timezoneOffset?: number };
+  decision?: VotingDecision;
+}
+
+// Local mirror of the server's applyItineraryOp, used to show pending edits optimistically.
+// Operations that no longer fit (e.g. the item is gone) are skipped; the server decides.
+const applyItineraryOp = (itinerary: Itinerary, op: ItineraryOp): Itinerary => {
+  const items = [...itinerary.items];
+  const index = 'itemId' in op ? items.findIndex(i => i.id === op.itemId) : -1;
+  switch (op.type) {
+    case 'add':
+      if (items.some(i => i.id === op.item.id)) return itinerary;
+      items.splice(Math.min(Math.max(op.index ?? items.length, 0), items.length), 0, op.item);
+      break;
+    case 'remove':
+      if (index === -1) return itinerary;
+      items.splice(index, 1);
+      break;
+    case 'move': {
+      if (index === -1) return itinerary;
+      const [item] = items.splice(index, 1);
+      items.splice(Math.min(Math.max(op.toIndex, 0), items.length), 0, item);
+      break;
+    }
+    case 'update':
+      if (index === -1) return itinerary;
+      items[index] = { ...items[index], [op.field]: op.value };
+      break;
+  }
+  return { ...itinerary, items };
+};
+
+export interface ScheduleSlot {
+  itemId: string;
+  title: string;
+  start: string;
+  end: string;
+  travelMinutes: number;
+  distanceKm: number | null;
+  score?: number;
+}
+
+export interface ScheduleProposal {
+  days: { date: string; slots: ScheduleSlot[] }[];
+  unscheduled: { itemId: string; title: string; reason: string }[];
+  startDate: string;
+  endDate: string;
+}
+
+// Local-time preferences for the scheduler; omitted ones fall back to the session's saved ones
+export interface ScheduleOptions {
+  startDate?: string;
+  endDate?: string;
+  dayStart?: string;
+  dayEnd?: string;
+}
+
+export interface ItineraryRevision {
+  version: number;
+  op: {
+    type: ItineraryOp['type'] | 'restore' | 'schedule' | 'decision';
+    itemId?: string;
+    item?: any;
+    field?: string;
+    toVersion?: number;
+    winners?: string[];
+  };
+  userId: string;
+  userName: string | null;
+  timestamp: string;
+  items: any[];
 }
 
 interface Session {
@@ -24,18 +189,12 @@ interface Session {
   endedAt?: string | null;
   status?: 'active' | 'ended' | string;
   participants: Participant[];
-  itinerary: {
-    items: any[];
-    startDate: string | null;
-    endDate: string | null;
-  };
+  itinerary: Itinerary;
   votes: Record<string, Vote>;
-  settings: {
-    votingEnabled: boolean;
-    anonymousVoting: boolean;
-    requireConsensus: boolean;
-    autoSchedule: boolean;
-  };
+  voteResults?: VoteResults;
+  settings: SessionSettings;
+  roles?: Record<string, SessionRole>;
+  decision?: VotingDecision | null;
 }
 
 interface CollaborationContextType {
@@ -47,8 +206,31 @@ interface CollaborationContextType {
   leaveSession: () => void;
   createSession: (name: string, teamId?: string) => Promise<Session>;
   endSession: (sessionId: string) => Promise<boolean>;
-  vote: (itemId: string, vote: 'up' | 'down' | null) => void;
-  updateItinerary: (itinerary: any) => void;
+  myVotes: MyVotes;
+  voteError: string | null;
+  sessionError: string | null;
+  authError: string | null;
+  itineraryError: string | null;
+  myRole: SessionRole | null;
+  listInvites: () => Promise<SessionInvite[]>;
+  createInvite: (options: { role: SessionRole; expiresInHours: number | null; maxUses: number | null }) => Promise<SessionInvite | null>;
+  revokeInvite: (token: string) => Promise<boolean>;
+  acceptInvite: (token: string) => Promise<{ sessionId?: string; error?: string }>;
+  setMemberRole: (userId: string, role: SessionRole | null) => Promise<boolean>;
+  vote: (itemId: string, vote: VoteValue | null) => void;
+  submitRanking: (ranking: string[]) => void;
+  updateSettings: (settings: Partial<SessionSettings>) => Promise<boolean>;
+  updateItinerary: (op: ItineraryOp) => void;
+  undoItinerary: () => void;
+  redoItinerary: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  getItineraryHistory: () => Promise<ItineraryRevision[]>;
+  restoreItineraryVersion: (version: number) => Promise<boolean>;
+  scheduleProposal: ScheduleProposal | null;
+  proposeSchedule: (options: ScheduleOptions) => Promise<ScheduleProposal | null>;
+  applySchedule: (slots: Pick<ScheduleSlot, 'itemId' | 'start' | 'end'>[], options: ScheduleOptions) => Promise<boolean>;
+  downloadItineraryCalendar: () => Promise<boolean>;
   addComment: (itemId: string, comment: string) => void;
   moveCursor: (position: { x: number; y: number }) => void;
 }
@@ -64,11 +246,48 @@ export const useCollaboration = () => {
 };
 
 export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user, accessToken } = useAuth();
+  const { user, accessToken, refreshAccessToken } = useAuth();
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [myVotes, setMyVotes] = useState<MyVotes>({ items: {}, ranking: [] });
+  const [voteError, setVoteError] = useState<string | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [itineraryError, setItineraryError] = useState<string | null>(null);
+  const [scheduleProposal, setScheduleProposal] = useState<ScheduleProposal | null>(null);
+  const [heartbeatMs, setHeartbeatMs] = useState(15000);
+  const lastActivityRef = useRef(Date.now());
+
+  // The itinerary shown is the last one the server confirmed plus this client's unacknowledged operations
+  const confirmedItineraryRef = useRef<Itinerary | null>(null);
+  const pendingOpsRef = useRef<{ opId: string; op: ItineraryOp; kind: 'edit' | 'undo' | 'redo' }[]>([]);
+  const opCounterRef = useRef(0);
+  // Inverse operations of this client's own confirmed edits
+  const [undoStack, setUndoStack] = useState<ItineraryOp[]>([]);
+  const [redoStack, setRedoStack] = useState<ItineraryOp[]>([]);
+
+  const rebaseItinerary = useCallback((confirmed?: Itinerary, settledOpId?: string) => {
+    if (confirmed && (confirmed.version ?? 0) >= (confirmedItineraryRef.current?.version ?? 0)) {
+      confirmedItineraryRef.current = confirmed;
+    }
+    if (settledOpId) {
+      pendingOpsRef.current = pendingOpsRef.current.filter(p => p.opId !== settledOpId);
+    }
+    const base = confirmedItineraryRef.current;
+    if (!base) return;
+    const itinerary = pendingOpsRef.current.reduce((acc, { op }) => applyItineraryOp(acc, op), base);
+    setCurrentSession(prev => (prev ? { ...prev, itinerary } : prev));
+  }, []);
+
+  // The handshake reads the token on every (re)connect, so refreshed tokens are picked up
+  // without tearing down the socket
+  const tokenRef = useRef(accessToken);
+  useEffect(() => {
+    tokenRef.current = accessToken;
+  }, [accessToken]);
+  const hasToken = !!accessToken;
 
   // Initialize socket connection
   useEffect(() => {
@@ -87,17 +306,19 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
     if (socket) return;
 
     const socketInstance = io('/', {
-      auth: {
-        token: accessToken
-      },
+      auth: (cb) => cb({ token: tokenRef.current }),
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
     });
 
+    let refreshedAfterAuthError = false;
+
     socketInstance.on('connect', () => {
       console.log('Connected to collaboration server');
+      refreshedAfterAuthError = false;
+      setAuthError(null);
       setIsConnected(true);
     });
 
@@ -106,14 +327,76 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       setIsConnected(false);
     });
 
-    socketInstance.on('connect_error', (error) => {
+    // The server rejects the handshake for missing or expired tokens and does not retry on its own
+    socketInstance.on('connect_error', async (error: Error & { data?: { code?: string } }) => {
       console.error('Socket connection error:', error.message);
+      if (error.data?.code !== 'unauthorized') return;
+      if (refreshedAfterAuthError) {
+        setAuthError('Your session has expired. Please sign in again.');
+        return;
+      }
+      refreshedAfterAuthError = true;
+      const token = await refreshAccessToken();
+      if (!token) {
+        setAuthError('Your session has expired. Please sign in again.');
+        return;
+      }
+      tokenRef.current = token;
+      socketInstance.connect();
+    });
+
+    socketInstance.on('session-error', ({ error }: { error: string }) => {
+      setSessionError(error);
     });
 
     socketInstance.on('session-state', (session: Session) => {
+      setSessionError(null);
+      setScheduleProposal(null);
+      // A fresh snapshot supersedes anything still in flight (e.g. after a reconnect)
+      confirmedItineraryRef.current = session.itinerary;
+      pendingOpsRef.current = [];
+      setUndoStack([]);
+      setRedoStack([]);
       setCurrentSession(session);
     });
 
+    // Only this user's own selections; sent on join and after each vote
+    socketInstance.on('my-votes', (votes: MyVotes) => {
+      setMyVotes(votes);
+    });
+
+    socketInstance.on('vote-error', ({ error }: { error: string }) => {
+      setVoteError(error);
+    });
+
+    // Sent when the session has auto-scheduling on and the itinerary or votes changed
+    socketInstance.on('schedule-proposal', ({ proposal }: { proposal: ScheduleProposal }) => {
+      setScheduleProposal(proposal);
+    });
+
+    socketInstance.on('roles-updated', ({ roles }: { roles: Record<string, SessionRole> }) => {
+      setCurrentSession(prev => (prev ? { ...prev, roles } : prev));
+    });
+
+    // Sent after this user was removed or downgraded; the server has taken the socket out of the room
+    socketInstance.on('session-access-changed', ({ sessionId, role }: { sessionId: string; role: SessionRole | null }) => {
+      if (role) {
+        socketInstance.emit('join-session', { sessionId });
+        return;
+      }
+      setCurrentSession(prev => (prev?.id === sessionId ? null : prev));
+      setSessionError('You were removed from this session');
+    });
+
+    // Also carries the decision, which is cleared when a new deadline reopens voting
+    socketInstance.on('settings-updated', ({ settings, decision }: { settings: SessionSettings; decision?: VotingDecision | null }) => {
+      setCurrentSession(prev => (prev ? { ...prev, settings, decision: decision === undefined ? prev.decision : decision } : prev));
+    });
+
+    socketInstance.on('voting-closed', ({ decision }: { decision: VotingDecision }) => {
+      setCurrentSession(prev => (prev ? { ...prev, decision } : prev));
+    });
+
     // Realtime session discovery
     socketInstance.on('session-created', (session: Session) => {
       setSessions(prev => {
@@ -122,6 +405,22 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       });
     });
 
+    socketInstance.on('presence-config', (config: { heartbeatMs: number }) => {
+      if (config?.heartbeatMs > 0) setHeartbeatMs(config.heartbeatMs);
+    });
+
+    // Joins, reconnects, idling and grace-window expiry all arrive as presence updates
+    socketInstance.on('presence-update', ({ participant }: { participant: Participant }) => {
+      setCurrentSession(prev => {
+        if (!prev) return prev;
+        const exists = prev.participants.some(p => p.id === participant.id);
+        const participants = exists
+          ? prev.participants.map(p => (p.id === participant.id ? { ...p, ...participant } : p))
+          : [...prev.participants, participant];
+        return { ...prev, participants };
+      });
+    });
+
     socketInstance.on('user-joined', ({ userId, userName }) => {
       console.log(`${userName} joined the session`);
     });
@@ -130,18 +429,43 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       console.log(`User ${userId} left the session`);
     });
 
-    // Server emits 'vote-update'
-    socketInstance.on('vote-update', ({ itemId, votes }) => {
+    // Server emits 'vote-update' with the changed item (if any), every item's tally and the results
+    socketInstance.on('vote-update', ({ itemId, votes, allVotes, results }) => {
+      setVoteError(null);
       setCurrentSession(prev => {
         if (!prev) return prev;
-        return { ...prev, votes: { ...prev.votes, [itemId]: votes } } as Session;
+        const nextVotes = allVotes || (itemId ? { ...prev.votes, [itemId]: votes } : prev.votes);
+        return { ...prev, votes: nextVotes, voteResults: results || prev.voteResults } as Session;
       });
     });
 
-    // Server emits 'itinerary-updated' with itinerary object
+    // Every applied operation is broadcast with the resulting itinerary; our own ones settle here too
+    socketInstance.on('itinerary-op', ({ opId, itinerary, inverse }: { opId: string | null; itinerary: Itinerary; inverse?: ItineraryOp }) => {
+      const mine = pendingOpsRef.current.find(p => p.opId === opId);
+      if (mine && inverse) {
+        if (mine.kind === 'undo') setRedoStack(prev => [...prev, inverse]);
+        else setUndoStack(prev => [...prev, inverse].slice(-50));
+      }
+      rebaseItinerary(itinerary, opId ?? undefined);
+    });
+
+    // Operations that turned out to change nothing
+    socketInstance.on('itinerary-ack', ({ opId }: { opId: string }) => {
+      rebaseItinerary(undefined, opId);
+    });
+
+    socketInstance.on('itinerary-rejected', ({ opId, error, itinerary }: { opId: string; error: string; itinerary: Itinerary }) => {
+      setItineraryError(error);
+      rebaseItinerary(itinerary, opId);
+    });
+
+    // Whole-itinerary replacements made outside the operation flow, e.g. restoring a revision.
+    // Earlier edits may no longer exist afterwards, so undo starts over.
     socketInstance.on('itinerary-updated', (payload: any) => {
       const itinerary = (payload && payload.itinerary) || payload;
-      setCurrentSession(prev => prev ? { ...prev, itinerary } : null);
+      setUndoStack([]);
+      setRedoStack([]);
+      rebaseItinerary(itinerary);
     });
 
     // Server emits 'cursor-update'
@@ -163,7 +487,36 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       setSocket(null);
       setIsConnected(false);
     };
-  }, [user, accessToken]); // Remove socket from dependencies to prevent loops
+  }, [user?.id, hasToken]); // Token refreshes go through tokenRef; socket is left out to prevent loops
+
+  // Track the last user input so heartbeats can tell idle from active
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') markActive();
+    };
+    const events = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'focus'];
+    events.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      events.forEach(e => window.removeEventListener(e, markActive));
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, []);
+
+  const currentSessionId = currentSession?.id;
+  useEffect(() => {
+    if (!socket || !isConnected || !currentSessionId) return;
+    const beat = () => socket.emit('heartbeat', {
+      sessionId: currentSessionId,
+      activeAt: new Date(lastActivityRef.current).toISOString()
+    });
+    beat();
+    const timer = setInterval(beat, heartbeatMs);
+    return () => clearInterval(timer);
+  }, [socket, isConnected, currentSessionId, heartbeatMs]);
 
   // Fetch sessions (all in demo) and keep them fresh
   useEffect(() => {
@@ -261,7 +614,7 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       }
 
       const data = await response.json();
-      // Backend returns { session, shareableLink }
+      // Backend returns { session }; others join through invite links
       return (data.session || data) as Session;
     } catch (error) {
       console.error('Error creating session:', error);
@@ -274,40 +627,289 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
       console.warn('Socket not connected, cannot join session');
       return;
     }
-    socket.emit('join-session', { sessionId, userId: user.id, userName: user.name });
+    // The server takes the user identity from the authenticated socket
+    socket.emit('join-session', { sessionId });
   }, [socket, isConnected, user]);
 
   const leaveSession = useCallback(() => {
     if (!socket || !currentSession || !user) return;
-    socket.emit('leave-session', { sessionId: currentSession.id, userId: user.id });
+    socket.emit('leave-session', { sessionId: currentSession.id });
     setCurrentSession(null);
   }, [socket, currentSession, user]);
 
-  const vote = useCallback((itemId: string, voteType: 'up' | 'down' | null) => {
+  const vote = useCallback((itemId: string, voteType: VoteValue | null) => {
     if (!socket || !currentSession || !user) return;
     socket.emit('vote', {
       sessionId: currentSession.id,
       itemId,
-      userId: user.id,
       vote: voteType
     });
   }, [socket, currentSession, user]);
 
-  const updateItinerary = useCallback((itinerary: any) => {
+  // Ranked-choice ballots replace the voter's whole ranking at once
+  const submitRanking = useCallback((ranking: string[]) => {
     if (!socket || !currentSession || !user) return;
-    socket.emit('update-itinerary', {
+    socket.emit('vote', {
       sessionId: currentSession.id,
-      itinerary,
-      userId: user.id
+      itemId: null,
+      vote: ranking
     });
   }, [socket, currentSession, user]);
 
+  const updateSettings = useCallback(async (settings: Partial<SessionSettings>) => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify(settings)
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setVoteError(data.error || 'Failed to update session settings');
+        return false;
+      }
+      const data = await res.json();
+      setCurrentSession(prev => (prev ? { ...prev, settings: data.settings } : prev));
+      return true;
+    } catch (e) {
+      console.error('Update settings error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
+  // Times are interpreted in this browser's timezone
+  const proposeSchedule = useCallback(async (options: ScheduleOptions) => {
+    if (!currentSession || !accessToken) return null;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/schedule/proposal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ ...options, timezoneOffset: new Date().getTimezoneOffset() })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setItineraryError(data.error || 'Failed to propose a schedule');
+        return null;
+      }
+      setScheduleProposal(data.proposal);
+      return data.proposal as ScheduleProposal;
+    } catch (e) {
+      console.error('Propose schedule error', e);
+      return null;
+    }
+  }, [currentSession, accessToken]);
+
+  // The applied itinerary reaches everyone, this client included, through 'itinerary-updated'
+  const applySchedule = useCallback(async (slots: Pick<ScheduleSlot, 'itemId' | 'start' | 'end'>[], options: ScheduleOptions) => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/schedule/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ ...options, slots, timezoneOffset: new Date().getTimezoneOffset() })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setItineraryError(data.error || 'Failed to apply the schedule');
+        return false;
+      }
+      setScheduleProposal(null);
+      return true;
+    } catch (e) {
+      console.error('Apply schedule error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
+  const downloadItineraryCalendar = useCallback(async () => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/itinerary.ics`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setItineraryError(data.error || 'Failed to export the itinerary');
+        return false;
+      }
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${currentSession.name.replace(/[^\w-]+/g, '-') || 'itinerary'}.ics`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+      return true;
+    } catch (e) {
+      console.error('Itinerary export error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
+  const listInvites = useCallback(async () => {
+    if (!currentSession || !accessToken) return [];
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/invites`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      if (!res.ok) return [];
+      const data = await res.json();
+      return (data.invites || []) as SessionInvite[];
+    } catch (e) {
+      console.error('Load invites error', e);
+      return [];
+    }
+  }, [currentSession, accessToken]);
+
+  const createInvite = useCallback(async (options: { role: SessionRole; expiresInHours: number | null; maxUses: number | null }) => {
+    if (!currentSession || !accessToken) return null;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/invites`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify(options)
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setSessionError(data.error || 'Failed to create invite');
+        return null;
+      }
+      return data.invite as SessionInvite;
+    } catch (e) {
+      console.error('Create invite error', e);
+      return null;
+    }
+  }, [currentSession, accessToken]);
+
+  const revokeInvite = useCallback(async (token: string) => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/invites/${token}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      return res.ok;
+    } catch (e) {
+      console.error('Revoke invite error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
+  const acceptInvite = useCallback(async (token: string) => {
+    if (!accessToken) return { error: 'Not authenticated' };
+    try {
+      const res = await fetch(`/api/collaboration/invites/${token}/accept`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) return { error: data.error || 'This invite link is not valid' };
+      return { sessionId: data.sessionId as string };
+    } catch (e) {
+      console.error('Accept invite error', e);
+      return { error: 'Failed to accept the invite' };
+    }
+  }, [accessToken]);
+
+  // Everyone in the session receives the new roles through 'roles-updated'
+  const setMemberRole = useCallback(async (userId: string, role: SessionRole | null) => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/roles/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ role })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setSessionError(data.error || 'Failed to change role');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      console.error('Set role error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
+  // Applies the operation locally right away and sends it against the last confirmed version
+  const sendItineraryOp = useCallback((op: ItineraryOp, kind: 'edit' | 'undo' | 'redo') => {
+    if (!socket || !currentSession || !user) return;
+    const opId = `${socket.id}-${++opCounterRef.current}`;
+    pendingOpsRef.current = [...pendingOpsRef.current, { opId, op, kind }];
+    setItineraryError(null);
+    socket.emit('itinerary-op', {
+      sessionId: currentSession.id,
+      opId,
+      baseVersion: confirmedItineraryRef.current?.version ?? 0,
+      op
+    });
+    rebaseItinerary();
+  }, [socket, currentSession, user, rebaseItinerary]);
+
+  const updateItinerary = useCallback((op: ItineraryOp) => {
+    setRedoStack([]);
+    sendItineraryOp(op, 'edit');
+  }, [sendItineraryOp]);
+
+  const undoItinerary = useCallback(() => {
+    const op = undoStack[undoStack.length - 1];
+    if (!op) return;
+    setUndoStack(undoStack.slice(0, -1));
+    sendItineraryOp(op, 'undo');
+  }, [undoStack, sendItineraryOp]);
+
+  const redoItinerary = useCallback(() => {
+    const op = redoStack[redoStack.length - 1];
+    if (!op) return;
+    setRedoStack(redoStack.slice(0, -1));
+    sendItineraryOp(op, 'redo');
+  }, [redoStack, sendItineraryOp]);
+
+  const getItineraryHistory = useCallback(async () => {
+    if (!currentSession || !accessToken) return [];
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/itinerary/history`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      if (!res.ok) return [];
+      const data = await res.json();
+      return (data.revisions || []) as ItineraryRevision[];
+    } catch (e) {
+      console.error('Load itinerary history error', e);
+      return [];
+    }
+  }, [currentSession, accessToken]);
+
+  // The server broadcasts the restored itinerary to the whole session, this client included
+  const restoreItineraryVersion = useCallback(async (version: number) => {
+    if (!currentSession || !accessToken) return false;
+    try {
+      const res = await fetch(`/api/collaboration/sessions/${currentSession.id}/itinerary/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ version })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setItineraryError(data.error || 'Failed to restore this version');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      console.error('Restore itinerary error', e);
+      return false;
+    }
+  }, [currentSession, accessToken]);
+
   const addComment = useCallback((itemId: string, comment: string) => {
     if (!socket || !currentSession || !user) return;
     socket.emit('add-comment', {
       sessionId: currentSession.id,
       itemId,
-      userId: user.id,
       comment
     });
   }, [socket, currentSession, user]);
@@ -316,7 +918,6 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
     if (!socket || !currentSession || !user) return;
     socket.emit('cursor-move', {
       sessionId: currentSession.id,
-      userId: user.id,
       position
     });
   }, [socket, currentSession, user]);
@@ -330,8 +931,31 @@ export const CollaborationProvider: React.FC<{ children: React.ReactNode }> = ({
     leaveSession,
     createSession,
     endSession,
+    myVotes,
+    voteError,
+    sessionError,
+    authError,
+    itineraryError,
+    myRole: (user && currentSession?.roles?.[user.id]) || null,
+    listInvites,
+    createInvite,
+    revokeInvite,
+    acceptInvite,
+    setMemberRole,
     vote,
+    submitRanking,
+    updateSettings,
     updateItinerary,
+    undoItinerary,
+    redoItinerary,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    getItineraryHistory,
+    restoreItineraryVersion,
+    scheduleProposal,
+    proposeSchedule,
+    applySchedule,
+    downloadItineraryCalendar,
     addComment,
     moveCursor
   };
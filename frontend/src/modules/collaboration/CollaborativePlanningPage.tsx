@@ -2,11 +2,93 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { AppLayout } from '../layout/AppLayout';
 import { useCollaboration } from './CollaborationProvider';
-import { VotingInterface } from './VotingInterface';
+import { VotingInterface, VotingResults, VOTING_MODE_LABELS } from './VotingInterface';
+import type {
+  VotingMode,
+  Participant,
+  PresenceState,
+  ItineraryRevision,
+  SessionRole,
+  SessionInvite,
+  ScheduleProposal,
+  ScheduleSlot
+} from './CollaborationProvider';
 import { useAuth } from '../auth/AuthContext';
 import { CollaborationDebug } from './CollaborationDebug';
 import clsx from 'clsx';
 
+const PRESENCE_ORDER: Record<PresenceState, number> = { active: 0, idle: 1, away: 2, offline: 3 };
+
+const PRESENCE_LABELS: Record<PresenceState, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  away: 'Away',
+  offline: 'Offline'
+};
+
+const formatLastSeen = (iso: string | null | undefined, now: number) => {
+  const at = iso ? Date.parse(iso) : NaN;
+  if (!Number.isFinite(at)) return 'never';
+  const seconds = Math.max(0, Math.round((now - at) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(at).toLocaleDateString();
+};
+
+const ROLE_LABELS: Record<SessionRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  voter: 'Voter',
+  viewer: 'Viewer'
+};
+
+const INVITE_EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '1 week', hours: 168 },
+  { label: 'Never', hours: null }
+];
+
+// Date and time inputs work in the browser's local time
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+const localDateToIso = (date: string, addDays = 0) => {
+  const d = new Date(`${date}T00:00`);
+  d.setDate(d.getDate() + addDays);
+  return d.toISOString();
+};
+const toDateTimeInput = (iso: string) => `${toDateInput(new Date(iso))}T${toTimeInput(iso)}`;
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(seconds % 60)}s`;
+};
+const formatSlotTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const describeRevision = (revision: ItineraryRevision) => {
+  const { op } = revision;
+  const title = op.item?.title || revision.items.find(i => i.id === op.itemId)?.title || 'an activity';
+  switch (op.type) {
+    case 'add': return `Added ${title}`;
+    case 'remove': return 'Removed an activity';
+    case 'move': return `Moved ${title}`;
+    case 'update': return `Changed ${op.field} of ${title}`;
+    case 'restore': return `Restored version ${op.toVersion}`;
+    case 'schedule': return 'Applied a schedule';
+    case 'decision': return op.winners?.length ? 'Voting closed and the winners moved to the top' : 'Voting closed without a winner';
+    default: return 'Changed the itinerary';
+  }
+};
+
 export const CollaborativePlanningPage: React.FC = () => {
   const { sessionId } = useParams<{ sessionId?: string }>();
   const navigate = useNavigate();
@@ -19,14 +101,66 @@ export const CollaborativePlanningPage: React.FC = () => {
     createSession,
     updateItinerary,
     addComment,
-    endSession
+    endSession,
+    updateSettings,
+    sessionError,
+    authError,
+    itineraryError,
+    undoItinerary,
+    redoItinerary,
+    canUndo,
+    canRedo,
+    getItineraryHistory,
+    restoreItineraryVersion,
+    myRole,
+    listInvites,
+    createInvite,
+    revokeInvite,
+    setMemberRole,
+    scheduleProposal,
+    proposeSchedule,
+    applySchedule,
+    downloadItineraryCalendar
   } = useCollaboration();
+
+  const canEdit = myRole === 'owner' || myRole === 'editor';
+  const canManage = myRole === 'owner';
   
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [sessionName, setSessionName] = useState('');
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [commentText, setCommentText] = useState('');
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisions, setRevisions] = useState<ItineraryRevision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleForm, setScheduleForm] = useState({ startDate: '', endDate: '', dayStart: '09:00', dayEnd: '21:00' });
+  const [draftSlots, setDraftSlots] = useState<ScheduleSlot[]>([]);
+  const [draftUnscheduled, setDraftUnscheduled] = useState<ScheduleProposal['unscheduled']>([]);
+  const [showInvites, setShowInvites] = useState(false);
+  const [invites, setInvites] = useState<SessionInvite[]>([]);
+  const [inviteForm, setInviteForm] = useState<{ role: SessionRole; expiresInHours: number | null; maxUses: string }>({
+    role: 'editor',
+    expiresInHours: 72,
+    maxUses: ''
+  });
+
+  // Keeps the "last seen" labels current between presence updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The voting countdown ticks every second until the server announces the decision
+  const votingDeadline = currentSession?.settings.votingDeadline;
+  const decision = currentSession?.decision;
+  useEffect(() => {
+    if (!votingDeadline || decision) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [votingDeadline, decision]);
 
   // Try to join on mount/param change
   useEffect(() => {
@@ -55,14 +189,29 @@ export const CollaborativePlanningPage: React.FC = () => {
   // helper functions inside component scope
   const handleAddToItinerary = (item: any) => {
     if (!currentSession) return;
-    const newItinerary = { ...currentSession.itinerary, items: [...currentSession.itinerary.items, item] };
-    updateItinerary(newItinerary);
+    updateItinerary({ type: 'add', item });
   };
 
   const handleRemoveFromItinerary = (itemId: string) => {
     if (!currentSession) return;
-    const newItinerary = { ...currentSession.itinerary, items: currentSession.itinerary.items.filter(item => item.id !== itemId) };
-    updateItinerary(newItinerary);
+    updateItinerary({ type: 'remove', itemId });
+  };
+
+  const handleMoveInItinerary = (itemId: string, toIndex: number) => {
+    if (!currentSession) return;
+    updateItinerary({ type: 'move', itemId, toIndex });
+  };
+
+  const openHistory = async () => {
+    setShowHistory(true);
+    setHistoryLoading(true);
+    setRevisions(await getItineraryHistory());
+    setHistoryLoading(false);
+  };
+
+  const handleRestoreVersion = async (version: number) => {
+    if (!window.confirm(`Restore the itinerary to version ${version} for everyone in this session?`)) return;
+    if (await restoreItineraryVersion(version)) setShowHistory(false);
   };
 
   const handleAddComment = () => {
@@ -71,11 +220,87 @@ export const CollaborativePlanningPage: React.FC = () => {
     setCommentText('');
   };
 
-  const handleShareSession = () => {
-    if (!currentSession?.id) return;
-    const shareUrl = `${window.location.origin}/collaborate/${currentSession.id}`;
-    navigator.clipboard.writeText(shareUrl);
-    alert('Session link copied to clipboard!');
+  const loadProposal = (proposal: ScheduleProposal) => {
+    setDraftSlots(proposal.days.flatMap(day => day.slots));
+    setDraftUnscheduled(proposal.unscheduled);
+  };
+
+  const openSchedule = (proposal?: ScheduleProposal) => {
+    const itinerary = currentSession?.itinerary;
+    const today = toDateInput(new Date());
+    const windowStart = proposal?.startDate || itinerary?.startDate;
+    // The saved end is exclusive (midnight after the last day) or the end of the last activity
+    const windowEnd = proposal?.endDate || itinerary?.endDate;
+    setScheduleForm({
+      startDate: windowStart ? toDateInput(new Date(windowStart)) : today,
+      endDate: windowEnd ? toDateInput(new Date(new Date(windowEnd).getTime() - 1)) : today,
+      dayStart: itinerary?.schedulePreferences?.dayStart || '09:00',
+      dayEnd: itinerary?.schedulePreferences?.dayEnd || '21:00'
+    });
+    if (proposal) loadProposal(proposal);
+    else {
+      setDraftSlots([]);
+      setDraftUnscheduled([]);
+    }
+    setShowSchedule(true);
+  };
+
+  const scheduleOptions = () => ({
+    startDate: localDateToIso(scheduleForm.startDate),
+    endDate: localDateToIso(scheduleForm.endDate, 1),
+    dayStart: scheduleForm.dayStart,
+    dayEnd: scheduleForm.dayEnd
+  });
+
+  const handleProposeSchedule = async () => {
+    if (!scheduleForm.startDate || !scheduleForm.endDate) return;
+    const proposal = await proposeSchedule(scheduleOptions());
+    if (proposal) loadProposal(proposal);
+  };
+
+  // Moving a slot keeps its length; the server rejects overlaps when the plan is accepted
+  const tweakSlotStart = (itemId: string, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return;
+    setDraftSlots(prev => prev.map(slot => {
+      if (slot.itemId !== itemId) return slot;
+      const start = new Date(slot.start);
+      const length = new Date(slot.end).getTime() - start.getTime();
+      start.setHours(hours, minutes, 0, 0);
+      return { ...slot, start: start.toISOString(), end: new Date(start.getTime() + length).toISOString() };
+    }));
+  };
+
+  const unscheduleSlot = (slot: ScheduleSlot) => {
+    setDraftSlots(prev => prev.filter(s => s.itemId !== slot.itemId));
+    setDraftUnscheduled(prev => [...prev, { itemId: slot.itemId, title: slot.title, reason: 'Left out' }]);
+  };
+
+  const handleAcceptSchedule = async () => {
+    const slots = draftSlots.map(({ itemId, start, end }) => ({ itemId, start, end }));
+    if (await applySchedule(slots, scheduleOptions())) setShowSchedule(false);
+  };
+
+  const openInvites = async () => {
+    setShowInvites(true);
+    setInvites(await listInvites());
+  };
+
+  const handleCreateInvite = async () => {
+    const maxUses = parseInt(inviteForm.maxUses, 10);
+    const invite = await createInvite({
+      role: inviteForm.role,
+      expiresInHours: inviteForm.expiresInHours,
+      maxUses: maxUses > 0 ? maxUses : null
+    });
+    if (!invite) return;
+    setInvites(prev => [invite, ...prev]);
+    navigator.clipboard.writeText(invite.link);
+    alert('Invite link copied to clipboard!');
+  };
+
+  const handleRevokeInvite = async (token: string) => {
+    if (await revokeInvite(token)) setInvites(prev => prev.filter(i => i.token !== token));
   };
 
   // Normalize participants as an array to avoid runtime errors
@@ -87,10 +312,34 @@ export const CollaborativePlanningPage: React.FC = () => {
     try { return Object.values(p); } catch { return [] as any[]; }
   }, [currentSession?.participants]);
 
+  const sortedParticipants = useMemo(() => [...participantsList as Participant[]].sort((a, b) =>
+    (PRESENCE_ORDER[a.presence] ?? 3) - (PRESENCE_ORDER[b.presence] ?? 3) || a.name.localeCompare(b.name)
+  ), [participantsList]);
+  const onlineCount = sortedParticipants.filter(p => p.presence !== 'offline').length;
+
+  const itemTitle = (itemId: string) => mockActivities.find(a => a.id === itemId)?.title
+    || currentSession?.itinerary.items.find(i => i.id === itemId)?.title
+    || itemId;
+
+  const draftDays = useMemo(() => {
+    const byDay = new Map<string, ScheduleSlot[]>();
+    [...draftSlots].sort((a, b) => a.start.localeCompare(b.start)).forEach(slot => {
+      const day = toDateInput(new Date(slot.start));
+      byDay.set(day, [...(byDay.get(day) || []), slot]);
+    });
+    return Array.from(byDay.entries());
+  }, [draftSlots]);
+
   // If on a session route but no session yet, show a lightweight loading state
   if (sessionId && !currentSession) {
     return (
       <AppLayout title="Planning Session">
+        {(authError || sessionError) && (
+          <div className="alert alert-danger m-3">
+            <i className="fa-solid fa-lock me-2"></i>
+            {authError || sessionError}
+          </div>
+        )}
         <div className="container-fluid py-5 text-center">
           <div className="spinner-border text-primary" role="status">
             <span className="visually-hidden">Joining session...</span>
@@ -120,7 +369,12 @@ export const CollaborativePlanningPage: React.FC = () => {
                 </button>
               </div>
 
-              {!isConnected && (
+              {authError ? (
+                <div className="alert alert-danger">
+                  <i className="fa-solid fa-lock me-2"></i>
+                  {authError}
+                </div>
+              ) : !isConnected && (
                 <div className="alert alert-warning">
                   <i className="fa-solid fa-exclamation-triangle me-2"></i>
                   Connecting to collaboration server...
@@ -224,6 +478,13 @@ export const CollaborativePlanningPage: React.FC = () => {
   return (
     <AppLayout title={currentSession?.name || 'Planning Session'}>
       <div className="container-fluid">
+        {(authError || sessionError) && (
+          <div className="alert alert-warning">
+            <i className="fa-solid fa-exclamation-triangle me-2"></i>
+            {authError || sessionError}
+          </div>
+        )}
+
         {/* Session Header */}
         <div className="row mb-4">
           <div className="col-12">
@@ -234,7 +495,7 @@ export const CollaborativePlanningPage: React.FC = () => {
                   <div className="d-flex gap-3">
                     <span className="text-muted">
                       <i className="fa-solid fa-users me-1"></i>
-                      {participantsList.length} participants
+                      {onlineCount} online of {participantsList.length} participants
                     </span>
                     <span className={clsx('text-muted', isConnected ? 'text-success' : 'text-danger')}>
                       <i className={clsx('fa-solid me-1', isConnected ? 'fa-circle' : 'fa-circle-exclamation')}></i>
@@ -243,17 +504,13 @@ export const CollaborativePlanningPage: React.FC = () => {
                   </div>
                 </div>
                 <div className="d-flex gap-2">
-                  <button className="btn btn-outline-primary" onClick={() => {
-                    if (currentSession?.id) {
-                      const shareUrl = `${window.location.origin}/collaborate/${currentSession.id}`;
-                      navigator.clipboard.writeText(shareUrl);
-                      alert('Session link copied to clipboard!');
-                    }
-                  }}>
-                    <i className="fa-solid fa-share me-2"></i>
-                    Share
-                  </button>
-                  <button className="btn btn-secondary" disabled={!currentSession?.id || currentSession?.status === 'ended'} onClick={async () => {
+                  {canManage && (
+                    <button className="btn btn-outline-primary" onClick={openInvites}>
+                      <i className="fa-solid fa-share me-2"></i>
+                      Invite
+                    </button>
+                  )}
+                  <button className="btn btn-secondary" disabled={!canManage || !currentSession?.id || currentSession?.status === 'ended'} onClick={async () => {
                     if (!currentSession?.id) return;
                     const ok = await endSession(currentSession.id);
                     if (!ok) alert('Failed to end session');
@@ -297,6 +554,7 @@ export const CollaborativePlanningPage: React.FC = () => {
                         <button 
                           className="btn btn-sm btn-outline-primary mt-2 w-100 add-to-itinerary-btn"
                           onClick={() => handleAddToItinerary(activity)}
+                          disabled={!canEdit}
                         >
                           <i className="fa-solid fa-plus me-1"></i>
                           Add to Itinerary
@@ -311,33 +569,199 @@ export const CollaborativePlanningPage: React.FC = () => {
 
           {/* Itinerary Column */}
           <div className="col-lg-4">
+            <div className="vc-card mb-3">
+              <div className="card-header d-flex justify-content-between align-items-center">
+                <h5 className="mb-0">
+                  <i className="fa-solid fa-square-poll-vertical me-2"></i>
+                  Votes
+                </h5>
+                <select
+                  className="form-select form-select-sm"
+                  style={{ width: 'auto' }}
+                  value={currentSession?.settings.votingMode || 'updown'}
+                  disabled={!canManage}
+                  onChange={(e) => {
+                    if (confirm('Changing the voting mode clears all current votes. Continue?')) {
+                      updateSettings({ votingMode: e.target.value as VotingMode });
+                    }
+                  }}
+                  aria-label="Voting mode"
+                >
+                  {(Object.keys(VOTING_MODE_LABELS) as VotingMode[]).map(mode => (
+                    <option key={mode} value={mode}>{VOTING_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="card-body">
+                {decision ? (
+                  <div className={clsx('alert py-2 small', decision.winners.length > 0 ? 'alert-success' : 'alert-warning')}>
+                    <div className="fw-semibold mb-1">
+                      <i className="fa-solid fa-flag-checkered me-2"></i>
+                      Voting closed {new Date(decision.decidedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                    </div>
+                    {decision.winners.length > 0 ? (
+                      <div>
+                        {decision.winners.length > 1 ? 'Tied winners: ' : 'Winner: '}
+                        {decision.winners.map(id => itemTitle(id)).join(', ')}
+                      </div>
+                    ) : (
+                      <div>{decision.consensus.required ? 'No consensus was reached' : 'No item received enough votes'}</div>
+                    )}
+                    <div className="text-muted">
+                      {decision.voterCount} of {decision.participantCount} participants voted
+                    </div>
+                  </div>
+                ) : votingDeadline && (
+                  <div className="alert alert-info py-2 small d-flex justify-content-between align-items-center">
+                    <span>
+                      <i className="fa-solid fa-hourglass-half me-2"></i>
+                      Voting closes in {formatCountdown(Date.parse(votingDeadline) - now)}
+                    </span>
+                    <small className="text-muted">
+                      {new Date(votingDeadline).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                    </small>
+                  </div>
+                )}
+                <VotingResults items={mockActivities} />
+                <div className="d-flex flex-wrap gap-3 mt-3 pt-2 border-top small">
+                  <div className="form-check form-switch">
+                    <input
+                      className="form-check-input"
+                      type="checkbox"
+                      id="anonymousVoting"
+                      checked={!!currentSession?.settings.anonymousVoting}
+                      disabled={!canManage}
+                      onChange={(e) => updateSettings({ anonymousVoting: e.target.checked })}
+                    />
+                    <label className="form-check-label" htmlFor="anonymousVoting">Anonymous</label>
+                  </div>
+                  <div className="form-check form-switch">
+                    <input
+                      className="form-check-input"
+                      type="checkbox"
+                      id="requireConsensus"
+                      checked={!!currentSession?.settings.requireConsensus}
+                      disabled={!canManage}
+                      onChange={(e) => updateSettings({ requireConsensus: e.target.checked })}
+                    />
+                    <label className="form-check-label" htmlFor="requireConsensus">Require consensus</label>
+                  </div>
+                  {canManage && (
+                    <div className="d-flex align-items-center gap-1">
+                      <label htmlFor="votingDeadline">Deadline</label>
+                      <input
+                        type="datetime-local"
+                        id="votingDeadline"
+                        className="form-control form-control-sm"
+                        style={{ width: 190 }}
+                        key={votingDeadline || 'none'}
+                        defaultValue={votingDeadline ? toDateTimeInput(votingDeadline) : ''}
+                        onBlur={(e) => {
+                          if (!e.target.value) return;
+                          const deadline = new Date(e.target.value).toISOString();
+                          if (deadline !== votingDeadline) updateSettings({ votingDeadline: deadline });
+                        }}
+                      />
+                      {votingDeadline && !decision && (
+                        <button className="btn btn-sm btn-link p-0" onClick={() => updateSettings({ votingDeadline: null })}>
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {currentSession?.settings.votingMode === 'dot' && (
+                    <div className="d-flex align-items-center gap-1">
+                      <label htmlFor="dotBudget">Points each</label>
+                      <input
+                        type="number"
+                        id="dotBudget"
+                        className="form-control form-control-sm"
+                        style={{ width: 70 }}
+                        min={1}
+                        max={100}
+                        defaultValue={currentSession.settings.dotBudget ?? 10}
+                        disabled={!canManage}
+                        onBlur={(e) => {
+                          const dotBudget = parseInt(e.target.value, 10);
+                          if (dotBudget > 0 && dotBudget !== currentSession.settings.dotBudget) updateSettings({ dotBudget });
+                        }}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
             <div className="vc-card sticky-top" style={{ top: 20 }}>
-              <div className="card-header">
+              <div className="card-header d-flex justify-content-between align-items-center">
                 <h5 className="mb-0">
                   <i className="fa-solid fa-calendar-days me-2"></i>
                   Itinerary
                 </h5>
+                <div className="btn-group btn-group-sm">
+                  <button className="btn btn-outline-secondary" onClick={undoItinerary} disabled={!canEdit || !canUndo} title="Undo your last change">
+                    <i className="fa-solid fa-rotate-left"></i>
+                  </button>
+                  <button className="btn btn-outline-secondary" onClick={redoItinerary} disabled={!canEdit || !canRedo} title="Redo">
+                    <i className="fa-solid fa-rotate-right"></i>
+                  </button>
+                  <button className="btn btn-outline-secondary" onClick={openHistory} title="Version history">
+                    <i className="fa-solid fa-clock-rotate-left"></i>
+                  </button>
+                </div>
               </div>
               <div className="card-body">
+                {itineraryError && (
+                  <div className="alert alert-warning py-2 small">{itineraryError}</div>
+                )}
                 {(currentSession?.itinerary?.items?.length ?? 0) === 0 ? (
                   <p className="text-muted text-center py-3">
                     No activities added yet
                   </p>
                 ) : (
                   <div className="timeline">
-                    {(currentSession?.itinerary?.items ?? []).map((item: any) => (
+                    {(currentSession?.itinerary?.items ?? []).map((item: any, index: number, items: any[]) => (
                       <div key={item.id} className="timeline-item mb-3">
                         <div className="d-flex justify-content-between align-items-start">
                           <div>
-                            <h6 className="mb-1">{item.title}</h6>
+                            <h6 className="mb-1">
+                              {item.title}
+                              {item.decided && <span className="badge bg-success ms-2">Voted in</span>}
+                            </h6>
                             <small className="text-muted">{item.location}</small>
+                            {item.scheduledTime && (
+                              <small className="d-block text-primary">
+                                <i className="fa-regular fa-clock me-1"></i>
+                                {new Date(item.scheduledTime).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                                {item.duration ? ` · ${item.duration} min` : ''}
+                              </small>
+                            )}
+                          </div>
+                          <div className="btn-group btn-group-sm">
+                            <button
+                              className="btn btn-outline-secondary"
+                              onClick={() => handleMoveInItinerary(item.id, index - 1)}
+                              disabled={!canEdit || index === 0}
+                              title="Move up"
+                            >
+                              <i className="fa-solid fa-arrow-up"></i>
+                            </button>
+                            <button
+                              className="btn btn-outline-secondary"
+                              onClick={() => handleMoveInItinerary(item.id, index + 1)}
+                              disabled={!canEdit || index === items.length - 1}
+                              title="Move down"
+                            >
+                              <i className="fa-solid fa-arrow-down"></i>
+                            </button>
+                            <button
+                              className="btn btn-outline-danger"
+                              onClick={() => handleRemoveFromItinerary(item.id)}
+                              disabled={!canEdit}
+                              title="Remove"
+                            >
+                              <i className="fa-solid fa-times"></i>
+                            </button>
                           </div>
-                          <button
-                            className="btn btn-sm btn-outline-danger"
-                            onClick={() => handleRemoveFromItinerary(item.id)}
-                          >
-                            <i className="fa-solid fa-times"></i>
-                          </button>
                         </div>
                       </div>
                     ))}
@@ -346,10 +770,29 @@ export const CollaborativePlanningPage: React.FC = () => {
                 
                 {currentSession && (currentSession.itinerary?.items?.length ?? 0) > 0 && (
                   <div className="mt-3 pt-3 border-top">
+                    {scheduleProposal && canEdit && (
+                      <div className="alert alert-info py-2 small d-flex justify-content-between align-items-center">
+                        <span>A new schedule proposal is ready</span>
+                        <button className="btn btn-sm btn-outline-primary" onClick={() => openSchedule(scheduleProposal)}>Review</button>
+                      </div>
+                    )}
+                    <button className="btn btn-outline-primary w-100 mb-2" onClick={() => openSchedule()} disabled={!canEdit}>
+                      <i className="fa-solid fa-wand-magic-sparkles me-2"></i>
+                      Auto-schedule
+                    </button>
                     <button className="btn vc-btn-primary w-100">
                       <i className="fa-solid fa-calendar-plus me-2"></i>
                       Schedule to Calendar
                     </button>
+                    <button
+                      className="btn btn-outline-secondary w-100 mt-2"
+                      onClick={downloadItineraryCalendar}
+                      disabled={!currentSession.itinerary.items.some(item => item.scheduledTime)}
+                      title="Download the scheduled activities for Google Calendar, Apple Calendar and others"
+                    >
+                      <i className="fa-solid fa-file-arrow-down me-2"></i>
+                      Download .ics
+                    </button>
                   </div>
                 )}
               </div>
@@ -362,12 +805,16 @@ export const CollaborativePlanningPage: React.FC = () => {
           <div className="col-12">
             <div className="vc-card">
               <div className="card-header">
-                <h5 className="mb-0">Active Participants</h5>
+                <h5 className="mb-0">Participants</h5>
               </div>
               <div className="card-body">
                 <div className="d-flex flex-wrap gap-3">
-                  {participantsList.map((participant: any) => (
-                    <div key={participant.id} className="participant-chip">
+                  {sortedParticipants.map(participant => (
+                    <div
+                      key={participant.id}
+                      className={clsx('participant-chip', { 'opacity-50': participant.presence === 'offline' })}
+                      title={PRESENCE_LABELS[participant.presence] || participant.presence}
+                    >
                       <img 
                         src={`https://ui-avatars.com/api/?name=${encodeURIComponent(participant.name)}&background=random`}
                         alt={participant.name}
@@ -375,12 +822,36 @@ export const CollaborativePlanningPage: React.FC = () => {
                         width="32"
                         height="32"
                       />
-                      <span>{participant.name}</span>
+                      <div className="d-flex flex-column">
+                        <span>{participant.name}</span>
+                        <small className="text-muted">
+                          {participant.presence === 'active'
+                            ? 'Active now'
+                            : `${PRESENCE_LABELS[participant.presence] || participant.presence} · last seen ${formatLastSeen(participant.lastSeenAt, now)}`}
+                        </small>
+                      </div>
                       <span className={clsx('status-dot ms-2', {
                         'bg-success': participant.presence === 'active',
+                        'bg-info': participant.presence === 'idle',
                         'bg-warning': participant.presence === 'away',
                         'bg-secondary': participant.presence === 'offline'
                       })}></span>
+                      {canManage && participant.id !== user?.id ? (
+                        <select
+                          className="form-select form-select-sm ms-2"
+                          style={{ width: 'auto' }}
+                          value={currentSession?.roles?.[participant.id] || ''}
+                          onChange={(e) => setMemberRole(participant.id, (e.target.value || null) as SessionRole | null)}
+                          aria-label={`Role of ${participant.name}`}
+                        >
+                          <option value="">No access</option>
+                          {(Object.keys(ROLE_LABELS) as SessionRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      ) : currentSession?.roles?.[participant.id] && (
+                        <span className="badge bg-light text-dark ms-2">{ROLE_LABELS[currentSession.roles[participant.id]]}</span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -390,6 +861,269 @@ export const CollaborativePlanningPage: React.FC = () => {
         </div>
       </div>
 
+      {showSchedule && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog modal-dialog-centered modal-dialog-scrollable modal-lg">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">Auto-schedule</h5>
+                <button className="btn-close" onClick={() => setShowSchedule(false)}></button>
+              </div>
+              <div className="modal-body">
+                <div className="row g-2 align-items-end mb-3">
+                  <div className="col-md-3">
+                    <label className="form-label small">From</label>
+                    <input
+                      type="date"
+                      className="form-control form-control-sm"
+                      value={scheduleForm.startDate}
+                      onChange={(e) => setScheduleForm(f => ({ ...f, startDate: e.target.value }))}
+                    />
+                  </div>
+                  <div className="col-md-3">
+                    <label className="form-label small">To</label>
+                    <input
+                      type="date"
+                      className="form-control form-control-sm"
+                      value={scheduleForm.endDate}
+                      min={scheduleForm.startDate}
+                      onChange={(e) => setScheduleForm(f => ({ ...f, endDate: e.target.value }))}
+                    />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small">Day starts</label>
+                    <input
+                      type="time"
+                      className="form-control form-control-sm"
+                      value={scheduleForm.dayStart}
+                      onChange={(e) => setScheduleForm(f => ({ ...f, dayStart: e.target.value }))}
+                    />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small">Day ends</label>
+                    <input
+                      type="time"
+                      className="form-control form-control-sm"
+                      value={scheduleForm.dayEnd}
+                      onChange={(e) => setScheduleForm(f => ({ ...f, dayEnd: e.target.value }))}
+                    />
+                  </div>
+                  <div className="col-md-2">
+                    <button className="btn btn-sm btn-outline-primary w-100" onClick={handleProposeSchedule}>
+                      Propose
+                    </button>
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="form-check form-switch small mb-3">
+                    <input
+                      className="form-check-input"
+                      type="checkbox"
+                      id="autoSchedule"
+                      checked={!!currentSession?.settings.autoSchedule}
+                      onChange={(e) => updateSettings({ autoSchedule: e.target.checked })}
+                    />
+                    <label className="form-check-label" htmlFor="autoSchedule">
+                      Propose a new schedule whenever the itinerary or votes change
+                    </label>
+                  </div>
+                )}
+
+                {draftDays.length === 0 && draftUnscheduled.length === 0 ? (
+                  <p className="text-muted text-center small py-3 mb-0">
+                    Pick the dates and propose a plan. Activities are placed by votes, opening hours and travel time.
+                  </p>
+                ) : (
+                  <>
+                    {draftDays.map(([day, slots]) => (
+                      <div key={day} className="mb-3">
+                        <h6 className="small text-uppercase text-muted">
+                          {new Date(`${day}T00:00`).toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })}
+                        </h6>
+                        <ul className="list-group">
+                          {slots.map(slot => (
+                            <li key={slot.itemId} className="list-group-item d-flex align-items-center gap-2">
+                              <input
+                                type="time"
+                                className="form-control form-control-sm"
+                                style={{ width: 110 }}
+                                value={toTimeInput(slot.start)}
+                                onChange={(e) => tweakSlotStart(slot.itemId, e.target.value)}
+                                aria-label={`Start of ${slot.title}`}
+                              />
+                              <div className="flex-grow-1">
+                                <div>{slot.title}</div>
+                                <small className="text-muted">
+                                  until {formatSlotTime(slot.end)}
+                                  {slot.travelMinutes > 0 && ` · ${slot.travelMinutes} min travel`}
+                                  {slot.distanceKm !== null && ` (${slot.distanceKm} km)`}
+                                </small>
+                              </div>
+                              <button className="btn btn-sm btn-outline-secondary" onClick={() => unscheduleSlot(slot)} title="Leave out">
+                                <i className="fa-solid fa-times"></i>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                    {draftUnscheduled.length > 0 && (
+                      <div className="small">
+                        <h6 className="small text-uppercase text-muted">Not scheduled</h6>
+                        <ul className="mb-0">
+                          {draftUnscheduled.map(item => (
+                            <li key={item.itemId}>{item.title} <span className="text-muted">— {item.reason}</span></li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="modal-footer">
+                <button className="btn btn-secondary" onClick={() => setShowSchedule(false)}>Cancel</button>
+                <button className="btn vc-btn-primary" onClick={handleAcceptSchedule} disabled={draftSlots.length === 0}>
+                  Accept Schedule
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showInvites && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog modal-dialog-centered modal-dialog-scrollable">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">Invite People</h5>
+                <button className="btn-close" onClick={() => setShowInvites(false)}></button>
+              </div>
+              <div className="modal-body">
+                <div className="row g-2 align-items-end mb-3">
+                  <div className="col-4">
+                    <label className="form-label small">Access</label>
+                    <select
+                      className="form-select form-select-sm"
+                      value={inviteForm.role}
+                      onChange={(e) => setInviteForm(f => ({ ...f, role: e.target.value as SessionRole }))}
+                    >
+                      <option value="editor">Can edit</option>
+                      <option value="voter">Can vote</option>
+                      <option value="viewer">View only</option>
+                    </select>
+                  </div>
+                  <div className="col-4">
+                    <label className="form-label small">Expires after</label>
+                    <select
+                      className="form-select form-select-sm"
+                      value={inviteForm.expiresInHours ?? ''}
+                      onChange={(e) => setInviteForm(f => ({ ...f, expiresInHours: e.target.value ? Number(e.target.value) : null }))}
+                    >
+                      {INVITE_EXPIRY_OPTIONS.map(option => (
+                        <option key={option.label} value={option.hours ?? ''}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-4">
+                    <label className="form-label small">Max uses</label>
+                    <input
+                      type="number"
+                      min={1}
+                      className="form-control form-control-sm"
+                      placeholder="Unlimited"
+                      value={inviteForm.maxUses}
+                      onChange={(e) => setInviteForm(f => ({ ...f, maxUses: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <button className="btn vc-btn-primary w-100 mb-3" onClick={handleCreateInvite}>
+                  <i className="fa-solid fa-link me-2"></i>
+                  Create &amp; Copy Link
+                </button>
+
+                {invites.length === 0 ? (
+                  <p className="text-muted text-center small mb-0">No invite links yet</p>
+                ) : (
+                  <ul className="list-group">
+                    {invites.map(invite => {
+                      const expired = !!invite.expiresAt && new Date(invite.expiresAt).getTime() < now;
+                      const usedUp = invite.maxUses !== null && invite.uses >= invite.maxUses;
+                      return (
+                        <li key={invite.token} className={clsx('list-group-item d-flex justify-content-between align-items-center', { 'text-muted': expired || usedUp })}>
+                          <div className="small">
+                            <span className="badge bg-light text-dark me-2">{ROLE_LABELS[invite.role]}</span>
+                            {invite.uses}{invite.maxUses !== null ? ` / ${invite.maxUses}` : ''} uses
+                            {' · '}
+                            {expired ? 'Expired' : invite.expiresAt ? `Expires ${new Date(invite.expiresAt).toLocaleString()}` : 'Never expires'}
+                          </div>
+                          <div className="btn-group btn-group-sm">
+                            <button
+                              className="btn btn-outline-secondary"
+                              onClick={() => navigator.clipboard.writeText(invite.link)}
+                              disabled={expired || usedUp}
+                              title="Copy link"
+                            >
+                              <i className="fa-solid fa-copy"></i>
+                            </button>
+                            <button className="btn btn-outline-danger" onClick={() => handleRevokeInvite(invite.token)} title="Revoke">
+                              <i className="fa-solid fa-trash"></i>
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div className="modal-dialog modal-dialog-centered modal-dialog-scrollable">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h5 className="modal-title">Itinerary History</h5>
+                <button className="btn-close" onClick={() => setShowHistory(false)}></button>
+              </div>
+              <div className="modal-body">
+                {historyLoading ? (
+                  <p className="text-muted text-center py-3">Loading...</p>
+                ) : revisions.length === 0 ? (
+                  <p className="text-muted text-center py-3">No changes yet</p>
+                ) : (
+                  <ul className="list-group">
+                    {revisions.map(revision => (
+                      <li key={revision.version} className="list-group-item d-flex justify-content-between align-items-center">
+                        <div>
+                          <div>
+                            <span className="badge bg-light text-dark me-2">v{revision.version}</span>
+                            {describeRevision(revision)}
+                          </div>
+                          <small className="text-muted">
+                            {revision.userName || revision.userId} · {new Date(revision.timestamp).toLocaleString()} · {revision.items.length} activities
+                          </small>
+                        </div>
+                        {revision.version === currentSession?.itinerary.version ? (
+                          <span className="badge bg-success">Current</span>
+                        ) : canEdit && (
+                          <button className="btn btn-sm btn-outline-primary" onClick={() => handleRestoreVersion(revision.version)}>
+                            Restore
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Debug info in development */}
       <CollaborationDebug />
 
@@ -504,7 +1238,10 @@ const mockActivities = [
     location: '123 Downtown St',
     price: 35,
     rating: 4.5,
-    type: 'restaurant'
+    type: 'restaurant',
+    duration: 90,
+    coordinates: { lat: 40.7128, lon: -74.006 },
+    openingHours: { open: '11:30', close: '22:00' }
   },
   {
     id: 'act-2',
@@ -513,7 +1250,10 @@ const mockActivities = [
     location: '456 Adventure Ave',
     price: 45,
     rating: 4.8,
-    type: 'activity'
+    type: 'activity',
+    duration: 75,
+    coordinates: { lat: 40.7306, lon: -73.9866 },
+    openingHours: { open: '10:00', close: '23:00' }
   },
   {
     id: 'act-3',
@@ -522,7 +1262,10 @@ const mockActivities = [
     location: '789 Sky Tower',
     price: 25,
     rating: 4.3,
-    type: 'restaurant'
+    type: 'restaurant',
+    duration: 120,
+    coordinates: { lat: 40.7484, lon: -73.9857 },
+    openingHours: { open: '17:00', close: '23:59' }
   },
   {
     id: 'act-4',
@@ -531,7 +1274,9 @@ const mockActivities = [
     location: '321 Fun Plaza',
     price: 30,
     rating: 4.2,
-    type: 'activity'
+    type: 'activity',
+    duration: 150,
+    coordinates: { lat: 40.7580, lon: -73.9855 }
   },
   {
     id: 'act-5',
@@ -540,6 +1285,17 @@ const mockActivities = [
     location: '555 Serenity Way',
     price: 85,
     rating: 4.9,
-    type: 'activity'
+    type: 'activity',
+    duration: 180,
+    coordinates: { lat: 40.7794, lon: -73.9632 },
+    openingHours: {
+      mon: null,
+      tue: { open: '09:00', close: '20:00' },
+      wed: { open: '09:00', close: '20:00' },
+      thu: { open: '09:00', close: '20:00' },
+      fri: { open: '09:00', close: '21:00' },
+      sat: { open: '10:00', close: '21:00' },
+      sun: { open: '10:00', close: '18:00' }
+    }
   }
 ]; 
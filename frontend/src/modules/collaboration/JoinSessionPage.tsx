@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AppLayout } from '../layout/AppLayout';
+import { useCollaboration } from './CollaborationProvider';
+
+// Landing page for invite links: accepts the invite, then opens the session
+export const JoinSessionPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { acceptInvite } = useCollaboration();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    acceptInvite(token).then(result => {
+      if (cancelled) return;
+      if (result.sessionId) navigate(`/collaborate/${result.sessionId}`, { replace: true });
+      else setError(result.error || 'This invite link is not valid');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, acceptInvite, navigate]);
+
+  return (
+    <AppLayout title="Join Planning Session">
+      <div className="container-fluid">
+        <div className="vc-card p-4 text-center">
+          {error ? (
+            <>
+              <i className="fa-solid fa-link-slash fa-2x text-muted mb-3"></i>
+              <p className="mb-3">{error}</p>
+              <button className="btn btn-outline-secondary" onClick={() => navigate('/collaborate')}>
+                <i className="fa-solid fa-arrow-left me-2"></i>
+                Back to sessions
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="spinner-border text-primary mb-3" role="status"></div>
+              <p className="text-muted mb-0">Joining session...</p>
+            </>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
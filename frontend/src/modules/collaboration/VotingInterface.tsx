@@ -1,31 +1,114 @@
-import React, { useState } from 'react';
-import { useCollaboration } from './CollaborationProvider';
+import React from 'react';
+import { useCollaboration, VotingMode } from './CollaborationProvider';
 import clsx from 'clsx';
 
 interface VotingInterfaceProps {
   itemId: string;
-  currentVote?: 'up' | 'down' | null;
 }
 
-export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId, currentVote }) => {
-  const { vote, currentSession } = useCollaboration();
-  const [userVote, setUserVote] = useState<'up' | 'down' | null>(currentVote || null);
-  
+export const VOTING_MODE_LABELS: Record<VotingMode, string> = {
+  updown: 'Up / down',
+  approval: 'Approval',
+  ranked: 'Ranked choice',
+  dot: 'Dot voting'
+};
+
+export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId }) => {
+  const { vote, submitRanking, myVotes, currentSession, myRole } = useCollaboration();
+
   const votes = currentSession?.votes[itemId] || { upvotes: 0, downvotes: 0, total: 0, voters: [] };
-  const votingEnabled = currentSession?.settings.votingEnabled ?? true;
-  
+  // Viewers see the tallies but cannot vote
+  const votingEnabled = (currentSession?.settings.votingEnabled ?? true) && !!myRole && myRole !== 'viewer';
+  const mode: VotingMode = currentSession?.settings.votingMode || 'updown';
+  const userVote = myVotes.items[itemId] ?? null;
+
+  if (mode === 'approval') {
+    const approved = userVote === 'approve';
+    return (
+      <div className="voting-interface d-flex align-items-center gap-2">
+        <button
+          className={clsx('btn btn-sm', approved ? 'btn-success' : 'btn-outline-success')}
+          onClick={() => vote(itemId, approved ? null : 'approve')}
+          disabled={!votingEnabled}
+          title={approved ? 'Withdraw approval' : 'Approve'}
+        >
+          <i className="fa-solid fa-check me-1"></i>
+          {approved ? 'Approved' : 'Approve'}
+        </button>
+        <span className="badge bg-secondary">{votes.approvals ?? 0}</span>
+      </div>
+    );
+  }
+
+  if (mode === 'dot') {
+    const budget = currentSession?.settings.dotBudget ?? 10;
+    const myPoints = typeof userVote === 'number' ? userVote : 0;
+    const spent = Object.values(myVotes.items).reduce<number>((sum, v) => sum + (typeof v === 'number' ? v : 0), 0);
+    return (
+      <div className="voting-interface">
+        <div className="d-flex align-items-center gap-2">
+          <button
+            className="btn btn-sm btn-outline-secondary"
+            onClick={() => vote(itemId, myPoints - 1)}
+            disabled={!votingEnabled || myPoints === 0}
+            title="Remove a point"
+          >
+            <i className="fa-solid fa-minus"></i>
+          </button>
+          <span className="fw-semibold">{myPoints}</span>
+          <button
+            className="btn btn-sm btn-outline-primary"
+            onClick={() => vote(itemId, myPoints + 1)}
+            disabled={!votingEnabled || spent >= budget}
+            title="Add a point"
+          >
+            <i className="fa-solid fa-plus"></i>
+          </button>
+          <span className="badge bg-primary">{votes.points ?? 0} pts</span>
+        </div>
+        <small className="text-muted">{budget - spent} of {budget} points left</small>
+      </div>
+    );
+  }
+
+  if (mode === 'ranked') {
+    const position = myVotes.ranking.indexOf(itemId);
+    const choices = myVotes.ranking.length + (position === -1 ? 1 : 0);
+    const rankItem = (rank: number) => {
+      const rest = myVotes.ranking.filter(id => id !== itemId);
+      submitRanking(rank === 0 ? rest : [...rest.slice(0, rank - 1), itemId, ...rest.slice(rank - 1)]);
+    };
+    return (
+      <div className="voting-interface d-flex align-items-center gap-2">
+        <select
+          className="form-select form-select-sm"
+          style={{ width: 'auto' }}
+          value={position + 1}
+          onChange={(e) => rankItem(Number(e.target.value))}
+          disabled={!votingEnabled}
+          aria-label="Your ranking"
+        >
+          <option value={0}>Not ranked</option>
+          {Array.from({ length: choices }, (_, i) => (
+            <option key={i + 1} value={i + 1}>Choice #{i + 1}</option>
+          ))}
+        </select>
+        <span className="badge bg-secondary" title="First-choice votes">{votes.firstChoices ?? 0}</span>
+      </div>
+    );
+  }
+
+  const upvotes = votes.upvotes ?? 0;
+  const downvotes = votes.downvotes ?? 0;
   const handleVote = (voteType: 'up' | 'down') => {
     if (!votingEnabled) return;
-    
-    const newVote = userVote === voteType ? null : voteType;
-    setUserVote(newVote);
-    vote(itemId, newVote);
+    vote(itemId, userVote === voteType ? null : voteType);
   };
-  
-  const upvotePercentage = votes.upvotes + votes.downvotes > 0
-    ? (votes.upvotes / (votes.upvotes + votes.downvotes)) * 100
+
+  const upvotePercentage = upvotes + downvotes > 0
+    ? (upvotes / (upvotes + downvotes)) * 100
     : 50;
-  
+
   return (
     <div className="voting-interface">
       <div className="d-flex align-items-center gap-3">
@@ -40,13 +123,13 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId, curren
           title="Upvote"
         >
           <i className="fa-solid fa-thumbs-up me-1"></i>
-          {votes.upvotes}
+          {upvotes}
         </button>
-        
+
         {/* Vote bar */}
         <div className="vote-bar" style={{ width: 100, height: 8 }}>
           <div className="progress" style={{ height: '100%' }}>
-            <div 
+            <div
               className="progress-bar bg-success"
               style={{ width: `${upvotePercentage}%` }}
               role="progressbar"
@@ -54,13 +137,13 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId, curren
               aria-valuemin={0}
               aria-valuemax={100}
             />
-            <div 
+            <div
               className="progress-bar bg-danger"
               style={{ width: `${100 - upvotePercentage}%` }}
             />
           </div>
         </div>
-        
+
         {/* Downvote button */}
         <button
           className={clsx('btn btn-sm', {
@@ -72,9 +155,9 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId, curren
           title="Downvote"
         >
           <i className="fa-solid fa-thumbs-down me-1"></i>
-          {votes.downvotes}
+          {downvotes}
         </button>
-        
+
         {/* Total score */}
         <span className={clsx('badge', {
           'bg-success': votes.total > 0,
@@ -84,16 +167,94 @@ export const VotingInterface: React.FC<VotingInterfaceProps> = ({ itemId, curren
           {votes.total > 0 ? '+' : ''}{votes.total}
         </span>
       </div>
-      
+
       {/* Voters list (if not anonymous) */}
-      {!currentSession?.settings.anonymousVoting && votes.voters?.length > 0 && (
+      {!currentSession?.settings.anonymousVoting && (votes.voters?.length ?? 0) > 0 && (
         <div className="voters-list mt-2">
           <small className="text-muted">
-            Voted: {votes.voters.slice(0, 3).join(', ')}
-            {votes.voters.length > 3 && ` +${votes.voters.length - 3} more`}
+            Voted: {votes.voters!.slice(0, 3).join(', ')}
+            {votes.voters!.length > 3 && ` +${votes.voters!.length - 3} more`}
           </small>
         </div>
       )}
     </div>
   );
-}; 
+};
+
+interface VotingResultsProps {
+  items: { id: string; title: string }[];
+}
+
+// Session-wide standings for the current voting mode. Names are only shown when voting is not anonymous.
+export const VotingResults: React.FC<VotingResultsProps> = ({ items }) => {
+  const { currentSession, voteError } = useCollaboration();
+  const results = currentSession?.voteResults;
+  if (!currentSession || !results) return null;
+
+  const titleOf = (itemId: string) => items.find(i => i.id === itemId)?.title
+    || currentSession.itinerary.items.find((i: any) => i.id === itemId)?.title
+    || itemId;
+  const nameOf = (userId: string) => currentSession.participants.find(p => p.id === userId)?.name || userId;
+  const anonymous = currentSession.settings.anonymousVoting;
+  const scoreLabel = { updown: 'net votes', approval: 'approvals', ranked: 'first choices', dot: 'points' }[results.mode];
+
+  return (
+    <div className="voting-results">
+      {voteError && <div className="alert alert-warning py-2 small">{voteError}</div>}
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <span className="badge bg-light text-dark">{VOTING_MODE_LABELS[results.mode]}</span>
+        <small className="text-muted">
+          {results.voterCount} of {results.participantCount} voted
+        </small>
+      </div>
+
+      {results.ranking.length === 0 ? (
+        <p className="text-muted small mb-0">No votes yet</p>
+      ) : (
+        <ol className="list-unstyled mb-2">
+          {results.ranking.map(({ itemId, score }) => (
+            <li key={itemId} className={clsx('d-flex justify-content-between small py-1', { 'fw-bold': itemId === results.winner })}>
+              <span>
+                {itemId === results.winner && <i className="fa-solid fa-trophy text-warning me-1"></i>}
+                {titleOf(itemId)}
+              </span>
+              <span className="text-muted">{score} {scoreLabel}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {results.consensus.required && (
+        <div className={clsx('small', results.consensus.reached ? 'text-success' : 'text-warning')}>
+          <i className={clsx('fa-solid me-1', results.consensus.reached ? 'fa-handshake' : 'fa-hourglass-half')}></i>
+          {results.consensus.reached
+            ? 'Everyone supports the winner'
+            : results.leader
+              ? `${titleOf(results.leader)} leads, but consensus is required`
+              : 'Waiting for consensus'}
+        </div>
+      )}
+
+      {results.mode === 'ranked' && results.rounds && results.rounds.length > 1 && (
+        <details className="small mt-2">
+          <summary>Instant-runoff rounds</summary>
+          <ul className="list-unstyled mt-1 mb-0">
+            {results.rounds.map(round => (
+              <li key={round.round}>
+                Round {round.round}:{' '}
+                {Object.entries(round.counts).map(([id, count]) => `${titleOf(id)} ${count}`).join(', ')}
+                {round.eliminated.length > 0 && ` — out: ${round.eliminated.map(titleOf).join(', ')}`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {!anonymous && results.voters && results.voters.length > 0 && (
+        <small className="text-muted d-block mt-2">
+          Voted: {results.voters.map(nameOf).join(', ')}
+        </small>
+      )}
+    </div>
+  );
+};